@@ -0,0 +1,212 @@
+#!/usr/bin/env node
+/**
+ * Generate the bundled component catalog of a collector release from the
+ * metadata of every component in the core and contrib repositories:
+ *
+ *   npm run catalog -- 0.120.0
+ *
+ * Without a version it regenerates every version listed in
+ * `public/catalog/index.json`; the deploy workflow runs it that way before
+ * building, so the snapshots are never committed.
+ *
+ * For each component directory at tag v<version> it reads `metadata.yaml`
+ * (type, signals, stability), the first paragraph of `README.md`
+ * (description) and `testdata/config.yaml` (default config template), then
+ * writes `public/catalog/<version>.json` and adds the version to
+ * `public/catalog/index.json`. Directories without a `metadata.yaml` are
+ * groups (e.g. `extension/observer`) whose subdirectories are read instead;
+ * each entry records its directory as `modulePath`. Set GITHUB_TOKEN to avoid
+ * the API rate limit.
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import yaml from 'js-yaml';
+
+const REPOS = {
+  core: 'open-telemetry/opentelemetry-collector',
+  contrib: 'open-telemetry/opentelemetry-collector-contrib',
+};
+const COMPONENT_TYPES = ['receiver', 'processor', 'exporter', 'connector', 'extension'];
+const SIGNALS = ['traces', 'metrics', 'logs'];
+const STABILITY_LEVELS = ['development', 'alpha', 'beta', 'stable', 'deprecated', 'unmaintained'];
+const CONCURRENCY = 8;
+
+const catalogDir = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'catalog');
+
+async function main() {
+  const versions = process.argv[2] ? [process.argv[2].replace(/^v/, '')] : (await readIndex())?.versions ?? [];
+  if (versions.length === 0 || !versions.every(version => /^\d+\.\d+\.\d+$/.test(version))) {
+    console.error('Usage: npm run catalog -- [collector version, e.g. 0.120.0]');
+    process.exit(1);
+  }
+  for (const version of versions) {
+    await generate(version);
+  }
+}
+
+async function generate(version) {
+  const ref = `v${version}`;
+
+  const directories = [];
+  for (const [source, repo] of Object.entries(REPOS)) {
+    for (const componentType of COMPONENT_TYPES) {
+      const entries = await fetchJson(`https://api.github.com/repos/${repo}/contents/${componentType}?ref=${ref}`);
+      for (const entry of entries ?? []) {
+        if (entry.type === 'dir') directories.push({ source, repo, componentType, path: `${componentType}/${entry.name}` });
+      }
+    }
+  }
+  console.log(`${directories.length} component directories at ${ref}`);
+
+  const read = await mapLimit(directories, CONCURRENCY, dir => readComponent(dir, ref));
+  const groups = directories.filter((_, i) => read[i] === undefined);
+  const nested = [];
+  for (const group of groups) {
+    const entries = await fetchJson(`https://api.github.com/repos/${group.repo}/contents/${group.path}?ref=${ref}`);
+    for (const entry of entries ?? []) {
+      if (entry.type === 'dir') nested.push({ ...group, path: `${group.path}/${entry.name}` });
+    }
+  }
+  const readNested = await mapLimit(nested, CONCURRENCY, dir => readComponent(dir, ref));
+  const components = [...read, ...readNested].filter(Boolean);
+  components.sort((a, b) =>
+    COMPONENT_TYPES.indexOf(a.componentType) - COMPONENT_TYPES.indexOf(b.componentType) || a.type.localeCompare(b.type),
+  );
+
+  await mkdir(catalogDir, { recursive: true });
+  await writeFile(join(catalogDir, `${version}.json`), JSON.stringify({ version, components }, null, 2) + '\n');
+  await updateIndex(version);
+  console.log(`Wrote ${components.length} components to public/catalog/${version}.json`);
+}
+
+/**
+ * Build a catalog entry from a component directory: undefined if it has no
+ * metadata.yaml (a group of components, or not a component), null if the
+ * metadata describes another kind of component
+ */
+async function readComponent({ source, repo, componentType, path }, ref) {
+  const base = `https://raw.githubusercontent.com/${repo}/${ref}/${path}`;
+  const dirName = path.split('/').pop();
+  const metadataText = await fetchText(`${base}/metadata.yaml`);
+  if (!metadataText) return undefined;
+
+  const metadata = yaml.load(metadataText) ?? {};
+  const status = metadata.status ?? {};
+  if (status.class && status.class !== componentType) return null;
+  const type = metadata.type ?? dirName.replace(new RegExp(`${componentType}$`), '');
+
+  const stability = {};
+  for (const [level, entries] of Object.entries(status.stability ?? {})) {
+    if (!STABILITY_LEVELS.includes(level) || !Array.isArray(entries)) continue;
+    for (const entry of entries) stability[entry] = level;
+  }
+  const pairs = Object.keys(stability)
+    .map(key => key.split('_to_'))
+    .filter(([from, to]) => SIGNALS.includes(from) && SIGNALS.includes(to))
+    .map(([from, to]) => ({ from, to }));
+  const supportedSignals = SIGNALS.filter(signal =>
+    signal in stability || pairs.some(pair => pair.from === signal || pair.to === signal),
+  );
+
+  const entry = {
+    type,
+    componentType,
+    source,
+    displayName: metadata.display_name ?? toTitleCase(type),
+    description: readmeSummary(await fetchText(`${base}/README.md`)),
+    supportedSignals: componentType === 'extension' ? [] : supportedSignals,
+    stability,
+    defaultConfig: defaultConfig(await fetchText(`${base}/testdata/config.yaml`), componentType, type),
+    modulePath: path,
+  };
+  if (componentType === 'connector') entry.connectorSignalPairs = pairs;
+  return entry;
+}
+
+/** First prose paragraph of a README: not a heading, table, badge, HTML or list */
+function readmeSummary(readme) {
+  if (!readme) return '';
+  const paragraphs = readme.split(/\n\s*\n/).map(p => p.trim());
+  const prose = paragraphs.find(p => p && !/^(#|\||<|\[!\[|[-*] |```)/.test(p));
+  return (prose ?? '')
+    .replace(/\s+/g, ' ')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .slice(0, 300);
+}
+
+/**
+ * The component's config in testdata/config.yaml: the entry named exactly
+ * like the type, else the first `type/name` entry. Empty when there is none.
+ */
+function defaultConfig(configText, componentType, type) {
+  if (!configText) return {};
+  try {
+    const doc = yaml.load(configText) ?? {};
+    const section = doc[`${componentType}s`] ?? {};
+    const key = type in section ? type : Object.keys(section).find(k => k.startsWith(`${type}/`));
+    const value = key ? section[key] : null;
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  } catch {
+    return {};
+  }
+}
+
+async function readIndex() {
+  try {
+    return JSON.parse(await readFile(join(catalogDir, 'index.json'), 'utf8'));
+  } catch {
+    // First snapshot
+    return null;
+  }
+}
+
+async function updateIndex(version) {
+  const index = (await readIndex()) ?? { versions: [], default: version };
+  const versions = [...new Set([...index.versions, version])].sort(compareVersionsDescending);
+  await writeFile(join(catalogDir, 'index.json'), JSON.stringify({ versions, default: versions[0] }, null, 2) + '\n');
+}
+
+function compareVersionsDescending(a, b) {
+  const [pa, pb] = [a, b].map(v => v.split('.').map(Number));
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return pb[i] - pa[i];
+  }
+  return 0;
+}
+
+function toTitleCase(str) {
+  return str.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+}
+
+async function fetchJson(url) {
+  const headers = { Accept: 'application/vnd.github+json' };
+  if (process.env.GITHUB_TOKEN) headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+  const response = await fetch(url, { headers });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`${url}: HTTP ${response.status}`);
+  return response.json();
+}
+
+async function fetchText(url) {
+  const response = await fetch(url);
+  return response.ok ? response.text() : null;
+}
+
+async function mapLimit(items, limit, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: limit }, worker));
+  return results;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -5,15 +5,18 @@ import { GraphViewerComponent } from './features/graph-viewer/graph-viewer.compo
 import { YamlPanelComponent } from './features/yaml-panel/yaml-panel.component';
 import { ToolbarComponent } from './features/toolbar/toolbar.component';
 import { NodeDetailComponent } from './features/node-detail/node-detail.component';
+import { DiffPanelComponent } from './features/diff-panel/diff-panel.component';
 import { LogViewerComponent } from './features/log-viewer/log-viewer.component';
-import { ConfigStateService, ConfigUrlService } from './core/services';
+import { WorkspaceTabsComponent } from './features/workspace-tabs/workspace-tabs.component';
+import { ConfigUrlService } from './core/services';
+import { WorkspaceService } from './core/services/workspace.service';
 
 export type AppTab = 'config' | 'logs';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [GraphViewerComponent, YamlPanelComponent, ToolbarComponent, NodeDetailComponent, LogViewerComponent],
+  imports: [GraphViewerComponent, YamlPanelComponent, ToolbarComponent, NodeDetailComponent, DiffPanelComponent, LogViewerComponent, WorkspaceTabsComponent],
   templateUrl: './app.html',
   styleUrl: './app.scss',
 })
@@ -24,7 +27,7 @@ export class AppComponent {
 
   private readonly route = inject(ActivatedRoute);
   private readonly router = inject(Router);
-  private readonly configState = inject(ConfigStateService);
+  private readonly workspace = inject(WorkspaceService);
   private readonly configUrlService = inject(ConfigUrlService);
 
   yamlPanelWidthPercent = 30; // starts at 30% of viewport
@@ -35,7 +38,14 @@ export class AppComponent {
 
   constructor() {
     afterNextRender(() => {
-      // Try Angular Router first
+      // Current links carry the config in the fragment
+      const fragmentConfig = this.configUrlService.payloadFromFragment(window.location.hash);
+      if (fragmentConfig) {
+        this.loadConfigFromUrl(fragmentConfig);
+        return;
+      }
+
+      // Older links use ?config=: try Angular Router first
       this.route.queryParams.pipe(take(1)).subscribe(params => {
         let encodedConfig = params['config'];
 
@@ -52,14 +62,16 @@ export class AppComponent {
     });
   }
 
-  private loadConfigFromUrl(encoded: string): void {
+  private async loadConfigFromUrl(encoded: string): Promise<void> {
     try {
-      const yaml = this.configUrlService.decodeConfig(encoded);
-      this.configState.loadYaml(yaml);
+      const yaml = await this.configUrlService.decodeSharePayload(encoded);
+      this.workspace.open('Shared config', yaml);
 
-      // Clean URL (remove query param) for cleaner UX
+      // Clean URL (remove the config, keep the graph filter) for cleaner UX
       this.router.navigate([], {
         relativeTo: this.route,
+        queryParams: { config: null },
+        queryParamsHandling: 'merge',
         replaceUrl: true
       });
     } catch (error) {
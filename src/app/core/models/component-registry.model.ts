@@ -1,6 +1,9 @@
 import { ComponentType, SignalType } from './otel-config.model';
 import { ComponentDefinition } from './component-library.model';
 
+/** Stability levels of the `status.stability` section of metadata.yaml */
+export type StabilityLevel = 'development' | 'alpha' | 'beta' | 'stable' | 'deprecated' | 'unmaintained';
+
 /**
  * Extended component definition that tracks its origin and enrichment state.
  * Backwards-compatible with ComponentDefinition.
@@ -8,8 +11,49 @@ import { ComponentDefinition } from './component-library.model';
 export interface RegistryComponentEntry extends ComponentDefinition {
   /** Which repo this component was discovered from */
   source: 'core' | 'contrib';
-  /** Whether metadata.yaml has been fetched and parsed */
+  /** Whether metadata.yaml has been fetched and parsed (always true for bundled entries) */
   enriched: boolean;
+  /** Signal pairs a connector can bridge (from `*_to_*` stability keys) */
+  connectorSignalPairs?: ConnectorSignalPair[];
+  /**
+   * Stability per signal, keyed like metadata.yaml: `traces`, `metrics`,
+   * `logs`, connector pairs such as `traces_to_metrics`, or `extension`
+   */
+  stability?: Record<string, StabilityLevel>;
+  /**
+   * Directory of the component's Go module within its repository, e.g.
+   * `extension/storage/filestorage`; `<kind>/<type><kind>` when not set
+   */
+  modulePath?: string;
+}
+
+/** A catalog entry as stored in a bundled snapshot */
+export type CatalogComponent = Omit<RegistryComponentEntry, 'enriched'>;
+
+/**
+ * Component catalog of one collector release, bundled with the app as
+ * `public/catalog/<version>.json` by `npm run catalog`.
+ */
+export interface CatalogSnapshot {
+  /** Collector release, e.g. `0.120.0` */
+  version: string;
+  components: CatalogComponent[];
+}
+
+/** `public/catalog/index.json`: the bundled snapshots */
+export interface CatalogIndex {
+  /** Bundled versions, newest first */
+  versions: string[];
+  /** Version used until the user picks one */
+  default: string;
+}
+
+/** A signal pair a connector supports, e.g. traces → metrics for spanmetrics */
+export interface ConnectorSignalPair {
+  /** Signal of the pipeline where the connector is used as an exporter */
+  from: SignalType;
+  /** Signal of the pipeline where the connector is used as a receiver */
+  to: SignalType;
 }
 
 /** Raw directory entry from GitHub Contents API */
@@ -26,6 +70,8 @@ export interface ParsedMetadata {
   description: string;
   componentType: ComponentType;
   supportedSignals: SignalType[];
+  connectorSignalPairs: ConnectorSignalPair[];
+  stability: Record<string, StabilityLevel>;
 }
 
 /** Shape of cached data in localStorage */
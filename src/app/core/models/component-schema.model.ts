@@ -0,0 +1,61 @@
+import { ComponentType } from './otel-config.model';
+
+/**
+ * Value types understood by the component config schemas.
+ * `duration` is a Go duration string (e.g. '5s', '1m30s'),
+ * `endpoint` is a listen address (host:port), and `url` is an exporter
+ * target (either a URL with a scheme or host:port).
+ */
+export type ConfigValueType =
+  | 'string'
+  | 'integer'
+  | 'number'
+  | 'boolean'
+  | 'duration'
+  | 'endpoint'
+  | 'url'
+  | 'object'
+  | 'array'
+  | 'map'
+  | 'any';
+
+/**
+ * Describes the expected shape of a single config value.
+ */
+export interface ConfigFieldSchema {
+  type: ConfigValueType;
+  /** Short help text (shown in editors) */
+  description?: string;
+  /** Key must be present in its parent object */
+  required?: boolean;
+  /** Allowed values for string fields */
+  enum?: readonly string[];
+  /** Lower bound for integer/number fields */
+  minimum?: number;
+  /** object: known keys and their schemas */
+  properties?: Record<string, ConfigFieldSchema>;
+  /** object: whether keys not listed in `properties` are accepted (default: false) */
+  additionalProperties?: boolean;
+  /** object: at least one of these keys must be present */
+  requireOneOf?: readonly string[];
+  /** array: schema for every item */
+  items?: ConfigFieldSchema;
+  /** map: schema for the value of every (arbitrary) key */
+  values?: ConfigFieldSchema;
+}
+
+/**
+ * Config schema for one component type (e.g. the `batch` processor).
+ */
+export interface ComponentSchema {
+  componentType: ComponentType;
+  type: string;
+  config: ConfigFieldSchema;
+}
+
+/** A single mismatch between a config value and its schema */
+export interface SchemaViolation {
+  /** Path of the offending key, relative to the component config */
+  path: (string | number)[];
+  message: string;
+}
@@ -0,0 +1,38 @@
+import { ComponentType, DiffStatus, PipelineRole } from './otel-config.model';
+
+/** A single setting that differs between the two configs */
+export interface ConfigValueChange {
+  kind: DiffStatus;
+  /** Key path inside the component config, e.g. ['protocols', 'grpc', 'endpoint'] */
+  path: (string | number)[];
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ComponentChange {
+  kind: DiffStatus;
+  componentType: ComponentType;
+  id: string;
+  /** Per-key changes (only for `changed` components) */
+  valueChanges: ConfigValueChange[];
+}
+
+/** A pipeline role whose component list differs (order counts for processors) */
+export interface PipelineRoleChange {
+  role: PipelineRole;
+  before: string[];
+  after: string[];
+}
+
+export interface PipelineChange {
+  kind: DiffStatus;
+  id: string;
+  /** Changed component lists (only for `changed` pipelines) */
+  roleChanges: PipelineRoleChange[];
+}
+
+/** Structural differences between a "before" and an "after" config */
+export interface ConfigDiff {
+  components: ComponentChange[];
+  pipelines: PipelineChange[];
+}
@@ -0,0 +1,26 @@
+import { ConfigFieldSchema } from './component-schema.model';
+
+/**
+ * Input used to edit a config value in the form editor. `yaml` is the
+ * fallback for values without a dedicated input (e.g. lists of objects).
+ */
+export type ConfigFormFieldKind = 'string' | 'number' | 'boolean' | 'duration' | 'list' | 'object' | 'yaml';
+
+/**
+ * One row of the component config form: a key of the config (or of a
+ * nested object) with the input used to edit its value.
+ */
+export interface ConfigFormField {
+  /** Path of the key, relative to the component config */
+  path: string[];
+  key: string;
+  /** Nesting level, 0 for top-level keys */
+  depth: number;
+  kind: ConfigFormFieldKind;
+  value: unknown;
+  schema?: ConfigFieldSchema;
+  /** object: keys known from the schema that aren't set yet */
+  missingKeys: string[];
+  /** object: whether keys other than `missingKeys` can be added */
+  allowsCustomKeys: boolean;
+}
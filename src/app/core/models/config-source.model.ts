@@ -0,0 +1,16 @@
+import { SectionKey } from './otel-config.model';
+
+/** One file of a layered config (e.g. a base config plus environment overlays) */
+export interface ConfigFile {
+  name: string;
+  content: string;
+}
+
+/**
+ * Which files defined or changed each component and pipeline, in load order.
+ * Component entries are keyed by section, then component ID.
+ */
+export interface ConfigProvenance {
+  components: Record<SectionKey, Record<string, string[]>>;
+  pipelines: Record<string, string[]>;
+}
@@ -0,0 +1,24 @@
+/** Kubernetes and Helm files that can carry a collector config */
+export type ConfigWrapperKind = 'opentelemetry-collector' | 'config-map' | 'helm-values';
+
+/**
+ * Where a collector config was found inside a wrapper file, so the edited
+ * config can be written back into the same file.
+ */
+export interface ConfigWrapper {
+  kind: ConfigWrapperKind;
+  /** The whole file the config was extracted from */
+  source: string;
+  /** Index of the YAML document holding the config (manifests may hold several) */
+  documentIndex: number;
+  /** Path of the config in that document, e.g. `['spec', 'config']` */
+  path: string[];
+  /** Whether the config is a nested map or a string (usually a `|` block) */
+  embedding: 'map' | 'string';
+}
+
+export const CONFIG_WRAPPER_LABELS: Record<ConfigWrapperKind, string> = {
+  'opentelemetry-collector': 'OpenTelemetryCollector',
+  'config-map': 'ConfigMap',
+  'helm-values': 'Helm values',
+};
@@ -0,0 +1,39 @@
+import { SectionKey } from './otel-config.model';
+
+/** Collector distributions a config can target */
+export type DistributionId = 'core' | 'contrib' | 'k8s' | 'custom';
+
+/** Component types a distribution includes, per config section */
+export type DistributionComponents = Record<SectionKey, string[]>;
+
+export interface Distribution {
+  id: DistributionId;
+  name: string;
+  description: string;
+  /**
+   * Component types the distribution includes, or null when it includes
+   * every component of the core and contrib repositories.
+   */
+  components: DistributionComponents | null;
+}
+
+/** What was read from an OCB `builder-config.yaml` */
+export interface BuilderManifest {
+  /** `dist.name`, if set */
+  name?: string;
+  components: DistributionComponents;
+}
+
+/** Settings of a generated OCB manifest */
+export interface BuilderManifestOptions {
+  /** Distribution name, also used for the output path */
+  name: string;
+  /** Collector release the component modules are pinned to, e.g. `0.120.0` */
+  version: string;
+}
+
+export interface GeneratedBuilderManifest {
+  yaml: string;
+  /** Component types the registry doesn't know; they are listed with a guessed contrib path */
+  unresolved: string[];
+}
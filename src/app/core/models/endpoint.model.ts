@@ -0,0 +1,33 @@
+import { ComponentType } from './otel-config.model';
+
+export type EndpointProtocol = 'tcp' | 'udp';
+
+/** An address the collector listens on, taken from a component's config or its default */
+export interface ListenEndpoint {
+  /** Component ID, or `telemetry` for the collector's own metrics endpoint */
+  componentId: string;
+  componentType: ComponentType | 'service';
+  /** Listener within the component, e.g. `grpc`, `http`, `thrift_compact`; `endpoint` for a single listener */
+  name: string;
+  /** Host part as written (`0.0.0.0`, `localhost`, `${env:MY_POD_IP}`…), `localhost` for defaults */
+  host: string;
+  port: number;
+  protocol: EndpointProtocol;
+  /** Path of the value in the config, or of the listener's key when the default is used */
+  path: (string | number)[];
+  /** The endpoint isn't set and the component's default address applies */
+  isDefault: boolean;
+}
+
+/** An endpoint whose port is already bound by another one on an overlapping host */
+export interface PortConflict {
+  endpoint: ListenEndpoint;
+  conflictsWith: ListenEndpoint;
+}
+
+/** A `static_configs` target of a prometheus receiver scrape job */
+export interface ScrapeTarget {
+  componentId: string;
+  job: string;
+  target: string;
+}
@@ -0,0 +1,23 @@
+/** Config providers whose references can be resolved in the viewer */
+export type VariableProvider = 'env' | 'file';
+
+/**
+ * A `${...}` reference found in a config value, e.g. `${env:OTLP_ENDPOINT}`,
+ * `${OTLP_ENDPOINT:-localhost:4317}` or `${file:/etc/otel/token}`.
+ */
+export interface VariableReference {
+  provider: VariableProvider;
+  /** Variable name, or the file path for `file` references */
+  name: string;
+  /** Fallback from `${VAR:-default}`, used when the variable has no value */
+  defaultValue?: string;
+}
+
+/**
+ * A named set of variable values (e.g. dev, staging, prod).
+ * Keys are variable names, or `file:<path>` for file references.
+ */
+export interface ConfigEnvironment {
+  name: string;
+  variables: Record<string, string>;
+}
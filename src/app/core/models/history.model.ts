@@ -0,0 +1,19 @@
+import { OtelConfig } from './otel-config.model';
+
+/** The config and its YAML at one point in the edit history */
+export interface ConfigSnapshot {
+  config: OtelConfig;
+  rawYaml: string;
+}
+
+/**
+ * One undoable edit. Undoing restores `before`, redoing restores `after`.
+ */
+export interface HistoryEntry {
+  id: number;
+  /** Human-readable description, e.g. 'Removed exporter otlp/backend' */
+  label: string;
+  timestamp: number;
+  before: ConfigSnapshot;
+  after: ConfigSnapshot;
+}
@@ -3,9 +3,23 @@
  */
 export * from './otel-config.model';
 export * from './validation.model';
+export * from './lint.model';
+export * from './environment.model';
+export * from './config-source.model';
+export * from './config-wrapper.model';
+export * from './distribution.model';
+export * from './endpoint.model';
+export * from './telemetry.model';
+export * from './config-diff.model';
+export * from './history.model';
+export * from './config-form.model';
+export * from './layout.model';
+export * from './redaction.model';
+export * from './workspace.model';
 export * from './parse-error.model';
 export * from './node-selection.model';
 export * from './component-library.model';
 export * from './component-registry.model';
+export * from './component-schema.model';
 export * from './otlp-log.model';
 export * from './log-worker-protocol';
@@ -0,0 +1,17 @@
+/** Manually placed position of a graph node (top-left corner, in graph coordinates) */
+export interface NodePosition {
+  x: number;
+  y: number;
+}
+
+/** Manual node positions keyed by graph node ID, e.g. 'receiver/otlp' or 'processor/batch@traces' */
+export type NodePositions = Record<string, NodePosition>;
+
+/**
+ * Contents of an exported layout sidecar file
+ * (also embedded, as JSON, in the YAML layout comment block).
+ */
+export interface LayoutFile {
+  otelViewerLayout: 1;
+  positions: NodePositions;
+}
@@ -0,0 +1,26 @@
+import { OtelConfig } from './otel-config.model';
+import { ValidationIssue } from './validation.model';
+
+/** A single problem reported by a lint rule */
+export interface LintFinding {
+  message: string;
+  pipelineId?: string;
+  componentId?: string;
+  /** YAML key path of the problem, used to resolve a line number */
+  path: (string | number)[];
+}
+
+/**
+ * A best-practice check over a whole config. Rules only report `info` and
+ * `warning` findings — configs that break a rule still run.
+ */
+export interface LintRule {
+  /** Stable identifier shown next to findings (e.g. 'memory-limiter-first') */
+  id: string;
+  /** One-line explanation shown in the rule settings */
+  description: string;
+  severity: 'info' | 'warning';
+  check(config: OtelConfig): LintFinding[];
+  /** Return a config with the issue fixed. Rules without a fix are report-only. */
+  fix?(config: OtelConfig, issue: ValidationIssue): OtelConfig;
+}
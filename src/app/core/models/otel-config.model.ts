@@ -114,12 +114,31 @@ export interface OtelConfig {
 
 // ─── Graph Models (for d3.js) ───────────────────────────────────
 
+/** How a graph element differs from the baseline when a config diff is shown */
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
 export interface GraphNode {
   id: string;
   label: string;
   componentType: ComponentType;
   component: OtelComponent;
 
+  /**
+   * Pipeline this node belongs to. Set for processor nodes, which are drawn
+   * once per pipeline because processor order is pipeline-specific.
+   */
+  pipelineId?: string;
+  /** Position of a processor node within its pipeline's `processors` list (0-based) */
+  chainIndex?: number;
+
+  /** Pipeline view: the swimlane (pipeline) this copy of the component is drawn in */
+  laneId?: string;
+  /** Pipeline view: other pipelines that use the same component */
+  sharedWith?: string[];
+
+  /** Set when the graph shows a diff against a baseline config */
+  diffStatus?: DiffStatus;
+
   /** Position for d3 layout */
   x?: number;
   y?: number;
@@ -135,6 +154,8 @@ export interface GraphEdge {
   target: string;
   pipelineId: string;
   signal: SignalType;
+  /** Set when the graph shows a diff against a baseline config */
+  diffStatus?: DiffStatus;
 }
 
 export interface GraphData {
@@ -187,6 +208,16 @@ export function parsePipelineId(id: string): { signal: SignalType; name?: string
   };
 }
 
+/**
+ * Graph node ID for a processor as it appears in a given pipeline's chain.
+ * e.g. ('traces', 'batch') → 'processor/batch@traces'. A processor listed
+ * more than once gets the number of earlier occurrences appended:
+ * ('traces', 'batch', 1) → 'processor/batch@traces[1]'
+ */
+export function processorNodeId(pipelineId: string, processorId: string, occurrence = 0): string {
+  return `processor/${processorId}@${pipelineId}${occurrence > 0 ? `[${occurrence}]` : ''}`;
+}
+
 /**
  * Get a display-friendly color for each component type.
  * Returns CSS variable references for theme-aware colors.
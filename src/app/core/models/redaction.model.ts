@@ -0,0 +1,38 @@
+/** What a detected secret is replaced with */
+export type RedactionReplacement = 'env' | 'redacted';
+
+/** Per-value choice in the redaction preview: a replacement, or keep the value */
+export type RedactionChoice = RedactionReplacement | 'keep';
+
+/**
+ * A check for secret-like values. A value matches when its key matches
+ * `keyPattern` or its text matches `valuePattern` (patterns are
+ * case-insensitive regular expression sources).
+ */
+export interface RedactionRule {
+  /** Stable identifier (e.g. 'secret-keys') */
+  id: string;
+  /** One-line explanation shown in the rule settings */
+  description: string;
+  keyPattern?: string;
+  valuePattern?: string;
+  /** Default replacement for values this rule matches */
+  replacement: RedactionReplacement;
+  enabled: boolean;
+  /** Rules shipped with the viewer can be switched off but not deleted */
+  builtIn?: boolean;
+}
+
+/** A secret-like value found in a config */
+export interface RedactionMatch {
+  /** YAML path of the value (map keys and sequence indexes) */
+  path: (string | number)[];
+  /** Dotted path, used as the key for per-value overrides */
+  pathKey: string;
+  value: string;
+  ruleId: string;
+  /** Replacement proposed by the rule */
+  replacement: RedactionReplacement;
+  /** `${env:...}` placeholder derived from the path */
+  envPlaceholder: string;
+}
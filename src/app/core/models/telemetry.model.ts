@@ -0,0 +1,31 @@
+import { ValidationSeverity } from './validation.model';
+
+/** Signals the collector emits about itself under `service.telemetry` */
+export type TelemetrySignal = 'logs' | 'metrics' | 'traces';
+
+/** Where one kind of the collector's own telemetry ends up */
+export interface TelemetryDestination {
+  signal: TelemetrySignal;
+  kind: 'console' | 'file' | 'otlp' | 'zipkin' | 'prometheus';
+  /** `stderr`, a file path, the endpoint pushed to, or the `host:port` to scrape */
+  target: string;
+  /** Path of the setting within `service.telemetry` */
+  path: (string | number)[];
+  /** Nothing is configured and the collector's default applies */
+  isDefault: boolean;
+}
+
+/** A telemetry destination served by a receiver of the same config (the collector feeding itself) */
+export interface TelemetryLink {
+  destination: TelemetryDestination;
+  /** ID of the receiver that gets the data */
+  receiverId: string;
+}
+
+/** A structural problem in `service.telemetry` */
+export interface TelemetryProblem {
+  severity: ValidationSeverity;
+  message: string;
+  /** Path of the offending setting within `service.telemetry` */
+  path: (string | number)[];
+}
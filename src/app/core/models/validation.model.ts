@@ -1,3 +1,5 @@
+import { PipelineRole, SignalType } from './otel-config.model';
+
 export type ValidationSeverity = 'error' | 'warning' | 'info';
 
 export interface ValidationIssue {
@@ -6,4 +8,25 @@ export interface ValidationIssue {
   pipelineId?: string;
   componentId?: string;
   autoFixable: boolean;
-}
\ No newline at end of file
+  /** ID of the lint rule that reported this issue (lint issues only) */
+  ruleId?: string;
+  /** 1-indexed line in the YAML where the issue is located, when known */
+  line?: number;
+}
+
+/** Extra inputs that some validation checks need besides the parsed config */
+export interface ValidationContext {
+  /** The YAML the config was parsed from, used to attach line numbers to issues */
+  rawYaml?: string;
+  /** Whether the config is tagged as a production config (early-stability components are then flagged) */
+  production?: boolean;
+}
+/** A component listed in a pipeline whose signal it doesn't support */
+export interface SignalMismatch {
+  pipelineId: string;
+  signal: SignalType;
+  componentId: string;
+  role: PipelineRole;
+  /** Signals the component supports, from the registry catalog */
+  supportedSignals: SignalType[];
+}
@@ -0,0 +1,25 @@
+import { ConfigFile } from './config-source.model';
+
+/** One named config of the workspace, shown as a tab */
+export interface WorkspaceEntry {
+  id: string;
+  name: string;
+  /** The config as shown in the editor (the merged result for layered configs), inside its Kubernetes/Helm wrapper if it had one */
+  yaml: string;
+  /** Source files of a layered config; empty for a single YAML */
+  files: ConfigFile[];
+  /** Tagged as a production config: validation also flags development/alpha components */
+  production?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A file or link opened into the workspace, listed under "Recent" */
+export interface RecentFile {
+  name: string;
+  /** Tab the file was opened into; reopened from `yaml`/`files` once that tab is closed */
+  entryId: string;
+  yaml: string;
+  files: ConfigFile[];
+  openedAt: number;
+}
@@ -1,6 +1,7 @@
 import { computed, inject, Injectable } from '@angular/core';
 import { ComponentDefinition } from '../models/component-library.model';
 import { ComponentType } from '../models/otel-config.model';
+import { StabilityLevel } from '../models/component-registry.model';
 import { ComponentRegistryService } from './component-registry.service';
 
 @Injectable({
@@ -11,6 +12,9 @@ export class ComponentLibraryService {
 
   readonly isLoading = computed(() => this.registry.loading());
   readonly error = computed(() => this.registry.error());
+  readonly catalogVersions = computed(() => this.registry.versions());
+  readonly catalogVersion = computed(() => this.registry.version());
+  readonly liveOverlay = computed(() => this.registry.liveOverlay());
 
   getAll(): ComponentDefinition[] {
     return this.registry.catalog();
@@ -30,10 +34,23 @@ export class ComponentLibraryService {
     );
   }
 
+  /** Stability per signal of a component type, when the catalog knows it */
+  getStability(componentType: ComponentType, type: string): Record<string, StabilityLevel> | undefined {
+    return this.registry.findEntry(componentType, type)?.stability;
+  }
+
   enrichComponent(componentType: ComponentType, type: string): void {
     this.registry.enrichComponent(componentType, type);
   }
 
+  setCatalogVersion(version: string): void {
+    this.registry.setVersion(version);
+  }
+
+  setLiveOverlay(enabled: boolean): void {
+    this.registry.setLiveOverlay(enabled);
+  }
+
   clearCacheAndRefresh(): void {
     this.registry.clearCacheAndRefresh();
   }
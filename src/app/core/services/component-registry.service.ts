@@ -4,62 +4,141 @@ import {
   RegistryComponentEntry,
   GitHubDirectoryEntry,
   CacheEntry,
+  CatalogIndex,
+  CatalogSnapshot,
+  ConnectorSignalPair,
+  StabilityLevel,
 } from '../models/component-registry.model';
 import {
   stripComponentSuffix,
   toTitleCase,
   parseMetadataYaml,
 } from '../utils/metadata-parser';
+import { canonicalComponentType } from '../utils/distributions';
 
 const CORE_REPO = 'open-telemetry/opentelemetry-collector';
 const CONTRIB_REPO = 'open-telemetry/opentelemetry-collector-contrib';
 
+/** Bundled catalog snapshots, relative to the app's base href */
+const CATALOG_PATH = 'catalog';
+
 const DIR_CACHE_TTL = 24 * 60 * 60 * 1000;  // 24 hours
 const META_CACHE_TTL = 7 * 24 * 60 * 60 * 1000;  // 7 days
 
+interface StoredCatalogSettings {
+  version: string | null;
+  liveOverlay: boolean;
+}
+
+/**
+ * Catalog of known components. It comes from a snapshot bundled with the app
+ * (descriptions, signals, stability and default configs of one collector
+ * release), so it works offline. Optionally, live GitHub listings of the same
+ * release are laid over it to pick up components the snapshot lacks.
+ */
 @Injectable({ providedIn: 'root' })
 export class ComponentRegistryService {
+  private readonly STORAGE_KEY = 'otel-viewer-catalog';
+
+  private readonly stored = this.loadSettings();
   private readonly _catalog = signal<RegistryComponentEntry[]>([]);
   private readonly _loading = signal(false);
   private readonly _error = signal<string | null>(null);
+  private readonly _versions = signal<string[]>([]);
+  private readonly _version = signal<string | null>(this.stored.version);
+  private readonly _liveOverlay = signal(this.stored.liveOverlay);
   private readonly enrichingKeys = new Set<string>();
+  private loadId = 0;
 
   readonly catalog = this._catalog.asReadonly();
   readonly loading = this._loading.asReadonly();
   readonly error = this._error.asReadonly();
 
+  /** Collector versions with a bundled catalog, newest first */
+  readonly versions = this._versions.asReadonly();
+
+  /** Collector version the catalog describes (null until the bundled index is read) */
+  readonly version = this._version.asReadonly();
+
+  /** Whether live GitHub data is laid over the bundled snapshot */
+  readonly liveOverlay = this._liveOverlay.asReadonly();
+
   constructor() {
     this.loadCatalog();
   }
 
+  /** Switch the catalog to another bundled collector version */
+  setVersion(version: string): void {
+    if (version === this._version()) return;
+    this._version.set(version);
+    this.saveSettings();
+    this.loadCatalog();
+  }
+
+  setLiveOverlay(enabled: boolean): void {
+    this._liveOverlay.set(enabled);
+    this.saveSettings();
+    this.loadCatalog();
+  }
+
   /**
-   * Fetch directory listings from both repos and build catalog.
+   * Load the bundled snapshot of the selected version, then, if enabled, add
+   * what the GitHub directory listings of that release have on top.
    */
   private async loadCatalog(): Promise<void> {
+    // A newer load (e.g. after switching versions) supersedes this one
+    const loadId = ++this.loadId;
     this._loading.set(true);
     this._error.set(null);
+    const entries: RegistryComponentEntry[] = [];
 
     try {
+      const snapshot = await this.fetchSnapshot();
+      entries.push(...snapshot.components.map(component => ({ ...component, enriched: true })));
+    } catch {
+      this._error.set('Failed to load the bundled component catalog.');
+    }
+
+    if (this._liveOverlay()) {
+      const ref = this._version() ? `v${this._version()}` : 'main';
       const fetches = ALL_COMPONENT_TYPES.flatMap(type => [
-        this.fetchDirectoryListing(CORE_REPO, type, 'core'),
-        this.fetchDirectoryListing(CONTRIB_REPO, type, 'contrib'),
+        this.fetchDirectoryListing(CORE_REPO, type, 'core', ref),
+        this.fetchDirectoryListing(CONTRIB_REPO, type, 'contrib', ref),
       ]);
 
       const results = await Promise.allSettled(fetches);
-      const entries: RegistryComponentEntry[] = [];
-
       for (const result of results) {
         if (result.status === 'fulfilled') {
           entries.push(...result.value);
         }
       }
+    }
 
-      this.mergeCatalog(entries);
-    } catch {
-      this._error.set('Failed to fetch component catalog from GitHub.');
-    } finally {
-      this._loading.set(false);
+    if (loadId !== this.loadId) return;
+    this.mergeCatalog(entries);
+    this._loading.set(false);
+  }
+
+  /**
+   * Fetch the bundled snapshot of the selected version, falling back to the
+   * index's default when the selected version isn't bundled.
+   */
+  private async fetchSnapshot(): Promise<CatalogSnapshot> {
+    const index = await this.fetchJson<CatalogIndex>(`${CATALOG_PATH}/index.json`);
+    this._versions.set(index.versions);
+
+    const selected = this._version();
+    const version = selected && index.versions.includes(selected) ? selected : index.default;
+    if (selected !== version) this._version.set(version);
+    return this.fetchJson<CatalogSnapshot>(`${CATALOG_PATH}/${version}.json`);
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`${url}: HTTP ${response.status}`);
     }
+    return response.json();
   }
 
   /**
@@ -70,8 +149,9 @@ export class ComponentRegistryService {
     repo: string,
     componentType: ComponentType,
     source: 'core' | 'contrib',
+    ref: string,
   ): Promise<RegistryComponentEntry[]> {
-    const cacheKey = `otel-registry:dirs:${source}:${componentType}`;
+    const cacheKey = `otel-registry:dirs:${ref}:${source}:${componentType}`;
     const cached = this.getCached<string[]>(cacheKey, DIR_CACHE_TTL);
 
     let dirNames: string[];
@@ -79,7 +159,7 @@ export class ComponentRegistryService {
     if (cached) {
       dirNames = cached;
     } else {
-      const url = `https://api.github.com/repos/${repo}/contents/${componentType}`;
+      const url = `https://api.github.com/repos/${repo}/contents/${componentType}?ref=${ref}`;
       const response = await fetch(url);
 
       if (!response.ok) {
@@ -113,21 +193,18 @@ export class ComponentRegistryService {
   }
 
   /**
-   * Merge entries from both repos, deduplicating.
-   * Core entries take priority over contrib for the same component.
+   * Merge bundled and live entries, deduplicating. Bundled (enriched) entries
+   * win over live listings, and core entries over contrib for the same component.
    */
   private mergeCatalog(entries: RegistryComponentEntry[]): void {
     const seen = new Set<string>();
     const merged: RegistryComponentEntry[] = [];
 
-    // Core entries first so they win on duplicates
-    const coreFirst = [...entries].sort((a, b) => {
-      if (a.source === 'core' && b.source !== 'core') return -1;
-      if (a.source !== 'core' && b.source === 'core') return 1;
-      return 0;
-    });
+    // Enriched entries first, then core, so they win on duplicates
+    const rank = (entry: RegistryComponentEntry) => (entry.enriched ? 0 : 2) + (entry.source === 'core' ? 0 : 1);
+    const preferred = [...entries].sort((a, b) => rank(a) - rank(b));
 
-    for (const entry of coreFirst) {
+    for (const entry of preferred) {
       const key = this.entryKey(entry);
       if (!seen.has(key)) {
         seen.add(key);
@@ -146,6 +223,12 @@ export class ComponentRegistryService {
     this._catalog.set(merged);
   }
 
+  /** Catalog entry of a component type, matching `k8s_cluster` and `k8scluster` alike */
+  findEntry(componentType: ComponentType, type: string): RegistryComponentEntry | undefined {
+    const key = this.entryKey({ componentType, type });
+    return this._catalog().find(entry => this.entryKey(entry) === key);
+  }
+
   /**
    * Lazily fetch and parse metadata.yaml for a specific component.
    * Updates the catalog entry with real displayName, description, and signals.
@@ -156,13 +239,22 @@ export class ComponentRegistryService {
     this.enrichingKeys.add(key);
 
     try {
-      const metaCacheKey = `otel-registry:meta:${componentType}:${type}`;
-      const cached = this.getCached<{ displayName: string; description: string; supportedSignals: SignalType[] }>(
-        metaCacheKey, META_CACHE_TTL,
-      );
+      const ref = this._version() ? `v${this._version()}` : 'main';
+      const metaCacheKey = `otel-registry:meta:${ref}:${componentType}:${type}`;
+      const cached = this.getCached<{
+        displayName: string;
+        description: string;
+        supportedSignals: SignalType[];
+        connectorSignalPairs?: ConnectorSignalPair[];
+        stability?: Record<string, StabilityLevel>;
+      }>(metaCacheKey, META_CACHE_TTL);
 
       if (cached) {
-        this.applyEnrichment(componentType, type, cached.displayName, cached.description, cached.supportedSignals);
+        this.applyEnrichment(
+          componentType, type,
+          cached.displayName, cached.description, cached.supportedSignals, cached.connectorSignalPairs ?? [],
+          cached.stability ?? {},
+        );
         return;
       }
 
@@ -171,7 +263,7 @@ export class ComponentRegistryService {
 
       const repo = entry.source === 'core' ? CORE_REPO : CONTRIB_REPO;
       const dirName = this.guessDirectoryName(type, componentType);
-      const url = `https://raw.githubusercontent.com/${repo}/main/${componentType}/${dirName}/metadata.yaml`;
+      const url = `https://raw.githubusercontent.com/${repo}/${ref}/${componentType}/${dirName}/metadata.yaml`;
 
       const response = await fetch(url);
       if (!response.ok) return;
@@ -184,11 +276,14 @@ export class ComponentRegistryService {
         displayName: parsed.displayName,
         description: parsed.description,
         supportedSignals: parsed.supportedSignals,
+        connectorSignalPairs: parsed.connectorSignalPairs,
+        stability: parsed.stability,
       });
 
       this.applyEnrichment(
         componentType, type,
-        parsed.displayName, parsed.description, parsed.supportedSignals,
+        parsed.displayName, parsed.description, parsed.supportedSignals, parsed.connectorSignalPairs,
+        parsed.stability,
       );
     } finally {
       this.enrichingKeys.delete(key);
@@ -201,6 +296,8 @@ export class ComponentRegistryService {
     displayName: string,
     description: string,
     supportedSignals: SignalType[],
+    connectorSignalPairs: ConnectorSignalPair[],
+    stability: Record<string, StabilityLevel>,
   ): void {
     const updated = this._catalog().map(e => {
       if (e.componentType === componentType && e.type === type && !e.enriched) {
@@ -209,6 +306,8 @@ export class ComponentRegistryService {
           displayName: displayName || e.displayName,
           description: description || e.description,
           supportedSignals: supportedSignals.length > 0 ? supportedSignals : e.supportedSignals,
+          connectorSignalPairs: connectorSignalPairs.length > 0 ? connectorSignalPairs : e.connectorSignalPairs,
+          stability: Object.keys(stability).length > 0 ? stability : e.stability,
           enriched: true,
         };
       }
@@ -225,8 +324,9 @@ export class ComponentRegistryService {
     return `${type.replace(/_/g, '')}${componentType}`;
   }
 
+  /** Bundled entries use config types (`k8s_cluster`), live ones directory names (`k8scluster`) */
   private entryKey(entry: { componentType: ComponentType; type: string }): string {
-    return `${entry.componentType}:${entry.type}`;
+    return `${entry.componentType}:${canonicalComponentType(entry.type).replace(/_/g, '')}`;
   }
 
   // ─── Cache helpers ───────────────────────────────────────────
@@ -255,7 +355,29 @@ export class ComponentRegistryService {
     }
   }
 
-  /** Clear all registry caches and re-fetch from GitHub. */
+  private loadSettings(): StoredCatalogSettings {
+    const defaults: StoredCatalogSettings = { version: null, liveOverlay: false };
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.STORAGE_KEY) ?? '{}');
+      return {
+        version: typeof stored.version === 'string' ? stored.version : null,
+        liveOverlay: stored.liveOverlay === true,
+      };
+    } catch {
+      return defaults;
+    }
+  }
+
+  private saveSettings(): void {
+    const settings: StoredCatalogSettings = { version: this._version(), liveOverlay: this._liveOverlay() };
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+      // localStorage full or unavailable — silently ignore
+    }
+  }
+
+  /** Clear all registry caches and reload the catalog (re-fetching live data if enabled). */
   clearCacheAndRefresh(): void {
     try {
       const keysToRemove: string[] = [];
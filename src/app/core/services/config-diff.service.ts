@@ -0,0 +1,62 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { ConfigDiff, GraphData, OtelConfig } from '../models';
+import { buildDiffGraph, diffConfigs } from '../utils/config-diff';
+import { ConfigParserService } from './config-parser.service';
+import { ConfigStateService } from './config-state.service';
+
+interface DiffBaseline {
+  label: string;
+  config: OtelConfig;
+}
+
+/**
+ * Compares the current config ("after") against a baseline ("before") config
+ * and produces the change list and the graph overlay.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ConfigDiffService {
+  private readonly parser = inject(ConfigParserService);
+  private readonly state = inject(ConfigStateService);
+
+  private readonly _baseline = signal<DiffBaseline | null>(null);
+
+  /** Whether a baseline is loaded and the diff is shown */
+  readonly active = computed(() => this._baseline() !== null);
+
+  /** Display name of the baseline (file name, "pasted YAML", ...) */
+  readonly baselineLabel = computed(() => this._baseline()?.label ?? '');
+
+  readonly diff = computed<ConfigDiff>(() => {
+    const baseline = this._baseline();
+    return baseline ? diffConfigs(baseline.config, this.state.config()) : { components: [], pipelines: [] };
+  });
+
+  readonly changeCount = computed(() => this.diff().components.length + this.diff().pipelines.length);
+
+  /** The current graph with removed elements added back and every element marked by its change */
+  readonly graph = computed<GraphData>(() => {
+    const baseline = this._baseline();
+    if (!baseline) return this.state.graphData();
+    return buildDiffGraph(this.parser.configToGraph(baseline.config), this.state.graphData(), this.diff());
+  });
+
+  /**
+   * Compare the current config against `yaml`.
+   *
+   * @throws if `yaml` can't be parsed
+   */
+  setBaseline(yaml: string, label: string): void {
+    this._baseline.set({ label, config: this.parser.parseYaml(yaml) });
+  }
+
+  /** Compare against the config as it is right now, to review upcoming edits */
+  snapshotCurrent(): void {
+    this._baseline.set({ label: 'snapshot', config: this.state.config() });
+  }
+
+  clear(): void {
+    this._baseline.set(null);
+  }
+}
@@ -0,0 +1,147 @@
+import { TestBed } from '@angular/core/testing';
+import { ConfigParserService } from './config-parser.service';
+import { ConfigLintService } from './config-lint.service';
+import { ConfigSerializerService } from './config-serializer.service';
+
+describe('ConfigLintService', () => {
+  let parser: ConfigParserService;
+  let linter: ConfigLintService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    parser = TestBed.inject(ConfigParserService);
+    linter = TestBed.inject(ConfigLintService);
+  });
+
+  const pipelineYaml = (processors: string) => `
+receivers:
+  otlp:
+processors:
+  batch:
+  memory_limiter:
+  filter:
+exporters:
+  debug:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      processors: [${processors}]
+      exporters: [debug]
+`;
+
+  const ruleIds = (yaml: string) => linter.lint(parser.parseYaml(yaml)).map(issue => issue.ruleId);
+
+  it('should not report a well-ordered pipeline', () => {
+    expect(ruleIds(pipelineYaml('memory_limiter, filter, batch'))).toEqual([]);
+  });
+
+  it('should report memory_limiter that is not first and move it to the front', () => {
+    const config = parser.parseYaml(pipelineYaml('filter, memory_limiter, batch'));
+    const [issue] = linter.lint(config);
+
+    expect(issue.ruleId).toBe('memory-limiter-first');
+    expect(issue.severity).toBe('warning');
+    expect(issue.autoFixable).toBe(true);
+    expect(linter.fix(config, issue)!.service.pipelines[0].processors).toEqual(['memory_limiter', 'filter', 'batch']);
+  });
+
+  it('should report batch before a filter and move it after the last filter', () => {
+    const config = parser.parseYaml(pipelineYaml('memory_limiter, batch, filter'));
+    const [issue] = linter.lint(config);
+
+    expect(issue.ruleId).toBe('batch-after-filters');
+    expect(linter.fix(config, issue)!.service.pipelines[0].processors).toEqual(['memory_limiter', 'filter', 'batch']);
+  });
+
+  it('should report a pipeline without batch and add one', () => {
+    const config = parser.parseYaml(`
+receivers:
+  otlp:
+exporters:
+  debug:
+service:
+  pipelines:
+    logs:
+      receivers: [otlp]
+      exporters: [debug]
+`);
+    const [issue] = linter.lint(config);
+    const fixed = linter.fix(config, issue)!;
+
+    expect(issue.ruleId).toBe('pipeline-has-batch');
+    expect(fixed.processors.map(p => p.id)).toEqual(['batch']);
+    expect(fixed.service.pipelines[0].processors).toEqual(['batch']);
+  });
+
+  it('should suggest sending_queue and retry_on_failure for network exporters only', () => {
+    const config = parser.parseYaml(`
+receivers:
+  otlp:
+processors:
+  batch:
+exporters:
+  debug:
+  otlp/backend:
+    endpoint: backend:4317
+    retry_on_failure:
+      enabled: true
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      processors: [batch]
+      exporters: [debug, otlp/backend]
+`);
+    const issues = linter.lint(config);
+
+    expect(issues.map(i => [i.ruleId, i.componentId, i.severity])).toEqual([
+      ['exporter-sending-queue', 'otlp/backend', 'info'],
+    ]);
+    expect(linter.fix(config, issues[0])!.exporters[1].config).toEqual({
+      endpoint: 'backend:4317',
+      retry_on_failure: { enabled: true },
+      sending_queue: { enabled: true },
+    });
+  });
+
+  it('should report a debug exporter at detailed verbosity with its line', () => {
+    const yaml = `exporters:
+  debug:
+    verbosity: detailed
+`;
+    const config = parser.parseYaml(yaml);
+    const [issue] = linter.lint(config, { rawYaml: yaml });
+
+    expect(issue.ruleId).toBe('debug-detailed-verbosity');
+    expect(issue.line).toBe(3);
+    expect(linter.fix(config, issue)!.exporters[0].config).toEqual({ verbosity: 'basic' });
+  });
+
+  it('should skip disabled rules and remember them', () => {
+    linter.setRuleEnabled('memory-limiter-first', false);
+
+    expect(ruleIds(pipelineYaml('filter, memory_limiter, batch'))).toEqual([]);
+    expect(JSON.parse(localStorage.getItem('otel-viewer-disabled-lint-rules')!)).toEqual(['memory-limiter-first']);
+
+    linter.setRuleEnabled('memory-limiter-first', true);
+    expect(ruleIds(pipelineYaml('filter, memory_limiter, batch'))).toEqual(['memory-limiter-first']);
+  });
+
+  it('should keep comments when a fix is patched into the YAML', () => {
+    const yaml = `exporters:
+  # local output while testing
+  debug:
+    verbosity: detailed # too noisy
+    sampling_initial: 5
+`;
+    const config = parser.parseYaml(yaml);
+    const [issue] = linter.lint(config);
+    const fixed = linter.fix(config, issue)!;
+    const patched = TestBed.inject(ConfigSerializerService).patchYaml(yaml, fixed, fixed.exporters);
+
+    expect(patched).toContain('# local output while testing');
+    expect(patched).toContain('verbosity: basic');
+    expect(patched).toContain('sampling_initial: 5');
+  });
+});
@@ -0,0 +1,88 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { OtelConfig, ValidationContext, ValidationIssue } from '../models';
+import { LINT_RULES, findLintRule } from '../utils/lint-rules';
+import { YamlLocator } from '../utils/yaml-locator';
+
+/**
+ * Runs best-practice lint rules over a config. Unlike ConfigValidatorService,
+ * which reports configs the collector would reject, lint findings are advice:
+ * they are only ever `info` or `warning`, can be switched off per rule, and
+ * most come with an automatic fix.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ConfigLintService {
+  private readonly STORAGE_KEY = 'otel-viewer-disabled-lint-rules';
+  private readonly _disabledRules = signal<ReadonlySet<string>>(this.loadDisabledRulesFromStorage());
+
+  /** All available rules */
+  readonly rules = LINT_RULES;
+
+  /** IDs of the rules that are currently switched off */
+  readonly disabledRules = this._disabledRules.asReadonly();
+
+  /** Rules that are currently switched on */
+  readonly enabledRules = computed(() => this.rules.filter(rule => !this._disabledRules().has(rule.id)));
+
+  isEnabled(ruleId: string): boolean {
+    return !this._disabledRules().has(ruleId);
+  }
+
+  setRuleEnabled(ruleId: string, enabled: boolean): void {
+    const disabled = new Set(this._disabledRules());
+    if (enabled) {
+      disabled.delete(ruleId);
+    } else {
+      disabled.add(ruleId);
+    }
+    this._disabledRules.set(disabled);
+    this.saveDisabledRulesToStorage(disabled);
+  }
+
+  /**
+   * Run every enabled rule and return its findings as validation issues.
+   */
+  lint(config: OtelConfig, context: ValidationContext = {}): ValidationIssue[] {
+    const locator = context.rawYaml ? new YamlLocator(context.rawYaml) : undefined;
+
+    return this.enabledRules().flatMap(rule =>
+      rule.check(config).map(finding => ({
+        severity: rule.severity,
+        message: finding.message,
+        pipelineId: finding.pipelineId,
+        componentId: finding.componentId,
+        autoFixable: !!rule.fix,
+        ruleId: rule.id,
+        line: locator?.lineOf(finding.path),
+      })),
+    );
+  }
+
+  /**
+   * Apply the fix for a lint issue. Returns null if the issue doesn't come
+   * from a rule with a fix.
+   */
+  fix(config: OtelConfig, issue: ValidationIssue): OtelConfig | null {
+    const rule = issue.ruleId ? findLintRule(issue.ruleId) : undefined;
+    return rule?.fix ? rule.fix(config, issue) : null;
+  }
+
+  private loadDisabledRulesFromStorage(): ReadonlySet<string> {
+    if (typeof window === 'undefined' || !window.localStorage) {
+      return new Set();
+    }
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.STORAGE_KEY) ?? '[]');
+      return new Set(Array.isArray(stored) ? stored.filter(id => typeof id === 'string') : []);
+    } catch {
+      return new Set();
+    }
+  }
+
+  private saveDisabledRulesToStorage(disabled: ReadonlySet<string>): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify([...disabled]));
+    }
+  }
+}
@@ -166,5 +166,128 @@ service:
       expect(graph.edges[0].source).toBe('receiver/otlp');
       expect(graph.edges[0].target).toBe('exporter/debug');
     });
+
+    it('should draw each pipeline as an ordered processor chain', () => {
+      const yaml = `
+receivers:
+  otlp:
+  filelog:
+processors:
+  memory_limiter:
+  batch:
+exporters:
+  debug:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      processors: [memory_limiter, batch]
+      exporters: [debug]
+    logs:
+      receivers: [otlp, filelog]
+      processors: [batch]
+      exporters: [debug]
+`;
+
+      const config = service.parseYaml(yaml);
+      const graph = service.configToGraph(config);
+
+      expect(graph.edges.filter(e => e.pipelineId === 'traces').map(e => [e.source, e.target])).toEqual([
+        ['receiver/otlp', 'processor/memory_limiter@traces'],
+        ['processor/memory_limiter@traces', 'processor/batch@traces'],
+        ['processor/batch@traces', 'exporter/debug'],
+      ]);
+      expect(graph.edges.filter(e => e.pipelineId === 'logs').length).toBe(3);
+    });
+
+    it('should draw shared processors once per pipeline', () => {
+      const yaml = `
+receivers:
+  otlp:
+processors:
+  batch:
+  unused:
+exporters:
+  debug:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      processors: [batch]
+      exporters: [debug]
+    metrics:
+      receivers: [otlp]
+      processors: [batch]
+      exporters: [debug]
+`;
+
+      const config = service.parseYaml(yaml);
+      const processors = service.configToGraph(config).nodes.filter(n => n.componentType === 'processor');
+
+      expect(processors.map(n => [n.id, n.pipelineId, n.chainIndex])).toEqual([
+        ['processor/batch@traces', 'traces', 0],
+        ['processor/batch@metrics', 'metrics', 0],
+        ['processor/unused', undefined, undefined],
+      ]);
+    });
+
+    it('should draw each occurrence of a processor listed twice in a chain', () => {
+      const yaml = `
+receivers:
+  otlp:
+processors:
+  batch:
+  filter:
+exporters:
+  debug:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      processors: [batch, undefined, filter, batch]
+      exporters: [debug]
+`;
+
+      const graph = service.configToGraph(service.parseYaml(yaml));
+
+      expect(graph.nodes.filter(n => n.componentType === 'processor').map(n => [n.id, n.chainIndex])).toEqual([
+        ['processor/batch@traces', 0],
+        ['processor/filter@traces', 2],
+        ['processor/batch@traces[1]', 3],
+      ]);
+      expect(graph.edges.map(e => [e.source, e.target])).toEqual([
+        ['receiver/otlp', 'processor/batch@traces'],
+        ['processor/batch@traces', 'processor/filter@traces'],
+        ['processor/filter@traces', 'processor/batch@traces[1]'],
+        ['processor/batch@traces[1]', 'exporter/debug'],
+      ]);
+    });
+
+    it('should route connector edges from the exporter side to the receiver side', () => {
+      const yaml = `
+receivers:
+  otlp:
+exporters:
+  debug:
+connectors:
+  spanmetrics:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      exporters: [spanmetrics]
+    metrics:
+      receivers: [spanmetrics]
+      exporters: [debug]
+`;
+
+      const config = service.parseYaml(yaml);
+      const graph = service.configToGraph(config);
+
+      expect(graph.edges.map(e => [e.source, e.target])).toEqual([
+        ['receiver/otlp', 'connector/spanmetrics'],
+        ['connector/spanmetrics', 'exporter/debug'],
+      ]);
+    });
   });
 });
@@ -11,6 +11,7 @@ import {
   createEmptyConfig,
   parseComponentId,
   parsePipelineId,
+  processorNodeId,
   COMPONENT_TYPE_TO_SECTION,
   PIPELINE_ROLES,
 } from '../models';
@@ -45,69 +46,108 @@ export class ConfigParserService {
     const edges: GraphEdge[] = [];
     const nodeMap = new Map<string, GraphNode>();
 
-    // Create nodes for all components referenced in pipelines
-    const allComponents = [
+    const addNode = (node: GraphNode) => {
+      nodes.push(node);
+      nodeMap.set(node.id, node);
+    };
+    const componentNode = (component: OtelComponent): GraphNode => ({
+      id: `${component.componentType}/${component.id}`,
+      label: component.id,
+      componentType: component.componentType,
+      component,
+    });
+
+    // Processors are drawn once per pipeline so each chain keeps its own order;
+    // everything else is a single shared node.
+    const processorsInPipelines = new Set(config.service.pipelines.flatMap(p => p.processors));
+    const nonProcessorComponents = [
       ...config.receivers,
-      ...config.processors,
       ...config.exporters,
       ...config.connectors,
       ...config.extensions,
     ];
 
-    for (const component of allComponents) {
-      const nodeId = `${component.componentType}/${component.id}`;
-      const node: GraphNode = {
-        id: nodeId,
-        label: component.id,
-        componentType: component.componentType,
-        component,
-      };
-      nodes.push(node);
-      nodeMap.set(nodeId, node);
+    for (const component of nonProcessorComponents) {
+      addNode(componentNode(component));
     }
 
-    // Create edges from pipeline definitions
+    // Node IDs of a pipeline's processor chain; a processor listed twice runs
+    // twice, so each occurrence is its own node
+    const processorsById = new Map(config.processors.map(p => [p.id, p]));
+    const chainOf = (pipeline: OtelPipeline) => {
+      const seen = new Map<string, number>();
+      return pipeline.processors.map((processorId, chainIndex) => {
+        const occurrence = seen.get(processorId) ?? 0;
+        seen.set(processorId, occurrence + 1);
+        return { processorId, chainIndex, id: processorNodeId(pipeline.id, processorId, occurrence) };
+      }).filter(step => processorsById.has(step.processorId));
+    };
+
     for (const pipeline of config.service.pipelines) {
-      if (pipeline.processors.length > 0) {
-        // Every receiver → every processor
-        for (const receiverId of pipeline.receivers) {
-          for (const processorId of pipeline.processors) {
-            const edgeId = `${pipeline.id}:receiver/${receiverId}->processor/${processorId}`;
-            edges.push({
-              id: edgeId,
-              source: `receiver/${receiverId}`,
-              target: `processor/${processorId}`,
-              pipelineId: pipeline.id,
-              signal: pipeline.signal,
-            });
-          }
+      for (const { processorId, chainIndex, id } of chainOf(pipeline)) {
+        addNode({
+          ...componentNode(processorsById.get(processorId)!),
+          id,
+          pipelineId: pipeline.id,
+          chainIndex,
+        });
+      }
+    }
+
+    // Processors not used by any pipeline still get a standalone node
+    for (const component of config.processors) {
+      if (!processorsInPipelines.has(component.id)) {
+        addNode(componentNode(component));
+      }
+    }
+
+    // Create edges from pipeline definitions as an ordered chain:
+    // receivers → p1 → p2 → … → exporters. Connectors appear as the exporter
+    // of one pipeline and the receiver of another, so the cross-pipeline edge
+    // runs exporter-side → connector → receiver-side.
+    const connectorIds = new Set(config.connectors.map(c => c.id));
+    const receiverIds = new Set(config.receivers.map(r => r.id));
+    const exporterIds = new Set(config.exporters.map(e => e.id));
+    const receiverNodeId = (id: string) =>
+      connectorIds.has(id) && !receiverIds.has(id) ? `connector/${id}` : `receiver/${id}`;
+    const exporterNodeId = (id: string) =>
+      connectorIds.has(id) && !exporterIds.has(id) ? `connector/${id}` : `exporter/${id}`;
+
+    for (const pipeline of config.service.pipelines) {
+      const addEdge = (source: string, target: string) => {
+        edges.push({
+          id: `${pipeline.id}:${source}->${target}`,
+          source,
+          target,
+          pipelineId: pipeline.id,
+          signal: pipeline.signal,
+        });
+      };
+
+      const chain = chainOf(pipeline).map(step => step.id);
+      const sources = pipeline.receivers.map(receiverNodeId);
+      const targets = pipeline.exporters.map(exporterNodeId);
+
+      if (chain.length > 0) {
+        // Every receiver → first processor
+        for (const source of sources) {
+          addEdge(source, chain[0]);
         }
 
-        // Every processor → every exporter
-        for (const processorId of pipeline.processors) {
-          for (const exporterId of pipeline.exporters) {
-            const edgeId = `${pipeline.id}:processor/${processorId}->exporter/${exporterId}`;
-            edges.push({
-              id: edgeId,
-              source: `processor/${processorId}`,
-              target: `exporter/${exporterId}`,
-              pipelineId: pipeline.id,
-              signal: pipeline.signal,
-            });
-          }
+        // Each processor → the next one in order
+        for (let i = 0; i < chain.length - 1; i++) {
+          addEdge(chain[i], chain[i + 1]);
+        }
+
+        // Last processor → every exporter
+        for (const target of targets) {
+          addEdge(chain[chain.length - 1], target);
         }
       } else {
         // No processors: every receiver → every exporter
-        for (const receiverId of pipeline.receivers) {
-          for (const exporterId of pipeline.exporters) {
-            const edgeId = `${pipeline.id}:receiver/${receiverId}->exporter/${exporterId}`;
-            edges.push({
-              id: edgeId,
-              source: `receiver/${receiverId}`,
-              target: `exporter/${exporterId}`,
-              pipelineId: pipeline.id,
-              signal: pipeline.signal,
-            });
+        for (const source of sources) {
+          for (const target of targets) {
+            addEdge(source, target);
           }
         }
       }
@@ -1,6 +1,6 @@
 import { Injectable } from '@angular/core';
 import * as yaml from 'js-yaml';
-import { isMap, isSeq, parseDocument, YAMLSeq } from 'yaml';
+import { isMap, isNode, isScalar, isSeq, parseDocument, YAMLSeq } from 'yaml';
 import { OtelConfig, OtelComponent, OtelPipeline, ALL_SECTION_KEYS, PIPELINE_ROLES, SectionKey } from '../models';
 
 @Injectable({
@@ -35,17 +35,20 @@ export class ConfigSerializerService {
   /**
    * Patch an existing YAML string with changes from an OtelConfig model.
    * Preserves comments and formatting by modifying the YAML document tree
-   * rather than rebuilding from scratch.
+   * rather than rebuilding from scratch. Only the settings of the `edited`
+   * components are synced; other components are added or removed but left
+   * as written, so anchors, aliases and merge keys survive unrelated edits.
    */
-  patchYaml(existingYaml: string, config: OtelConfig): string {
+  patchYaml(existingYaml: string, config: OtelConfig, edited: OtelComponent[] = []): string {
     if (!existingYaml.trim()) {
       return this.serializeToYaml(config);
     }
 
-    const doc = parseDocument(existingYaml);
+    // Resolve merge keys like the parser does, so unchanged values compare equal
+    const doc = parseDocument(existingYaml, { merge: true });
 
     for (const section of ALL_SECTION_KEYS) {
-      this.patchSection(doc, section, config[section]);
+      this.patchSection(doc, section, config[section], edited);
     }
     this.patchServiceNode(doc, config);
 
@@ -99,7 +102,7 @@ export class ConfigSerializerService {
     }
   }
 
-  private patchSection(doc: any, sectionName: SectionKey, components: OtelComponent[]): void {
+  private patchSection(doc: any, sectionName: SectionKey, components: OtelComponent[], edited: OtelComponent[]): void {
     const sectionNode = doc.get(sectionName, true);
 
     if (components.length === 0) {
@@ -133,16 +136,68 @@ export class ConfigSerializerService {
       }
     }
 
-    // Add new components that don't exist yet
+    // Add new components that don't exist yet, update the config of existing ones
     const existingIdSet = new Set(existingKeys);
     for (const comp of components) {
+      const value = Object.keys(comp.config).length > 0 ? comp.config : null;
       if (!existingIdSet.has(comp.id)) {
-        const value = Object.keys(comp.config).length > 0 ? comp.config : null;
         sectionNode.set(doc.createNode(comp.id), doc.createNode(value));
+      } else if (edited.some(e => e.componentType === comp.componentType && e.id === comp.id)) {
+        this.syncValue(doc, sectionNode, comp.id, value);
       }
     }
   }
 
+  /**
+   * Make `mapNode[key]` match `value`, recursing into maps so only the keys that
+   * actually changed are rewritten and comments on untouched keys survive.
+   * Aliases and merge keys are compared by their resolved value and kept
+   * unless what they stand for changed; a merged key that changed is
+   * overridden next to the `<<` entry.
+   */
+  private syncValue(doc: any, mapNode: any, key: string, value: unknown): void {
+    const current = mapNode.get(key, true);
+    const currentValue = isNode(current) ? current.toJS(doc) : current;
+    if (this.sameValue(currentValue, value)) {
+      return;
+    }
+
+    if (isMap(current) && this.isPlainObject(value)) {
+      const explicitKeys = new Set<string>();
+      for (const pair of [...current.items]) {
+        if (this.isMergeKey(pair.key)) continue;
+        const childKey = String(isScalar(pair.key) ? pair.key.value : pair.key);
+        explicitKeys.add(childKey);
+        if (!(childKey in value)) {
+          current.delete(pair.key);
+        }
+      }
+      for (const [childKey, childValue] of Object.entries(value)) {
+        if (explicitKeys.has(childKey)) {
+          this.syncValue(doc, current, childKey, childValue);
+        } else if (!this.sameValue((currentValue as Record<string, unknown>)[childKey], childValue)) {
+          current.set(doc.createNode(childKey), doc.createNode(childValue));
+        }
+      }
+      return;
+    }
+
+    mapNode.set(key, doc.createNode(value));
+  }
+
+  private sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  }
+
+  /** `<<` of a merge, parsed with `merge: true` */
+  private isMergeKey(key: unknown): boolean {
+    return isScalar(key) && (typeof key.value === 'symbol' || key.value === '<<');
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
   private patchServiceNode(doc: any, config: OtelConfig): void {
     const serviceNode = doc.get('service', true);
 
@@ -162,6 +217,13 @@ export class ConfigSerializerService {
 
     // Patch pipelines
     this.patchPipelinesNode(doc, serviceNode, config.service.pipelines);
+
+    // Patch the collector's own telemetry
+    if (config.service.telemetry) {
+      this.syncValue(doc, serviceNode, 'telemetry', config.service.telemetry);
+    } else if (isMap(serviceNode.get('telemetry', true))) {
+      serviceNode.delete('telemetry');
+    }
   }
 
   private patchPipelinesNode(doc: any, serviceNode: any, pipelines: OtelPipeline[]): void {
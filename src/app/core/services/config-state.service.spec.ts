@@ -0,0 +1,189 @@
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ConfigStateService } from './config-state.service';
+import { ComponentRegistryService } from './component-registry.service';
+
+describe('ConfigStateService', () => {
+  let state: ConfigStateService;
+
+  const yaml = `receivers:
+  otlp:
+    protocols:
+      grpc:
+exporters:
+  debug:
+  otlp/backend:
+    endpoint: backend:4317
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      exporters: [debug, otlp/backend]
+`;
+
+  const exporterIds = () => state.config().exporters.map(e => e.id);
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [{ provide: ComponentRegistryService, useValue: { catalog: signal([]), findEntry: () => undefined } }],
+    });
+    state = TestBed.inject(ConfigStateService);
+    state.loadYaml(yaml);
+  });
+
+  describe('updateComponentConfig', () => {
+    it('should patch the component settings and keep comments', () => {
+      state.loadYaml(yaml.replace('    endpoint: backend:4317', '    # production backend\n    endpoint: backend:4317'));
+      const backend = state.config().exporters[1];
+      state.selectNode(backend);
+
+      state.updateComponentConfig(backend, { endpoint: 'backend:4318', compression: 'gzip' }, 'Set otlp/backend endpoint');
+
+      expect(state.rawYaml()).toContain('otlp/backend:\n    # production backend\n    endpoint: backend:4318\n    compression: gzip');
+      expect(state.config().exporters[1].config).toEqual({ endpoint: 'backend:4318', compression: 'gzip' });
+      expect(state.selectedNode()?.component.config['endpoint']).toBe('backend:4318');
+      expect(state.undoLabel()).toBe('Set otlp/backend endpoint');
+    });
+
+    it('should keep anchors, aliases and merge keys', () => {
+      const anchored = `receivers:
+  otlp: &otlp
+    protocols:
+      grpc:
+  otlp/2:
+    <<: *otlp
+    include_metadata: true
+exporters:
+  debug:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp, otlp/2]
+      exporters: [debug]
+    logs:
+      receivers: [otlp]
+      exporters: [debug]
+`;
+      state.loadYaml(anchored);
+
+      state.removePipeline('logs');
+      expect(state.rawYaml()).toContain('  otlp/2:\n    <<: *otlp\n    include_metadata: true\n');
+
+      const second = state.config().receivers[1];
+      state.updateComponentConfig(second, { ...second.config, include_metadata: false });
+      expect(state.rawYaml()).toContain('  otlp/2:\n    <<: *otlp\n    include_metadata: false\n');
+      expect(state.config().receivers[1].config).toEqual({ protocols: { grpc: null }, include_metadata: false });
+    });
+  });
+
+  describe('moveProcessor', () => {
+    it('should reorder a pipeline processor chain', () => {
+      state.loadYaml(yaml.replace('exporters:\n  debug:', 'processors:\n  batch:\n  memory_limiter:\n  filter:\nexporters:\n  debug:')
+        .replace('receivers: [otlp]\n', 'receivers: [otlp]\n      processors: [batch, memory_limiter, filter]\n'));
+
+      state.moveProcessor('traces', 1, 0);
+      expect(state.config().service.pipelines[0].processors).toEqual(['memory_limiter', 'batch', 'filter']);
+
+      state.moveProcessor('traces', 0, 5);
+      expect(state.config().service.pipelines[0].processors).toEqual(['batch', 'filter', 'memory_limiter']);
+      expect(state.undoLabel()).toBe('Moved memory_limiter in pipeline traces');
+    });
+
+    it('should move the given occurrence of a processor listed twice', () => {
+      state.loadYaml(yaml.replace('exporters:\n  debug:', 'processors:\n  batch:\n  filter:\nexporters:\n  debug:')
+        .replace('receivers: [otlp]\n', 'receivers: [otlp]\n      processors: [batch, filter, batch]\n'));
+
+      state.moveProcessor('traces', 2, 1);
+      expect(state.config().service.pipelines[0].processors).toEqual(['batch', 'batch', 'filter']);
+    });
+  });
+
+  describe('history', () => {
+    it('should record labeled entries and undo/redo them', () => {
+      const backend = state.config().exporters[1];
+      state.removeComponent(backend);
+
+      expect(state.history().map(e => e.label)).toEqual(['Removed exporter otlp/backend']);
+      expect(exporterIds()).toEqual(['debug']);
+
+      state.undo();
+      expect(exporterIds()).toEqual(['debug', 'otlp/backend']);
+      expect(state.config().service.pipelines[0].exporters).toEqual(['debug', 'otlp/backend']);
+      expect(state.rawYaml()).toBe(yaml);
+      expect(state.redoLabel()).toBe('Removed exporter otlp/backend');
+
+      state.redo();
+      expect(exporterIds()).toEqual(['debug']);
+      expect(state.canRedo()).toBe(false);
+    });
+
+    it('should jump to any point and drop the redo stack on a new edit', () => {
+      state.removePipeline('traces');
+      state.addPipeline('logs');
+      state.addComponentToPipeline('logs', 'debug', 'exporters');
+
+      state.jumpToHistory(1);
+      expect(state.config().service.pipelines).toEqual([]);
+      expect(state.historyIndex()).toBe(1);
+
+      state.addPipeline('metrics');
+      expect(state.history().map(e => e.label)).toEqual(['Removed pipeline traces', 'Added pipeline metrics']);
+      expect(state.canRedo()).toBe(false);
+    });
+
+    it('should undo a transaction as one entry', () => {
+      state.transaction(() => {
+        state.addPipeline('logs');
+        state.addComponentToPipeline('logs', 'otlp', 'receivers');
+        state.addComponentToPipeline('logs', 'debug', 'exporters');
+        return 'Added pipeline logs with otlp → debug';
+      });
+
+      expect(state.history().map(e => e.label)).toEqual(['Added pipeline logs with otlp → debug']);
+
+      state.undo();
+      expect(state.config().service.pipelines.map(p => p.id)).toEqual(['traces']);
+    });
+
+    it('should merge consecutive YAML edits and ignore edits that change nothing', () => {
+      state.updateYaml(yaml + '# one\n');
+      state.updateYaml(yaml + '# one two\n');
+      state.updateYaml(yaml + '# one two\n');
+
+      expect(state.history().map(e => e.label)).toEqual(['Edited YAML']);
+
+      state.undo();
+      expect(state.rawYaml()).toBe(yaml);
+    });
+
+    it('should start a fresh history when a config is loaded', () => {
+      state.removePipeline('traces');
+      state.loadYaml(yaml);
+
+      expect(state.history()).toEqual([]);
+      expect(state.canUndo()).toBe(false);
+    });
+  });
+
+  describe('loadFiles', () => {
+    const files = [
+      { name: 'base.yaml', content: yaml },
+      { name: 'prod.yaml', content: 'exporters:\n  otlp/backend:\n    endpoint: prod:4317\n' },
+    ];
+
+    it('should restore edits made to the merged result', () => {
+      state.loadFiles(files);
+      const merged = state.rawYaml();
+      expect(state.mergedEdited()).toBe(false);
+
+      state.loadFiles(files, 'tab', merged);
+      expect(state.mergedEdited()).toBe(false);
+
+      const edited = merged.replace('prod:4317', 'prod:4318');
+      state.loadFiles(files, 'tab', edited);
+      expect(state.rawYaml()).toBe(edited);
+      expect(state.config().exporters[1].config['endpoint']).toBe('prod:4318');
+      expect(state.mergedEdited()).toBe(true);
+    });
+  });
+});
@@ -1,8 +1,12 @@
 import { Injectable, signal, computed, inject } from '@angular/core';
-import { OtelConfig, GraphData, createEmptyConfig, ParseError, ValidationIssue, NodeSelection, OtelComponent, OtelPipeline, ComponentType, SignalType, parseComponentId, parsePipelineId, ComponentDefinition, SectionKey, PipelineRole, COMPONENT_TYPE_TO_SECTION } from '../models';
+import { ConfigFile, ConfigProvenance, ConfigWrapper, ConfigSnapshot, HistoryEntry, OtelConfig, GraphData, createEmptyConfig, ParseError, ValidationIssue, NodeSelection, OtelComponent, OtelPipeline, ComponentType, SignalType, parseComponentId, parsePipelineId, ComponentDefinition, SectionKey, PipelineRole, COMPONENT_TYPE_TO_SECTION, OtelServiceTelemetry, ALL_SECTION_KEYS } from '../models';
 import { ConfigParserService } from './config-parser.service';
 import { ConfigSerializerService } from './config-serializer.service';
 import { ConfigValidatorService } from './config-validator.service';
+import { ConfigLintService } from './config-lint.service';
+import { DistributionService } from './distribution.service';
+import { createEmptyProvenance, mergeConfigFiles } from '../utils/config-merge';
+import { unwrapConfig, wrapConfig } from '../utils/config-wrapper';
 
 @Injectable({
   providedIn: 'root',
@@ -13,10 +17,25 @@ export class ConfigStateService {
   private readonly _errors = signal<ParseError[]>([]);
   private readonly _validationIssues = signal<ValidationIssue[]>([]);
   private readonly _selectedNode = signal<NodeSelection | null>(null);
+  private readonly _files = signal<ConfigFile[]>([]);
+  private readonly _activeFileIndex = signal<number | null>(null);
+  private readonly _provenance = signal<ConfigProvenance>(createEmptyProvenance());
+  private readonly _mergedEdited = signal(false);
+  private readonly _history = signal<HistoryEntry[]>([]);
+  private readonly _historyIndex = signal(0);
+  private readonly _configKey = signal('');
+  private readonly _wrapper = signal<ConfigWrapper | null>(null);
+  private readonly _production = signal(false);
+
+  private readonly MAX_HISTORY = 100;
+  private nextHistoryId = 1;
+  private inTransaction = false;
 
   private readonly parser = inject(ConfigParserService);
   private readonly serializer = inject(ConfigSerializerService);
   private readonly validator = inject(ConfigValidatorService);
+  private readonly linter = inject(ConfigLintService);
+  private readonly distributions = inject(DistributionService);
   /** Current parsed config */
   readonly config = this._config.asReadonly();
 
@@ -26,12 +45,85 @@ export class ConfigStateService {
   /** Any parsing or validation errors */
   readonly errors = this._errors.asReadonly();
 
-  /** Validation issues found in the current config */
-  readonly validationIssues = this._validationIssues.asReadonly();
+  /** Best-practice lint findings for the current config (re-run when rules are toggled) */
+  readonly lintIssues = computed<ValidationIssue[]>(() =>
+    this.linter.lint(this._config(), { rawYaml: this._rawYaml() }),
+  );
+
+  /** Components the target distribution doesn't include (re-run when the target changes) */
+  readonly distributionIssues = computed<ValidationIssue[]>(() =>
+    this.validator.checkDistribution(this._config(), this.distributions.target(), { rawYaml: this._rawYaml() }),
+  );
+
+  /** Components used in pipelines whose signal they don't support (re-run when the catalog loads) */
+  readonly signalMismatches = computed(() => this.validator.findSignalMismatches(this._config()));
+
+  readonly signalIssues = computed<ValidationIssue[]>(() =>
+    this.validator.checkSignalSupport(this._config(), { rawYaml: this._rawYaml() }),
+  );
+
+  /** Whether the config is tagged as a production config */
+  readonly production = this._production.asReadonly();
+
+  /** Deprecated components, and early-stability ones in a production config (re-run when the catalog loads) */
+  readonly stabilityIssues = computed<ValidationIssue[]>(() =>
+    this.validator.checkStability(this._config(), { rawYaml: this._rawYaml(), production: this._production() }),
+  );
+
+  /** Validation issues found in the current config, followed by lint findings */
+  readonly validationIssues = computed<ValidationIssue[]>(() => [
+    ...this._validationIssues(),
+    ...this.distributionIssues(),
+    ...this.signalIssues(),
+    ...this.stabilityIssues(),
+    ...this.lintIssues(),
+  ]);
 
   /** Currently selected node in the graph */
   readonly selectedNode = this._selectedNode.asReadonly();
 
+  /** Source files of a layered config, in merge order (empty for a single YAML) */
+  readonly files = this._files.asReadonly();
+
+  /** Index of the source file open in the editor, or null when editing the merged result */
+  readonly activeFileIndex = this._activeFileIndex.asReadonly();
+
+  /** Which source files contributed each component and pipeline */
+  readonly provenance = this._provenance.asReadonly();
+
+  /** Whether the merged result has edits that aren't in any source file */
+  readonly mergedEdited = this._mergedEdited.asReadonly();
+
+  /** YAML shown in the editor: the active source file, or the (merged) config */
+  readonly editorYaml = computed<string>(() => {
+    const index = this._activeFileIndex();
+    return index === null ? this._rawYaml() : (this._files()[index]?.content ?? '');
+  });
+
+  /**
+   * Identifies the loaded config across edits (a hash of the YAML as it was
+   * loaded), so per-config settings such as node positions can be stored.
+   */
+  readonly configKey = this._configKey.asReadonly();
+
+  /** The Kubernetes manifest or Helm values the config was extracted from, if any */
+  readonly wrapper = this._wrapper.asReadonly();
+
+  /** Undoable edits, oldest first */
+  readonly history = this._history.asReadonly();
+
+  /** Number of history entries currently applied; later entries can be redone */
+  readonly historyIndex = this._historyIndex.asReadonly();
+
+  readonly canUndo = computed(() => this._historyIndex() > 0);
+  readonly canRedo = computed(() => this._historyIndex() < this._history().length);
+
+  /** Label of the edit that undo would revert */
+  readonly undoLabel = computed(() => (this.canUndo() ? this._history()[this._historyIndex() - 1].label : null));
+
+  /** Label of the edit that redo would re-apply */
+  readonly redoLabel = computed(() => (this.canRedo() ? this._history()[this._historyIndex()].label : null));
+
   /** Graph data computed from the current config */
   readonly graphData = computed<GraphData>(() => {
     return this.parser.configToGraph(this._config());
@@ -57,27 +149,121 @@ export class ConfigStateService {
   }
 
   /**
- * Load a YAML string, parse it, and update the state.
+ * Load a YAML string, parse it, and update the state. `key` identifies the
+ * config for per-config state such as saved layouts (default: a content hash).
+ * A config embedded in an OpenTelemetryCollector resource, a ConfigMap or Helm
+ * values is extracted, and `wrapYaml` puts it back.
  */
-  loadYaml(yamlString: string): void {
-    try {
-      let config = this.parser.parseYaml(yamlString);
-      config = this.validateAndRepair(config);
-      this._config.set(config);
-      this._rawYaml.set(yamlString);
-      this._errors.set([]);
-    } catch (error) {
-      this._errors.set([this.extractParseError(error)]);
+  loadYaml(yamlString: string, key = this.hashText(yamlString)): void {
+    this.clearFiles();
+    this.clearHistory();
+    this._configKey.set(key);
+    const { config, wrapper } = unwrapConfig(yamlString);
+    this._wrapper.set(wrapper);
+    this.parseAndLoad(config);
+  }
+
+  /**
+   * Load an ordered list of config files and merge them the way the collector
+   * does (maps merge, lists replace). Later files override earlier ones.
+   * `key` works as in `loadYaml`. `mergedYaml` is the merged result as it was
+   * saved; when it differs from the fresh merge it was edited, and is
+   * restored instead (see `mergedEdited`).
+   */
+  loadFiles(
+    files: ConfigFile[],
+    key = this.hashText(files.map(f => `${f.name}\n${f.content}`).join('\n')),
+    mergedYaml?: string,
+  ): void {
+    this._configKey.set(key);
+    this._wrapper.set(null);
+    this._files.set(files);
+    this._activeFileIndex.set(null);
+    this._mergedEdited.set(false);
+    this.remerge();
+
+    if (mergedYaml !== undefined && mergedYaml !== this._rawYaml()) {
+      this.parseAndLoad(mergedYaml);
+      this._rawYaml.set(mergedYaml);
+      this._mergedEdited.set(true);
     }
   }
 
+  /**
+   * Open a source file in the editor, or the merged result when `index` is null.
+   */
+  setActiveFile(index: number | null): void {
+    this._activeFileIndex.set(index !== null && index >= 0 && index < this._files().length ? index : null);
+  }
+
+  /**
+   * Replace a source file's content and re-merge. Edits made to the merged
+   * result since the last merge are discarded.
+   */
+  updateFile(index: number, content: string): void {
+    this._files.update(files => files.map((file, i) => (i === index ? { ...file, content } : file)));
+    this._mergedEdited.set(false);
+    this.remerge();
+  }
+
+  /** Move a source file earlier (-1) or later (+1) in the merge order */
+  moveFile(index: number, delta: -1 | 1): void {
+    const target = index + delta;
+    const files = [...this._files()];
+    if (target < 0 || target >= files.length) return;
+
+    [files[index], files[target]] = [files[target], files[index]];
+    this._files.set(files);
+    if (this._activeFileIndex() === index) this._activeFileIndex.set(target);
+    else if (this._activeFileIndex() === target) this._activeFileIndex.set(index);
+    this._mergedEdited.set(false);
+    this.remerge();
+  }
+
+  removeFile(index: number): void {
+    const files = this._files().filter((_, i) => i !== index);
+    if (files.length === 0) {
+      this.reset(this._configKey());
+      return;
+    }
+    this._files.set(files);
+    this._activeFileIndex.set(null);
+    this._mergedEdited.set(false);
+    this.remerge();
+  }
+
+  /**
+   * Apply text from the editor to whatever it is showing: the active source
+   * file, or the merged config.
+   */
+  updateEditorYaml(yamlString: string): void {
+    const index = this._activeFileIndex();
+    if (index !== null) {
+      this.updateFile(index, yamlString);
+      return;
+    }
+    this.updateYaml(yamlString);
+    if (this._files().length > 0) this._mergedEdited.set(true);
+  }
+
+  /** Source files that define or change a component, in merge order */
+  componentSources(component: OtelComponent): string[] {
+    return this._provenance().components[this.getSectionKey(component.componentType)][component.id] ?? [];
+  }
+
+  /** Source files that define or change a pipeline, in merge order */
+  pipelineSources(pipelineId: string): string[] {
+    return this._provenance().pipelines[pipelineId] ?? [];
+  }
+
   /**
    * Update YAML from the text editor and reparse.
    */
   updateYaml(yamlString: string): void {
+    const before = this.takeSnapshot();
     try {
       let config = this.parser.parseYaml(yamlString);
-      config = this.validateAndRepair(config);
+      config = this.validateAndRepair(config, yamlString);
       this._config.set(config);
       this._rawYaml.set(yamlString);
       this._errors.set([]);
@@ -86,6 +272,7 @@ export class ConfigStateService {
       this._rawYaml.set(yamlString);
       this._errors.set([this.extractParseError(error)]);
     }
+    this.recordHistory('Edited YAML', before, true);
   }
 
   /**
@@ -96,9 +283,30 @@ export class ConfigStateService {
   }
 
   /**
-   * Reset to empty state.
+   * Put a config back into the file it was loaded from (see `wrapper`), with
+   * the file's other fields unchanged. Returns the config as is when it wasn't
+   * wrapped.
+   *
+   * @throws ConfigWrapError if the wrapper nests the config as a map and it isn't valid YAML
+   */
+  wrapYaml(configYaml: string): string {
+    const wrapper = this._wrapper();
+    return wrapper ? wrapConfig(wrapper, configYaml) : configYaml;
+  }
+
+  /** Tag or untag the config as a production config; it stays tagged across loads */
+  setProduction(production: boolean): void {
+    this._production.set(production);
+  }
+
+  /**
+   * Reset to empty state. `key` works as in `loadYaml`.
    */
-  reset(): void {
+  reset(key = ''): void {
+    this.clearFiles();
+    this.clearHistory();
+    this._configKey.set(key);
+    this._wrapper.set(null);
     this._config.set(createEmptyConfig());
     this._rawYaml.set('');
     this._errors.set([]);
@@ -139,7 +347,7 @@ export class ConfigStateService {
       },
     };
 
-    this.applyConfigUpdate(updatedConfig);
+    this.applyConfigUpdate(updatedConfig, `Removed ${component.componentType} ${component.id}`);
     this._selectedNode.set(null);
   }
 
@@ -171,7 +379,7 @@ export class ConfigStateService {
       },
     };
 
-    this.applyConfigUpdate(updatedConfig);
+    this.applyConfigUpdate(updatedConfig, `Added ${definition.componentType} ${finalId}`);
 
     return finalId;
   }
@@ -198,7 +406,7 @@ export class ConfigStateService {
       },
     };
 
-    this.applyConfigUpdate(updatedConfig);
+    this.applyConfigUpdate(updatedConfig, `Added pipeline ${id}`);
     return id;
   }
 
@@ -212,7 +420,7 @@ export class ConfigStateService {
       },
     };
 
-    this.applyConfigUpdate(updatedConfig);
+    this.applyConfigUpdate(updatedConfig, `Removed pipeline ${pipelineId}`);
   }
 
   addComponentToPipeline(pipelineId: string, componentId: string, role: PipelineRole): void {
@@ -229,7 +437,7 @@ export class ConfigStateService {
       },
     };
 
-    this.applyConfigUpdate(updatedConfig);
+    this.applyConfigUpdate(updatedConfig, `Added ${componentId} to pipeline ${pipelineId}`);
   }
 
   removeComponentFromPipeline(pipelineId: string, componentId: string, role: PipelineRole): void {
@@ -245,14 +453,132 @@ export class ConfigStateService {
       },
     };
 
-    this.applyConfigUpdate(updatedConfig);
+    this.applyConfigUpdate(updatedConfig, `Removed ${componentId} from pipeline ${pipelineId}`);
+  }
+
+  /**
+   * Move the processor at position `fromIndex` of a pipeline's processor chain
+   * to `toIndex`. Positions, not IDs, since a chain may list a processor twice.
+   */
+  moveProcessor(pipelineId: string, fromIndex: number, toIndex: number): void {
+    const config = this._config();
+    const pipeline = config.service.pipelines.find(p => p.id === pipelineId);
+    if (!pipeline || fromIndex < 0 || fromIndex >= pipeline.processors.length) return;
+
+    const processors = [...pipeline.processors];
+    const [processorId] = processors.splice(fromIndex, 1);
+    const index = Math.max(0, Math.min(toIndex, processors.length));
+    if (index === fromIndex) return;
+    processors.splice(index, 0, processorId);
+
+    const updatedConfig: OtelConfig = {
+      ...config,
+      service: {
+        ...config.service,
+        pipelines: config.service.pipelines.map(p => (p.id === pipelineId ? { ...p, processors } : p)),
+      },
+    };
+
+    this.applyConfigUpdate(updatedConfig, `Moved ${processorId} in pipeline ${pipelineId}`);
+  }
+
+  /** Replace `service.telemetry` (the collector's own logs, metrics and traces); undefined removes it */
+  updateTelemetry(telemetry: OtelServiceTelemetry | undefined, label = 'Edited telemetry'): void {
+    const config = this._config();
+    const service = { ...config.service, telemetry };
+    if (!telemetry) delete service.telemetry;
+    const updatedConfig: OtelConfig = { ...config, service };
+
+    this.applyConfigUpdate(updatedConfig, label);
+  }
+
+  /**
+   * Replace the settings of a component, e.g. from the form editor. The YAML
+   * is patched in place, so comments on untouched keys are kept.
+   */
+  updateComponentConfig(component: OtelComponent, componentConfig: Record<string, unknown>, label?: string): void {
+    const config = this._config();
+    const sectionKey = this.getSectionKey(component.componentType);
+    const updated: OtelComponent = { ...component, config: componentConfig };
+
+    const updatedConfig: OtelConfig = {
+      ...config,
+      [sectionKey]: config[sectionKey].map(c => (c.id === component.id ? updated : c)),
+    };
+
+    this.applyConfigUpdate(updatedConfig, label ?? `Edited ${component.componentType} ${component.id}`, [updated]);
+
+    // Keep the detail panel on the edited component
+    const selected = this._selectedNode()?.component;
+    if (selected?.id === component.id && selected.componentType === component.componentType) {
+      this._selectedNode.set({ component: updated, yamlLine: this.findComponentLine(updated) });
+    }
+  }
+
+  /**
+   * Apply the automatic fix for a lint issue. Returns false if the issue has no fix.
+   */
+  applyFix(issue: ValidationIssue): boolean {
+    const fixed = this.linter.fix(this._config(), issue);
+    if (!fixed) return false;
+
+    // Fixes replace the components they change, so those are the ones to sync into the YAML
+    const config = this._config();
+    const edited = ALL_SECTION_KEYS.flatMap(section => fixed[section].filter(c => !config[section].includes(c)));
+    this.applyConfigUpdate(fixed, `Applied fix: ${issue.ruleId}`, edited);
+    return true;
   }
 
   reformatYaml(): string {
-  const reformatted = this.serializer.reformatYaml(this._rawYaml());
-  this._rawYaml.set(reformatted);
-  return reformatted;
-}
+    const before = this.takeSnapshot();
+    const reformatted = this.serializer.reformatYaml(this._rawYaml());
+    this._rawYaml.set(reformatted);
+    this.recordHistory('Reformatted YAML', before);
+    return reformatted;
+  }
+
+  // ─── History ──────────────────────────────────────────────────
+
+  undo(): void {
+    if (this.canUndo()) this.jumpToHistory(this._historyIndex() - 1);
+  }
+
+  redo(): void {
+    if (this.canRedo()) this.jumpToHistory(this._historyIndex() + 1);
+  }
+
+  /**
+   * Restore the state after the first `index` history entries
+   * (0 = before any recorded edit). Later entries stay available for redo.
+   */
+  jumpToHistory(index: number): void {
+    const history = this._history();
+    if (index < 0 || index > history.length || index === this._historyIndex()) return;
+
+    this.restoreSnapshot(index === 0 ? history[0].before : history[index - 1].after);
+    this._historyIndex.set(index);
+  }
+
+  /**
+   * Run several edits as one history entry. `action` performs the edits and
+   * returns the entry's label.
+   */
+  transaction(action: () => string): void {
+    if (this.inTransaction) {
+      action();
+      return;
+    }
+
+    const before = this.takeSnapshot();
+    this.inTransaction = true;
+    let label: string;
+    try {
+      label = action();
+    } finally {
+      this.inTransaction = false;
+    }
+    this.recordHistory(label, before);
+  }
 
   private findComponentLine(component: OtelComponent): number | undefined {
     const yaml = this._rawYaml();
@@ -314,18 +640,111 @@ export class ConfigStateService {
     return COMPONENT_TYPE_TO_SECTION[componentType];
   }
 
-  private applyConfigUpdate(config: OtelConfig): void {
-    const issues = this.validator.validate(config);
+  /** Apply a model change; `edited` lists the components whose settings changed */
+  private applyConfigUpdate(config: OtelConfig, label: string, edited: OtelComponent[] = []): void {
+    const before = this.takeSnapshot();
+    if (this._files().length > 0) this._mergedEdited.set(true);
+    // Patch the existing YAML to preserve comments and formatting
+    const rawYaml = this.serializer.patchYaml(this._rawYaml(), config, edited);
+    const issues = this.validator.validate(config, { rawYaml });
     this._validationIssues.set(issues);
     this._config.set(config);
-    // Patch the existing YAML to preserve comments and formatting
-    this._rawYaml.set(this.serializer.patchYaml(this._rawYaml(), config));
+    this._rawYaml.set(rawYaml);
+    this.recordHistory(label, before);
+  }
+
+  private parseAndLoad(yamlString: string): void {
+    try {
+      let config = this.parser.parseYaml(yamlString);
+      config = this.validateAndRepair(config, yamlString);
+      this._config.set(config);
+      this._rawYaml.set(yamlString);
+      this._errors.set([]);
+    } catch (error) {
+      // Show the text that failed, not the previous config, so it isn't saved over
+      this._config.set(createEmptyConfig());
+      this._rawYaml.set(yamlString);
+      this._errors.set([this.extractParseError(error)]);
+    }
+  }
+
+  private remerge(): void {
+    // Source files changed underneath the merged result, so old snapshots no longer apply
+    this.clearHistory();
+    try {
+      const { yaml, provenance } = mergeConfigFiles(this._files());
+      this._provenance.set(provenance);
+      this.parseAndLoad(yaml);
+    } catch (error) {
+      this._errors.set([this.extractParseError(error)]);
+    }
+  }
+
+  private takeSnapshot(): ConfigSnapshot {
+    return { config: this._config(), rawYaml: this._rawYaml() };
+  }
+
+  private restoreSnapshot(snapshot: ConfigSnapshot): void {
+    this._config.set(snapshot.config);
+    this._rawYaml.set(snapshot.rawYaml);
+    this._validationIssues.set(this.validator.validate(snapshot.config, { rawYaml: snapshot.rawYaml }));
+    this._errors.set([]);
+    this._selectedNode.set(null);
+  }
+
+  /**
+   * Push an entry for the edit that went from `before` to the current state.
+   * Edits that didn't change the YAML are ignored. With `coalesce`, an edit
+   * right after one with the same label extends it instead (e.g. typing).
+   */
+  private recordHistory(label: string, before: ConfigSnapshot, coalesce = false): void {
+    if (this.inTransaction) return;
+
+    const after = this.takeSnapshot();
+    if (after.rawYaml === before.rawYaml) return;
+
+    const index = this._historyIndex();
+    const applied = this._history().slice(0, index);
+    const last = applied[applied.length - 1];
+
+    if (coalesce && last?.label === label) {
+      applied[applied.length - 1] = { ...last, after, timestamp: Date.now() };
+      this._history.set(applied);
+      return;
+    }
+
+    const entry: HistoryEntry = { id: this.nextHistoryId++, label, timestamp: Date.now(), before, after };
+    const history = [...applied, entry].slice(-this.MAX_HISTORY);
+    this._history.set(history);
+    this._historyIndex.set(history.length);
+  }
+
+  private clearHistory(): void {
+    this._history.set([]);
+    this._historyIndex.set(0);
+  }
+
+  private clearFiles(): void {
+    this._files.set([]);
+    this._activeFileIndex.set(null);
+    this._provenance.set(createEmptyProvenance());
+    this._mergedEdited.set(false);
+  }
+
+  /* Short, stable hash (FNV-1a) used as the config key */
+  private hashText(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
   }
 
   /* Check for validation issues and attempt to auto-repair the config if possible. */
-  private validateAndRepair(config: OtelConfig): OtelConfig {
+  private validateAndRepair(config: OtelConfig, rawYaml: string): OtelConfig {
     // Validate the ORIGINAL config first — this catches the issues
-    const issues = this.validator.validate(config);
+    const issues = this.validator.validate(config, { rawYaml });
     this._validationIssues.set(issues);
 
     // Then repair for the graph/state if possible
@@ -337,7 +756,9 @@ export class ConfigStateService {
   private extractParseError(error: unknown): ParseError {
     if (error instanceof Error) {
       const yamlError = error as any;
-      const line = yamlError.mark?.line != null ? yamlError.mark.line + 1 : undefined;
+      // Merge errors wrap the YAML error of the file that failed
+      const mark = yamlError.mark ?? yamlError.originalError?.mark;
+      const line = mark?.line != null ? mark.line + 1 : undefined;
 
       // js-yaml format: "short description (line:col)\n\n  context lines..."
       // Split into summary and detail
@@ -0,0 +1,59 @@
+import { TestBed } from '@angular/core/testing';
+import { ConfigDecodeError, ConfigTooLargeError, ConfigUrlService } from './config-url.service';
+
+describe('ConfigUrlService', () => {
+  let service: ConfigUrlService;
+
+  const yaml = `receivers:
+  otlp:
+    protocols:
+      grpc:
+        endpoint: 0.0.0.0:4317 # café ☕
+exporters:
+  debug:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      exporters: [debug]
+`;
+
+  beforeEach(() => {
+    service = TestBed.inject(ConfigUrlService);
+  });
+
+  it('should round-trip a config through a compressed payload', async () => {
+    const payload = await service.encodeSharePayload(yaml);
+
+    expect(payload.startsWith('v1.')).toBe(true);
+    expect(payload).toMatch(/^v1\.[A-Za-z0-9_-]+$/);
+    expect(await service.decodeSharePayload(payload)).toBe(yaml);
+  });
+
+  it('should still decode uncompressed payloads of older links', async () => {
+    expect(await service.decodeSharePayload(service.encodeConfig(yaml))).toBe(yaml);
+  });
+
+  it('should reject damaged compressed payloads', async () => {
+    await expect(service.decodeSharePayload('v1.bm90LWRlZmxhdGU')).rejects.toThrow(ConfigDecodeError);
+  });
+
+  it('should put the config in the fragment and the view params in the query', async () => {
+    const big = yaml + Array.from({ length: 400 }, (_, i) => `# padding line ${i}`).join('\n');
+    const link = await service.generateShareLink(big, { pipelines: 'traces,logs', signals: null });
+    const url = new URL(link.url);
+
+    expect(url.search).toBe('?pipelines=traces%2Clogs');
+    expect(service.payloadFromFragment(url.hash)?.startsWith('v1.')).toBe(true);
+    expect(link.compressed).toBe(true);
+    expect(link.payloadSize).toBeLessThan(link.originalSize);
+  });
+
+  it('should refuse links over the length limit', async () => {
+    // Random text barely compresses
+    let noise = '';
+    for (let i = 0; i < 40000; i++) noise += String.fromCharCode(33 + Math.floor(Math.random() * 90));
+
+    await expect(service.generateShareLink(noise)).rejects.toThrow(ConfigTooLargeError);
+  });
+});
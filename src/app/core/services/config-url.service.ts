@@ -14,12 +14,34 @@ export class ConfigDecodeError extends Error {
   }
 }
 
+/** A share link and what went into it */
+export interface ShareLink {
+  url: string;
+  /** Size of the YAML, in UTF-8 bytes */
+  originalSize: number;
+  /** Size of the encoded payload in the link (after compression), in characters */
+  payloadSize: number;
+  compressed: boolean;
+}
+
+/**
+ * Encodes configs into share links and back. Links carry the config in the
+ * URL fragment (`#config=…`), which browsers never send to the server.
+ *
+ * Payload formats, told apart by prefix:
+ * - `v1.` + URL-safe Base64 of the deflate-compressed UTF-8 YAML
+ * - no prefix: URL-safe Base64 of the raw UTF-8 YAML (the original `?config=` links)
+ */
 @Injectable({
   providedIn: 'root'
 })
 export class ConfigUrlService {
-  private readonly MAX_URL_LENGTH = 8000;
-  private readonly WARN_URL_LENGTH = 2000;
+  private readonly MAX_URL_LENGTH = 32000;
+  private readonly WARN_URL_LENGTH = 8000;
+  private readonly COMPRESSED_PREFIX = 'v1.';
+
+  /** Name of the query parameter and fragment key holding the config */
+  readonly CONFIG_PARAM = 'config';
 
   /**
    * Encode YAML string to URL-safe Base64
@@ -27,14 +49,7 @@ export class ConfigUrlService {
   encodeConfig(yamlString: string): string {
     try {
       // Handle UTF-8 properly: string -> UTF-8 bytes -> Base64
-      const utf8Bytes = new TextEncoder().encode(yamlString);
-      const base64 = btoa(String.fromCharCode(...utf8Bytes));
-
-      // Make URL-safe: + -> -, / -> _, remove padding =
-      return base64
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_')
-        .replace(/=/g, '');
+      return this.toBase64Url(new TextEncoder().encode(yamlString));
     } catch (error) {
       throw new ConfigDecodeError('Failed to encode config', error);
     }
@@ -45,29 +60,61 @@ export class ConfigUrlService {
    */
   decodeConfig(encoded: string): string {
     try {
-      // Restore standard Base64: - -> +, _ -> /
-      let base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
-
-      // Add padding back if needed
-      while (base64.length % 4) {
-        base64 += '=';
-      }
-
-      // Decode: Base64 -> UTF-8 bytes -> string
-      const binaryString = atob(base64);
-      const utf8Bytes = Uint8Array.from(binaryString, c => c.charCodeAt(0));
-      return new TextDecoder().decode(utf8Bytes);
+      return new TextDecoder().decode(this.fromBase64Url(encoded));
     } catch (error) {
       throw new ConfigDecodeError('Invalid encoded config format', error);
     }
   }
 
   /**
-   * Generate full shareable URL with current origin
+   * Encode YAML for a share link: deflate-compressed with a version prefix,
+   * or the uncompressed format where CompressionStream is unavailable.
+   */
+  async encodeSharePayload(yamlString: string): Promise<string> {
+    if (typeof CompressionStream === 'undefined') {
+      return this.encodeConfig(yamlString);
+    }
+    try {
+      const compressed = await this.pipeThrough(new TextEncoder().encode(yamlString), new CompressionStream('deflate-raw'));
+      return this.COMPRESSED_PREFIX + this.toBase64Url(compressed);
+    } catch (error) {
+      throw new ConfigDecodeError('Failed to compress config', error);
+    }
+  }
+
+  /**
+   * Decode a share link payload in any of the supported formats
+   */
+  async decodeSharePayload(payload: string): Promise<string> {
+    if (!payload.startsWith(this.COMPRESSED_PREFIX)) {
+      return this.decodeConfig(payload);
+    }
+    if (typeof DecompressionStream === 'undefined') {
+      throw new ConfigDecodeError('This browser cannot open compressed config links');
+    }
+    try {
+      const bytes = this.fromBase64Url(payload.slice(this.COMPRESSED_PREFIX.length));
+      const yaml = await this.pipeThrough(bytes, new DecompressionStream('deflate-raw'));
+      return new TextDecoder('utf-8', { fatal: true }).decode(yaml);
+    } catch (error) {
+      throw new ConfigDecodeError('Invalid compressed config format', error);
+    }
+  }
+
+  /**
+   * Generate a share link with the current origin, the config in the URL
+   * fragment and `viewParams` (e.g. the graph filter) in the query; null
+   * values are left out.
+   *
+   * @throws ConfigTooLargeError if the link exceeds MAX_URL_LENGTH
    */
-  generateShareableUrl(yamlString: string): string {
-    const encoded = this.encodeConfig(yamlString);
-    const url = `${window.location.origin}${window.location.pathname}?config=${encoded}`;
+  async generateShareLink(yamlString: string, viewParams: Record<string, string | null> = {}): Promise<ShareLink> {
+    const payload = await this.encodeSharePayload(yamlString);
+    const query = Object.entries(viewParams)
+      .filter(([, value]) => value !== null)
+      .map(([key, value]) => `${key}=${encodeURIComponent(value!)}`)
+      .join('&');
+    const url = `${window.location.origin}${window.location.pathname}${query ? `?${query}` : ''}#${this.CONFIG_PARAM}=${payload}`;
 
     if (url.length > this.MAX_URL_LENGTH) {
       throw new ConfigTooLargeError(url.length, this.MAX_URL_LENGTH);
@@ -77,7 +124,19 @@ export class ConfigUrlService {
       console.warn(`Generated URL is ${url.length} characters (recommended: <${this.WARN_URL_LENGTH})`);
     }
 
-    return url;
+    return {
+      url,
+      originalSize: new TextEncoder().encode(yamlString).length,
+      payloadSize: payload.length,
+      compressed: payload.startsWith(this.COMPRESSED_PREFIX),
+    };
+  }
+
+  /**
+   * Config payload in a URL fragment such as `#config=v1.…`, if any
+   */
+  payloadFromFragment(hash: string): string | null {
+    return new URLSearchParams(hash.replace(/^#/, '')).get(this.CONFIG_PARAM);
   }
 
   /**
@@ -91,4 +150,51 @@ export class ConfigUrlService {
       return false;
     }
   }
+
+  private toBase64Url(bytes: Uint8Array): string {
+    // Chunked: spreading a large array into fromCharCode overflows the stack
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+
+    // Make URL-safe: + -> -, / -> _, remove padding =
+    return btoa(binary)
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=/g, '');
+  }
+
+  private fromBase64Url(encoded: string): Uint8Array {
+    // Restore standard Base64: - -> +, _ -> /
+    let base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+
+    // Add padding back if needed
+    while (base64.length % 4) {
+      base64 += '=';
+    }
+
+    const binaryString = atob(base64);
+    return Uint8Array.from(binaryString, c => c.charCodeAt(0));
+  }
+
+  private async pipeThrough(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const writer = transform.writable.getWriter();
+    writer.write(bytes as BufferSource).catch(() => undefined);
+    writer.close().catch(() => undefined);
+
+    const chunks: Uint8Array[] = [];
+    const reader = transform.readable.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      chunks.push(chunk.value);
+    }
+
+    const result = new Uint8Array(chunks.reduce((size, c) => size + c.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result;
+  }
 }
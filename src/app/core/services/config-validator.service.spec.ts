@@ -0,0 +1,337 @@
+import { WritableSignal, signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ConfigParserService } from './config-parser.service';
+import { ConfigValidatorService } from './config-validator.service';
+import { ComponentRegistryService } from './component-registry.service';
+import { DISTRIBUTIONS } from '../utils/distributions';
+import { RegistryComponentEntry } from '../models';
+
+describe('ConfigValidatorService', () => {
+  let parser: ConfigParserService;
+  let validator: ConfigValidatorService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [{ provide: ComponentRegistryService, useValue: { catalog: signal([]), findEntry: () => undefined } }],
+    });
+    parser = TestBed.inject(ConfigParserService);
+    validator = TestBed.inject(ConfigValidatorService);
+  });
+
+  describe('connectors', () => {
+    const connectorYaml = (metricsReceivers: string) => `
+receivers:
+  otlp:
+    protocols:
+      grpc:
+exporters:
+  debug:
+connectors:
+  spanmetrics:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      exporters: [spanmetrics]
+    ${metricsReceivers}:
+      receivers: [spanmetrics]
+      exporters: [debug]
+`;
+
+    it('should accept a connector used as exporter and receiver', () => {
+      const issues = validator.validate(parser.parseYaml(connectorYaml('metrics')));
+
+      expect(issues).toEqual([]);
+    });
+
+    it('should keep connectors when repairing', () => {
+      const repaired = validator.repair(parser.parseYaml(connectorYaml('metrics')));
+
+      expect(repaired.service.pipelines[0].exporters).toEqual(['spanmetrics']);
+      expect(repaired.service.pipelines[1].receivers).toEqual(['spanmetrics']);
+    });
+
+    it('should flag an unsupported signal pair', () => {
+      const issues = validator.validate(parser.parseYaml(connectorYaml('logs')));
+
+      expect(issues.length).toBe(1);
+      expect(issues[0].severity).toBe('error');
+      expect(issues[0].componentId).toBe('spanmetrics');
+      expect(issues[0].message).toContain('traces → logs');
+    });
+
+    it('should flag a connector that is never used as a receiver', () => {
+      const config = parser.parseYaml(`
+receivers:
+  otlp:
+connectors:
+  forward:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      exporters: [forward]
+`);
+
+      const messages = validator.validate(config).map(i => i.message);
+
+      expect(messages).toContain('Connector "forward" is used as an exporter but not as a receiver in any pipeline');
+    });
+
+    it('should prefer registry signal pairs over the built-in table', () => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [{
+          provide: ComponentRegistryService,
+          useValue: {
+            catalog: signal([{
+              type: 'spanmetrics',
+              componentType: 'connector',
+              connectorSignalPairs: [{ from: 'traces', to: 'logs' }],
+            }]),
+          },
+        }],
+      });
+
+      const issues = TestBed.inject(ConfigValidatorService)
+        .validate(TestBed.inject(ConfigParserService).parseYaml(connectorYaml('logs')));
+
+      expect(issues).toEqual([]);
+    });
+  });
+
+  describe('component schemas', () => {
+    const yaml = `
+receivers:
+  otlp:
+    protocols:
+      grpc:
+        endpoint: 0.0.0.0:99999
+      htp:
+processors:
+  batch:
+    timeout: 5x
+    send_batch_size: "1024"
+  memory_limiter:
+    limit_mib: 512
+exporters:
+  otlp:
+    endpoint: \${env:OTLP_ENDPOINT}
+    compresion: gzip
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      processors: [memory_limiter, batch]
+      exporters: [otlp]
+`;
+
+    it('should report schema violations with YAML line numbers', () => {
+      const issues = validator.validate(parser.parseYaml(yaml), { rawYaml: yaml })
+        .map(i => [i.message, i.line]);
+
+      expect(issues).toEqual([
+        ['Receiver "otlp": protocols.grpc.endpoint must be a host:port address such as 0.0.0.0:4317, got "0.0.0.0:99999"', 6],
+        ['Receiver "otlp": protocols: unknown key "htp"', 7],
+        ['Processor "batch": timeout must be a duration such as 5s, 1m30s or 250ms, got "5x"', 10],
+        ['Processor "batch": send_batch_size must be an integer, got "1024"', 11],
+        ['Processor "memory_limiter": missing required key "check_interval"', 12],
+        ['Exporter "otlp": unknown key "compresion"', 17],
+      ]);
+    });
+
+    it('should skip components without a schema', () => {
+      const config = parser.parseYaml(`
+receivers:
+  otlp:
+    protocols:
+      grpc:
+exporters:
+  loki:
+    whatever: true
+service:
+  pipelines:
+    logs:
+      receivers: [otlp]
+      exporters: [loki]
+`);
+
+      expect(validator.validate(config)).toEqual([]);
+    });
+  });
+
+  describe('distributions', () => {
+    const yaml = `receivers:
+  otlp:
+    protocols:
+      grpc:
+processors:
+  memory_limiter:
+    check_interval: 1s
+  k8sattributes:
+exporters:
+  debug:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      processors: [memory_limiter, k8sattributes]
+      exporters: [debug]
+`;
+
+    it('should flag components the target distribution does not include', () => {
+      const issues = validator.checkDistribution(parser.parseYaml(yaml), DISTRIBUTIONS.core, { rawYaml: yaml });
+
+      expect(issues.map(i => [i.message, i.line])).toEqual([
+        ['Processor "k8sattributes" is not included in the Core (otelcol) distribution', 8],
+      ]);
+      expect(validator.checkDistribution(parser.parseYaml(yaml), DISTRIBUTIONS.k8s)).toEqual([]);
+      expect(validator.checkDistribution(parser.parseYaml(yaml), null)).toEqual([]);
+    });
+
+    it('should accept any component for contrib, even one the catalog does not list', () => {
+      const catalog = TestBed.inject(ComponentRegistryService).catalog as WritableSignal<RegistryComponentEntry[]>;
+      const entry = (componentType: RegistryComponentEntry['componentType'], type: string): RegistryComponentEntry => ({
+        type, componentType, source: 'core', enriched: true, displayName: type, description: '', supportedSignals: [], defaultConfig: {},
+      });
+      catalog.set([entry('receiver', 'otlp'), entry('exporter', 'debug'), entry('extension', 'health_check')]);
+      const contribYaml = yaml.replace('exporters:\n  debug:\n', 'exporters:\n  debug:\n  signalfx:\n    access_token: token\n') +
+        'extensions:\n  sigv4auth:\n';
+      expect(parser.parseYaml(contribYaml).exporters.map(e => e.id)).toEqual(['debug', 'signalfx']);
+
+      expect(validator.checkDistribution(parser.parseYaml(contribYaml), DISTRIBUTIONS.contrib)).toEqual([]);
+    });
+  });
+
+  describe('port conflicts', () => {
+    it('should report listeners that bind a port already in use', () => {
+      const yaml = `receivers:
+  otlp:
+    protocols:
+      grpc:
+        endpoint: 0.0.0.0:13133
+exporters:
+  debug:
+extensions:
+  health_check:
+service:
+  extensions: [health_check]
+  pipelines:
+    traces:
+      receivers: [otlp]
+      exporters: [debug]
+`;
+      const issues = validator.validate(parser.parseYaml(yaml), { rawYaml: yaml }).filter(i => i.message.startsWith('Port'));
+
+      expect(issues.map(i => [i.message, i.componentId, i.line])).toEqual([
+        ['Port 13133/tcp of extension "health_check" (endpoint) is already used by receiver "otlp" (grpc)', 'health_check', 9],
+      ]);
+    });
+  });
+
+  describe('signal support', () => {
+    const yaml = `receivers:
+  otlp:
+  prometheus:
+exporters:
+  zipkin:
+  debug:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp, prometheus]
+      exporters: [zipkin]
+    logs:
+      receivers: [otlp]
+      exporters: [zipkin, debug]
+`;
+    const signals: Record<string, string[]> = {
+      'receiver:otlp': ['traces', 'metrics', 'logs'],
+      'receiver:prometheus': ['metrics'],
+      'exporter:zipkin': ['traces'],
+    };
+
+    beforeEach(() => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [{
+          provide: ComponentRegistryService,
+          useValue: {
+            catalog: signal([]),
+            findEntry: (componentType: string, type: string) =>
+              signals[`${componentType}:${type}`] && { supportedSignals: signals[`${componentType}:${type}`] },
+          },
+        }],
+      });
+      validator = TestBed.inject(ConfigValidatorService);
+    });
+
+    it('should flag components in pipelines of a signal they do not support', () => {
+      const issues = validator.checkSignalSupport(parser.parseYaml(yaml), { rawYaml: yaml });
+
+      expect(issues.map(i => [i.message, i.pipelineId, i.line])).toEqual([
+        ['Receiver "prometheus" does not support traces (pipeline "traces"); supported: metrics', 'traces', 10],
+        ['Exporter "zipkin" does not support logs (pipeline "logs"); supported: traces', 'logs', 14],
+      ]);
+    });
+
+    it('should skip components whose signals are unknown', () => {
+      const mismatches = validator.findSignalMismatches(parser.parseYaml(yaml));
+
+      expect(mismatches.some(m => m.componentId === 'debug')).toBe(false);
+      expect(mismatches[0]).toEqual({
+        pipelineId: 'traces', signal: 'traces', componentId: 'prometheus', role: 'receivers', supportedSignals: ['metrics'],
+      });
+    });
+  });
+
+  describe('stability', () => {
+    const yaml = `receivers:
+  otlp:
+  kafka:
+exporters:
+  loki:
+service:
+  pipelines:
+    logs:
+      receivers: [otlp, kafka]
+      exporters: [loki]
+`;
+    const stability: Record<string, Record<string, string>> = {
+      'receiver:otlp': { traces: 'stable', metrics: 'stable', logs: 'beta' },
+      'receiver:kafka': { traces: 'beta', metrics: 'beta', logs: 'alpha' },
+      'exporter:loki': { logs: 'deprecated' },
+    };
+
+    beforeEach(() => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [{
+          provide: ComponentRegistryService,
+          useValue: {
+            catalog: signal([]),
+            findEntry: (componentType: string, type: string) => ({ stability: stability[`${componentType}:${type}`] }),
+          },
+        }],
+      });
+      validator = TestBed.inject(ConfigValidatorService);
+    });
+
+    it('should warn about deprecated components', () => {
+      const issues = validator.checkStability(parser.parseYaml(yaml), { rawYaml: yaml });
+
+      expect(issues.map(i => [i.severity, i.message, i.line])).toEqual([
+        ['warning', 'Exporter "loki" is deprecated; plan to replace it', 5],
+      ]);
+    });
+
+    it('should flag alpha signals in use only in a production config', () => {
+      const messages = validator.checkStability(parser.parseYaml(yaml), { production: true }).map(i => i.message);
+
+      expect(messages).toEqual([
+        'Receiver "kafka" is not production-ready for logs (alpha)',
+        'Exporter "loki" is deprecated; plan to replace it',
+      ]);
+    });
+  });
+});
@@ -1,33 +1,177 @@
-import { Injectable } from '@angular/core';
-import { OtelConfig, OtelPipeline, ValidationIssue } from '../models';
-
+import { Injectable, inject } from '@angular/core';
+import {
+  ConnectorSignalPair,
+  Distribution,
+  OtelConfig,
+  OtelPipeline,
+  PipelineRole,
+  SignalMismatch,
+  ValidationContext,
+  ValidationIssue,
+  ALL_SECTION_KEYS,
+} from '../models';
+import { KNOWN_CONNECTOR_SIGNAL_PAIRS, formatSignalPairs } from '../utils/connector-signals';
+import { findComponentSchema } from '../utils/component-schemas';
+import { validateConfigValue } from '../utils/config-schema';
+import { distributionIncludes } from '../utils/distributions';
+import { endpointOwner, findListenEndpoints, findPortConflicts } from '../utils/endpoints';
+import { EARLY_LEVELS, RETIRING_LEVELS, stabilityKeysInUse } from '../utils/stability';
+import { checkTelemetry } from '../utils/telemetry';
+import { YamlLocator } from '../utils/yaml-locator';
+import { ComponentRegistryService } from './component-registry.service';
 
 @Injectable({
   providedIn: 'root',
 })
 export class ConfigValidatorService {
+  private readonly registry = inject(ComponentRegistryService);
 
   /**
    * Validate the config and return all issues found.
+   * Pass the source YAML in the context to get line numbers on config-level issues.
    */
-  validate(config: OtelConfig): ValidationIssue[] {
+  validate(config: OtelConfig, context: ValidationContext = {}): ValidationIssue[] {
+    const locator = context.rawYaml ? new YamlLocator(context.rawYaml) : null;
+
     return [
       ...this.checkDanglingPipelineRefs(config),
       ...this.checkUnusedComponents(config),
       ...this.checkEmptyPipelines(config),
       ...this.checkEmptyRequiredFields(config),
       ...this.checkDanglingExtensionRefs(config),
+      ...this.checkConnectorUsage(config),
+      ...this.checkConnectorSignalPairs(config),
+      ...this.checkComponentSchemas(config, locator),
+      ...this.checkPortConflicts(config, locator),
+      ...this.checkTelemetry(config, locator),
     ];
   }
 
+  /**
+   * Components the target distribution doesn't include — the collector would
+   * refuse the config with "unknown type". A distribution without a component
+   * list (contrib) includes every component; the catalog may not know them all.
+   */
+  checkDistribution(config: OtelConfig, distribution: Distribution | null, context: ValidationContext = {}): ValidationIssue[] {
+    if (!distribution?.components) return [];
+    const locator = context.rawYaml ? new YamlLocator(context.rawYaml) : null;
+    const issues: ValidationIssue[] = [];
+
+    for (const section of ALL_SECTION_KEYS) {
+      for (const component of config[section]) {
+        if (distributionIncludes(distribution.components, section, component.type)) continue;
+        const label = component.componentType.charAt(0).toUpperCase() + component.componentType.slice(1);
+        issues.push({
+          severity: 'error',
+          message: `${label} "${component.type}" is not included in the ${distribution.name} distribution`,
+          componentId: component.id,
+          autoFixable: false,
+          line: locator?.lineOf([section, component.id]),
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Receivers, processors and exporters listed in a pipeline whose signal they
+   * don't support (e.g. the prometheus receiver in a traces pipeline). Components
+   * whose signals the catalog doesn't know are skipped; connectors are checked
+   * by their signal pairs in `validate`.
+   */
+  findSignalMismatches(config: OtelConfig): SignalMismatch[] {
+    const mismatches: SignalMismatch[] = [];
+    const roles: PipelineRole[] = ['receivers', 'processors', 'exporters'];
+
+    for (const pipeline of config.service.pipelines) {
+      for (const role of roles) {
+        for (const id of pipeline[role]) {
+          const component = config[role].find(c => c.id === id);
+          if (!component) continue;
+          const supported = this.registry.findEntry(component.componentType, component.type)?.supportedSignals ?? [];
+          if (supported.length === 0 || supported.includes(pipeline.signal)) continue;
+          mismatches.push({ pipelineId: pipeline.id, signal: pipeline.signal, componentId: id, role, supportedSignals: supported });
+        }
+      }
+    }
+
+    return mismatches;
+  }
+
+  /** `findSignalMismatches` as validation errors */
+  checkSignalSupport(config: OtelConfig, context: ValidationContext = {}): ValidationIssue[] {
+    const locator = context.rawYaml ? new YamlLocator(context.rawYaml) : null;
+
+    return this.findSignalMismatches(config).map(mismatch => {
+      const pipeline = config.service.pipelines.find(p => p.id === mismatch.pipelineId)!;
+      const label = mismatch.role.charAt(0).toUpperCase() + mismatch.role.slice(1, -1);
+      return {
+        severity: 'error' as const,
+        message: `${label} "${mismatch.componentId}" does not support ${mismatch.signal} ` +
+          `(pipeline "${mismatch.pipelineId}"); supported: ${mismatch.supportedSignals.join(', ')}`,
+        pipelineId: mismatch.pipelineId,
+        componentId: mismatch.componentId,
+        autoFixable: false,
+        line: locator?.lineOf([
+          'service', 'pipelines', mismatch.pipelineId, mismatch.role, pipeline[mismatch.role].indexOf(mismatch.componentId),
+        ]),
+      };
+    });
+  }
+
+  /**
+   * Components whose catalog entry marks them deprecated or unmaintained, and —
+   * in a config tagged as production — components used with a signal that is
+   * only at development or alpha stability. Components missing from the
+   * catalog (or without stability data) are skipped.
+   */
+  checkStability(config: OtelConfig, context: ValidationContext = {}): ValidationIssue[] {
+    const locator = context.rawYaml ? new YamlLocator(context.rawYaml) : null;
+    const issues: ValidationIssue[] = [];
+
+    for (const section of ALL_SECTION_KEYS) {
+      for (const component of config[section]) {
+        const stability = this.registry.findEntry(component.componentType, component.type)?.stability;
+        if (!stability) continue;
+        const label = component.componentType.charAt(0).toUpperCase() + component.componentType.slice(1);
+        const report = (message: string) => issues.push({
+          severity: 'warning',
+          message,
+          componentId: component.id,
+          autoFixable: false,
+          line: locator?.lineOf([section, component.id]),
+        });
+
+        const levels = Object.values(stability);
+        const retiring = levels.find(level => RETIRING_LEVELS.has(level));
+        if (retiring) {
+          const keys = Object.keys(stability).filter(key => stability[key] === retiring);
+          const scope = keys.length === levels.length ? '' : ` for ${keys.join(', ').replace(/_to_/g, ' → ')}`;
+          report(`${label} "${component.type}" is ${retiring}${scope}; plan to replace it`);
+        }
+
+        if (!context.production) continue;
+        const early = stabilityKeysInUse(config, component).filter(key => EARLY_LEVELS.has(stability[key]));
+        if (early.length > 0) {
+          const used = early.map(key => `${key.replace(/_to_/g, ' → ')} (${stability[key]})`).join(', ');
+          report(`${label} "${component.type}" is not production-ready for ${used}`);
+        }
+      }
+    }
+
+    return issues;
+  }
+
   /**
    * Auto-repair: remove dangling references from pipelines.
    * Returns a new config (does not mutate the original).
    */
   repair(config: OtelConfig): OtelConfig {
-    const receiverIds = new Set(config.receivers.map(r => r.id));
+    const connectorIds = config.connectors.map(c => c.id);
+    const receiverIds = new Set([...config.receivers.map(r => r.id), ...connectorIds]);
     const processorIds = new Set(config.processors.map(p => p.id));
-    const exporterIds = new Set(config.exporters.map(e => e.id));
+    const exporterIds = new Set([...config.exporters.map(e => e.id), ...connectorIds]);
     const extensionIds = new Set(config.extensions.map(e => e.id));
 
     const repairedPipelines: OtelPipeline[] = config.service.pipelines.map(pipeline => ({
@@ -50,12 +194,14 @@ export class ConfigValidatorService {
   /**
    * Pipeline references a component that doesn't exist in its section.
    * e.g. pipeline says processors: [batch] but batch isn't defined.
+   * Connectors are valid in both the receivers and exporters lists.
    */
   private checkDanglingPipelineRefs(config: OtelConfig): ValidationIssue[] {
     const issues: ValidationIssue[] = [];
-    const receiverIds = new Set(config.receivers.map(r => r.id));
+    const connectorIds = config.connectors.map(c => c.id);
+    const receiverIds = new Set([...config.receivers.map(r => r.id), ...connectorIds]);
     const processorIds = new Set(config.processors.map(p => p.id));
-    const exporterIds = new Set(config.exporters.map(e => e.id));
+    const exporterIds = new Set([...config.exporters.map(e => e.id), ...connectorIds]);
 
     for (const pipeline of config.service.pipelines) {
       for (const id of pipeline.receivers) {
@@ -107,6 +253,7 @@ export class ConfigValidatorService {
     const usedReceivers = new Set(config.service.pipelines.flatMap(p => p.receivers));
     const usedProcessors = new Set(config.service.pipelines.flatMap(p => p.processors));
     const usedExporters = new Set(config.service.pipelines.flatMap(p => p.exporters));
+    const usedConnectors = new Set([...usedReceivers, ...usedExporters]);
 
     for (const r of config.receivers) {
       if (!usedReceivers.has(r.id)) {
@@ -141,6 +288,17 @@ export class ConfigValidatorService {
       }
     }
 
+    for (const c of config.connectors) {
+      if (!usedConnectors.has(c.id)) {
+        issues.push({
+          severity: 'warning',
+          message: `Connector "${c.id}" is defined but not used in any pipeline`,
+          componentId: c.id,
+          autoFixable: false,
+        });
+      }
+    }
+
     return issues;
   }
 
@@ -211,4 +369,149 @@ export class ConfigValidatorService {
 
     return issues;
   }
-}
\ No newline at end of file
+
+  /**
+   * A connector must be used as an exporter in at least one pipeline and as a
+   * receiver in at least one other — otherwise the collector refuses to start.
+   */
+  private checkConnectorUsage(config: OtelConfig): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const connector of config.connectors) {
+      const { exporterSide, receiverSide } = this.getConnectorPipelines(config, connector.id);
+      if (exporterSide.length === 0 && receiverSide.length === 0) continue;
+
+      if (receiverSide.length === 0) {
+        issues.push({
+          severity: 'error',
+          message: `Connector "${connector.id}" is used as an exporter but not as a receiver in any pipeline`,
+          componentId: connector.id,
+          autoFixable: false,
+        });
+      }
+
+      if (exporterSide.length === 0) {
+        issues.push({
+          severity: 'error',
+          message: `Connector "${connector.id}" is used as a receiver but not as an exporter in any pipeline`,
+          componentId: connector.id,
+          autoFixable: false,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Every exporter-side → receiver-side pipeline pair a connector bridges must be
+   * a signal pair the connector supports (e.g. spanmetrics only does traces → metrics).
+   * Connectors with no known signal pairs are skipped.
+   */
+  private checkConnectorSignalPairs(config: OtelConfig): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const connector of config.connectors) {
+      const supported = this.getConnectorSignalPairs(connector.type);
+      if (supported.length === 0) continue;
+
+      const { exporterSide, receiverSide } = this.getConnectorPipelines(config, connector.id);
+      for (const from of exporterSide) {
+        for (const to of receiverSide) {
+          if (supported.some(p => p.from === from.signal && p.to === to.signal)) continue;
+
+          issues.push({
+            severity: 'error',
+            message: `Connector "${connector.id}" cannot connect ${from.signal} → ${to.signal} ` +
+              `(pipelines "${from.id}" → "${to.id}"); supported: ${formatSignalPairs(supported)}`,
+            pipelineId: to.id,
+            componentId: connector.id,
+            autoFixable: false,
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Two listeners binding the same port (e.g. two receivers on 0.0.0.0:4317,
+   * or an extension on another's default port) — the collector fails at startup.
+   */
+  private checkPortConflicts(config: OtelConfig, locator: YamlLocator | null): ValidationIssue[] {
+    return findPortConflicts(findListenEndpoints(config)).map(({ endpoint, conflictsWith }) => ({
+      severity: 'error' as const,
+      message: `Port ${endpoint.port}/${endpoint.protocol} of ${endpointOwner(endpoint)} (${endpoint.name}) ` +
+        `is already used by ${endpointOwner(conflictsWith)} (${conflictsWith.name})`,
+      componentId: endpoint.componentType === 'service' ? undefined : endpoint.componentId,
+      autoFixable: false,
+      line: locator?.lineOf(endpoint.path),
+    }));
+  }
+
+  /**
+   * Invalid `service.telemetry` settings: unknown levels, encodings or
+   * propagators, and metric readers or processors without a usable exporter.
+   */
+  private checkTelemetry(config: OtelConfig, locator: YamlLocator | null): ValidationIssue[] {
+    return checkTelemetry(config.service.telemetry).map(problem => ({
+      severity: problem.severity,
+      message: `Telemetry: ${problem.message}`,
+      autoFixable: false,
+      line: locator?.lineOf(['service', 'telemetry', ...problem.path]),
+    }));
+  }
+
+  private getConnectorPipelines(
+    config: OtelConfig,
+    connectorId: string,
+  ): { exporterSide: OtelPipeline[]; receiverSide: OtelPipeline[] } {
+    const pipelines = config.service.pipelines;
+    return {
+      exporterSide: pipelines.filter(p => p.exporters.includes(connectorId)),
+      receiverSide: pipelines.filter(p => p.receivers.includes(connectorId)),
+    };
+  }
+
+  /**
+   * Signal pairs for a connector type: registry metadata first, then the
+   * built-in table for well-known connectors.
+   */
+  private getConnectorSignalPairs(type: string): ConnectorSignalPair[] {
+    const entry = this.registry.catalog().find(e => e.componentType === 'connector' && e.type === type);
+    if (entry?.connectorSignalPairs && entry.connectorSignalPairs.length > 0) {
+      return entry.connectorSignalPairs;
+    }
+    return KNOWN_CONNECTOR_SIGNAL_PAIRS[type] ?? [];
+  }
+
+  /**
+   * Component config doesn't match the schema of its component type
+   * (unknown keys, wrong types, invalid durations/endpoints, missing required keys).
+   * Only components with a known schema are checked.
+   */
+  private checkComponentSchemas(config: OtelConfig, locator: YamlLocator | null): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const section of ALL_SECTION_KEYS) {
+      for (const component of config[section]) {
+        const schema = findComponentSchema(component.componentType, component.type);
+        if (!schema) continue;
+
+        const label = component.componentType.charAt(0).toUpperCase() + component.componentType.slice(1);
+        for (const violation of validateConfigValue(component.config, schema.config)) {
+          issues.push({
+            severity: 'error',
+            message: `${label} "${component.id}": ${violation.message}`,
+            componentId: component.id,
+            autoFixable: false,
+            line: locator?.lineOf([section, component.id, ...violation.path]),
+          });
+        }
+      }
+    }
+
+    return issues;
+  }
+}
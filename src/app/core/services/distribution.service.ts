@@ -0,0 +1,100 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { BuilderManifest, Distribution, DistributionId } from '../models';
+import { DISTRIBUTIONS, parseBuilderManifest } from '../utils/distributions';
+
+interface StoredDistribution {
+  selected: DistributionId | null;
+  /** Raw `builder-config.yaml` of the custom distribution */
+  customManifest: string;
+}
+
+/**
+ * The collector distribution the config targets. The validator flags
+ * components the target doesn't include; with no target nothing is checked.
+ * The choice and the custom OCB manifest are kept in localStorage.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DistributionService {
+  private readonly STORAGE_KEY = 'otel-viewer-distribution';
+
+  private readonly stored = this.loadFromStorage();
+  private readonly _selected = signal<DistributionId | null>(this.stored.selected);
+  private readonly _customManifest = signal<string>(this.stored.customManifest);
+
+  /** Official distributions that can be targeted */
+  readonly official = Object.values(DISTRIBUTIONS);
+
+  readonly selected = this._selected.asReadonly();
+
+  /** Raw `builder-config.yaml` of the custom distribution (empty if none was supplied) */
+  readonly customManifest = this._customManifest.asReadonly();
+
+  /** The parsed custom manifest, or null if none was supplied or it can't be read */
+  readonly builderManifest = computed<BuilderManifest | null>(() => {
+    try {
+      return this._customManifest() ? parseBuilderManifest(this._customManifest()) : null;
+    } catch {
+      return null;
+    }
+  });
+
+  /** The targeted distribution, or null when none is targeted */
+  readonly target = computed<Distribution | null>(() => {
+    const selected = this._selected();
+    if (selected === null) return null;
+    if (selected !== 'custom') return DISTRIBUTIONS[selected];
+
+    const manifest = this.builderManifest();
+    if (!manifest) return null;
+    return {
+      id: 'custom',
+      name: manifest.name ? `Custom (${manifest.name})` : 'Custom (OCB)',
+      description: 'Built with the OpenTelemetry Collector Builder from the supplied manifest.',
+      components: manifest.components,
+    };
+  });
+
+  select(id: DistributionId | null): void {
+    this._selected.set(id);
+    this.saveToStorage();
+  }
+
+  /**
+   * Use an OCB `builder-config.yaml` as the custom distribution and target it.
+   *
+   * @throws BuilderManifestError if the manifest can't be read
+   */
+  setCustomManifest(yamlText: string): BuilderManifest {
+    const manifest = parseBuilderManifest(yamlText);
+    this._customManifest.set(yamlText);
+    this._selected.set('custom');
+    this.saveToStorage();
+    return manifest;
+  }
+
+  private loadFromStorage(): StoredDistribution {
+    const empty: StoredDistribution = { selected: null, customManifest: '' };
+    if (typeof window === 'undefined' || !window.localStorage) {
+      return empty;
+    }
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.STORAGE_KEY) ?? '{}');
+      const ids: DistributionId[] = ['core', 'contrib', 'k8s', 'custom'];
+      return {
+        selected: ids.includes(stored.selected) ? stored.selected : null,
+        customManifest: typeof stored.customManifest === 'string' ? stored.customManifest : '',
+      };
+    } catch {
+      return empty;
+    }
+  }
+
+  private saveToStorage(): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const stored: StoredDistribution = { selected: this._selected(), customManifest: this._customManifest() };
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(stored));
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { ConfigEnvironment, GraphData, OtelConfig, ValidationIssue } from '../models';
+import { findVariableReferences, substituteVariables } from '../utils/env-substitution';
+import { ConfigParserService } from './config-parser.service';
+import { ConfigSerializerService } from './config-serializer.service';
+import { ConfigStateService } from './config-state.service';
+import { ConfigValidatorService } from './config-validator.service';
+
+const DEFAULT_ENVIRONMENTS: ConfigEnvironment[] = [
+  { name: 'dev', variables: {} },
+  { name: 'staging', variables: {} },
+  { name: 'prod', variables: {} },
+];
+
+interface StoredEnvironments {
+  environments: ConfigEnvironment[];
+  active: string;
+}
+
+/**
+ * Named sets of values for the `${env:...}` / `${file:...}` references in the
+ * current config, and the config as it would look once resolved with the
+ * active environment.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class EnvironmentService {
+  private readonly STORAGE_KEY = 'otel-viewer-environments';
+
+  private readonly state = inject(ConfigStateService);
+  private readonly parser = inject(ConfigParserService);
+  private readonly serializer = inject(ConfigSerializerService);
+  private readonly validator = inject(ConfigValidatorService);
+
+  private readonly stored = this.loadFromStorage();
+  private readonly _environments = signal<ConfigEnvironment[]>(this.stored.environments);
+  private readonly _activeName = signal<string>(this.stored.active);
+  private readonly _previewEnabled = signal(false);
+
+  readonly environments = this._environments.asReadonly();
+  readonly activeName = this._activeName.asReadonly();
+
+  /** Whether the graph shows the resolved config instead of the raw one */
+  readonly previewEnabled = this._previewEnabled.asReadonly();
+
+  readonly activeEnvironment = computed<ConfigEnvironment>(
+    () => this._environments().find(e => e.name === this._activeName()) ?? this._environments()[0],
+  );
+
+  /** Variable references used by the current config */
+  readonly references = computed(() => findVariableReferences(this.state.config()));
+
+  private readonly substitution = computed(() =>
+    substituteVariables(this.state.config(), this.activeEnvironment().variables),
+  );
+
+  /** The current config with the active environment's values substituted */
+  readonly resolvedConfig = computed<OtelConfig>(() => this.substitution().config);
+
+  /** Variable keys that have neither a value in the active environment nor a default */
+  readonly undefinedVariables = computed(() => this.substitution().undefinedVariables);
+
+  readonly resolvedYaml = computed(() => this.serializer.serializeToYaml(this.resolvedConfig()));
+
+  readonly resolvedGraph = computed<GraphData>(() => this.parser.configToGraph(this.resolvedConfig()));
+
+  /** Undefined-variable warnings followed by validation of the resolved config */
+  readonly resolvedIssues = computed<ValidationIssue[]>(() => [
+    ...this.undefinedVariables().map(key => ({
+      severity: 'warning' as const,
+      message: `Variable "${key}" is not defined in "${this.activeEnvironment().name}" and has no default`,
+      autoFixable: false,
+    })),
+    ...this.validator.validate(this.resolvedConfig()),
+  ]);
+
+  /** The graph to display: resolved when previewing, otherwise the config as written */
+  readonly displayedGraph = computed<GraphData>(() =>
+    this._previewEnabled() ? this.resolvedGraph() : this.state.graphData(),
+  );
+
+  setPreviewEnabled(enabled: boolean): void {
+    this._previewEnabled.set(enabled);
+  }
+
+  setActiveEnvironment(name: string): void {
+    if (!this._environments().some(e => e.name === name)) return;
+    this._activeName.set(name);
+    this.saveToStorage();
+  }
+
+  /**
+   * Add an environment, copying the active environment's values.
+   * Returns false if the name is empty or already taken.
+   */
+  addEnvironment(name: string): boolean {
+    const trimmed = name.trim();
+    if (!trimmed || this._environments().some(e => e.name === trimmed)) return false;
+
+    const variables = { ...this.activeEnvironment().variables };
+    this._environments.update(envs => [...envs, { name: trimmed, variables }]);
+    this._activeName.set(trimmed);
+    this.saveToStorage();
+    return true;
+  }
+
+  removeEnvironment(name: string): void {
+    const remaining = this._environments().filter(e => e.name !== name);
+    if (remaining.length === 0) return; // always keep one environment
+
+    this._environments.set(remaining);
+    if (this._activeName() === name) {
+      this._activeName.set(remaining[0].name);
+    }
+    this.saveToStorage();
+  }
+
+  /**
+   * Set a variable in the active environment. An empty value removes it,
+   * so the reference falls back to its default again.
+   */
+  setVariable(key: string, value: string): void {
+    const active = this.activeEnvironment().name;
+    this._environments.update(envs =>
+      envs.map(env => {
+        if (env.name !== active) return env;
+        const variables = { ...env.variables };
+        if (value === '') {
+          delete variables[key];
+        } else {
+          variables[key] = value;
+        }
+        return { ...env, variables };
+      }),
+    );
+    this.saveToStorage();
+  }
+
+  private loadFromStorage(): StoredEnvironments {
+    const fallback: StoredEnvironments = { environments: DEFAULT_ENVIRONMENTS, active: DEFAULT_ENVIRONMENTS[0].name };
+    if (typeof window === 'undefined' || !window.localStorage) {
+      return fallback;
+    }
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.STORAGE_KEY) ?? 'null') as StoredEnvironments | null;
+      return stored && Array.isArray(stored.environments) && stored.environments.length > 0 ? stored : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private saveToStorage(): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const stored: StoredEnvironments = { environments: this._environments(), active: this._activeName() };
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(stored));
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { Injectable, effect, inject, signal } from '@angular/core';
+import { Router } from '@angular/router';
+import { SignalType } from '../models';
+import { GRAPH_FILTER_PARAMS, GraphFilter, graphFilterParams, parseGraphFilter } from '../utils/graph-filter';
+
+/**
+ * How the graph is drawn: one node per component in type columns, or one
+ * swimlane per pipeline.
+ */
+export type GraphViewMode = 'components' | 'pipelines';
+
+/**
+ * View settings of the config graph that other panels can read and change.
+ * Pipeline isolation and the signal filter are mirrored in the URL query
+ * (`?pipelines=traces,logs&signals=traces`) so a link reproduces the view.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class GraphViewService {
+  private readonly STORAGE_KEY = 'otel-viewer-graph-view';
+
+  private readonly router = inject(Router);
+
+  private readonly initialFilter = this.loadFilterFromUrl();
+  private readonly _viewMode = signal<GraphViewMode>(this.loadViewModeFromStorage());
+  private readonly _isolatedPipelines = signal<string[]>(this.initialFilter.pipelines);
+  private readonly _signalFilter = signal<SignalType[]>(this.initialFilter.signals);
+
+  readonly viewMode = this._viewMode.asReadonly();
+
+  /** Pipelines whose nodes and edges are emphasized (everything else is dimmed); empty for none */
+  readonly isolatedPipelines = this._isolatedPipelines.asReadonly();
+
+  /** Signals whose pipelines are shown; empty shows all */
+  readonly signalFilter = this._signalFilter.asReadonly();
+
+  constructor() {
+    effect(() => {
+      this.router.navigate([], {
+        queryParams: this.filterParams(),
+        queryParamsHandling: 'merge',
+        preserveFragment: true,
+        replaceUrl: true,
+      });
+    });
+  }
+
+  /** Query parameters reproducing the isolation and signal filter (null for unset ones) */
+  filterParams(): Record<string, string | null> {
+    return graphFilterParams({ pipelines: this._isolatedPipelines(), signals: this._signalFilter() });
+  }
+
+  setViewMode(mode: GraphViewMode): void {
+    this._viewMode.set(mode);
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(this.STORAGE_KEY, mode);
+    }
+  }
+
+  /** Add a pipeline to the isolated set, or remove it if it is already isolated */
+  togglePipeline(pipelineId: string): void {
+    this._isolatedPipelines.update(ids =>
+      ids.includes(pipelineId) ? ids.filter(id => id !== pipelineId) : [...ids, pipelineId],
+    );
+  }
+
+  /** Isolate only this pipeline, or clear the isolation if it is the only one isolated */
+  isolatePipeline(pipelineId: string): void {
+    this._isolatedPipelines.update(ids => (ids.length === 1 && ids[0] === pipelineId ? [] : [pipelineId]));
+  }
+
+  clearIsolation(): void {
+    this._isolatedPipelines.set([]);
+  }
+
+  toggleSignal(signalType: SignalType): void {
+    this._signalFilter.update(signals =>
+      signals.includes(signalType) ? signals.filter(s => s !== signalType) : [...signals, signalType],
+    );
+  }
+
+  clearSignalFilter(): void {
+    this._signalFilter.set([]);
+  }
+
+  private loadFilterFromUrl(): GraphFilter {
+    if (typeof window === 'undefined') {
+      return parseGraphFilter(null, null);
+    }
+    // Read the address bar directly: the router may not have parsed it yet
+    const params = new URLSearchParams(window.location.search);
+    return parseGraphFilter(params.get(GRAPH_FILTER_PARAMS.pipelines), params.get(GRAPH_FILTER_PARAMS.signals));
+  }
+
+  private loadViewModeFromStorage(): GraphViewMode {
+    if (typeof window === 'undefined' || !window.localStorage) {
+      return 'components';
+    }
+    return localStorage.getItem(this.STORAGE_KEY) === 'pipelines' ? 'pipelines' : 'components';
+  }
+}
@@ -6,6 +6,9 @@ export * from './config-serializer.service';
 export * from './config-state.service';
 export * from './config-url.service';
 export * from './config-validator.service';
+export * from './config-lint.service';
+export * from './environment.service';
+export * from './config-diff.service';
 export * from './theme.service';
 export * from './component-library.service';
 export * from './component-registry.service';
@@ -0,0 +1,132 @@
+import { Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
+import { NodePosition, NodePositions } from '../models';
+import { extractLayoutComment, parseLayout, serializeLayoutFile, withLayoutComment } from '../utils/graph-layout';
+import { ConfigStateService } from './config-state.service';
+
+interface StoredLayout {
+  positions: NodePositions;
+  updatedAt: number;
+}
+
+/**
+ * Manually placed graph node positions, kept per config (see
+ * ConfigStateService.configKey) and persisted in localStorage.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LayoutService {
+  private readonly STORAGE_KEY = 'otel-viewer-layouts';
+  /** Layouts of the most recently edited configs that are kept */
+  private readonly MAX_STORED_LAYOUTS = 25;
+
+  private readonly state = inject(ConfigStateService);
+
+  private readonly _layouts = signal<Record<string, StoredLayout>>(this.loadFromStorage());
+  private readonly _revision = signal(0);
+
+  /** Manual positions of the current config's nodes, by graph node ID */
+  readonly positions = computed<NodePositions>(() => this._layouts()[this.state.configKey()]?.positions ?? {});
+
+  readonly hasManualPositions = computed(() => Object.keys(this.positions()).length > 0);
+
+  /**
+   * Bumped when positions change other than by dragging a node (auto layout,
+   * import, loading a config), so the graph knows to re-render.
+   */
+  readonly revision = this._revision.asReadonly();
+
+  constructor() {
+    // A config loaded with a layout comment block brings its positions along
+    effect(() => {
+      const key = this.state.configKey();
+      untracked(() => {
+        try {
+          const embedded = extractLayoutComment(this.state.rawYaml());
+          if (embedded) this.replacePositions(key, embedded);
+        } catch {
+          // A damaged block is left for the user to fix or re-export
+        }
+        this._revision.update(r => r + 1);
+      });
+    });
+  }
+
+  setPosition(nodeId: string, position: NodePosition): void {
+    this.replacePositions(this.state.configKey(), { ...this.positions(), [nodeId]: position });
+  }
+
+  /** Forget the manual positions of some nodes, so they go back to the automatic layout */
+  removePositions(nodeIds: string[]): void {
+    const positions = { ...this.positions() };
+    for (const id of nodeIds) delete positions[id];
+    this.replacePositions(this.state.configKey(), positions);
+  }
+
+  /** Drop all manual positions of the current config */
+  autoLayout(): void {
+    this.replacePositions(this.state.configKey(), {});
+    this._revision.update(r => r + 1);
+  }
+
+  /** Contents of a layout sidecar file for the current config */
+  exportLayoutFile(): string {
+    return serializeLayoutFile(this.positions());
+  }
+
+  /** The current YAML with the positions embedded as a comment block */
+  yamlWithLayout(): string {
+    return withLayoutComment(this.state.rawYaml(), this.positions());
+  }
+
+  /**
+   * Apply positions from a layout sidecar file or a YAML config with a
+   * layout comment block. Returns the number of positions imported.
+   *
+   * @throws LayoutFormatError if `text` contains no layout
+   */
+  importLayout(text: string): number {
+    const positions = parseLayout(text);
+    this.replacePositions(this.state.configKey(), positions);
+    this._revision.update(r => r + 1);
+    return Object.keys(positions).length;
+  }
+
+  private replacePositions(key: string, positions: NodePositions): void {
+    this._layouts.update(layouts => {
+      const updated = { ...layouts };
+      if (Object.keys(positions).length === 0) {
+        delete updated[key];
+      } else {
+        updated[key] = { positions, updatedAt: Date.now() };
+      }
+      return this.pruneOldest(updated);
+    });
+    this.saveToStorage(this._layouts());
+  }
+
+  private pruneOldest(layouts: Record<string, StoredLayout>): Record<string, StoredLayout> {
+    const entries = Object.entries(layouts);
+    if (entries.length <= this.MAX_STORED_LAYOUTS) return layouts;
+    entries.sort(([, a], [, b]) => b.updatedAt - a.updatedAt);
+    return Object.fromEntries(entries.slice(0, this.MAX_STORED_LAYOUTS));
+  }
+
+  private loadFromStorage(): Record<string, StoredLayout> {
+    if (typeof window === 'undefined' || !window.localStorage) {
+      return {};
+    }
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.STORAGE_KEY) ?? '{}');
+      return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private saveToStorage(layouts: Record<string, StoredLayout>): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(layouts));
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { RedactionChoice, RedactionMatch, RedactionRule } from '../models';
+import { DEFAULT_REDACTION_RULES, findSecrets, redactYaml } from '../utils/redaction';
+
+interface StoredRedactionSettings {
+  disabledRules: string[];
+  customRules: RedactionRule[];
+  overrides: Record<string, RedactionChoice>;
+}
+
+/**
+ * Finds and replaces secrets in a config before it leaves the browser (share
+ * links, exports). Built-in rules can be switched off, custom rules added,
+ * and the replacement chosen per value; all of it is kept in localStorage.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RedactionService {
+  private readonly STORAGE_KEY = 'otel-viewer-redaction';
+
+  private readonly stored = this.loadFromStorage();
+  private readonly _disabledRules = signal<ReadonlySet<string>>(new Set(this.stored.disabledRules));
+  private readonly _customRules = signal<RedactionRule[]>(this.stored.customRules);
+  private readonly _overrides = signal<Record<string, RedactionChoice>>(this.stored.overrides);
+
+  /** Built-in rules followed by custom ones, with their current enabled state */
+  readonly rules = computed<RedactionRule[]>(() => [
+    ...DEFAULT_REDACTION_RULES.map(rule => ({ ...rule, enabled: !this._disabledRules().has(rule.id) })),
+    ...this._customRules(),
+  ]);
+
+  /** Replacement chosen per value, by match `pathKey`, where it differs from the rule's */
+  readonly overrides = this._overrides.asReadonly();
+
+  findSecrets(yamlText: string): RedactionMatch[] {
+    return findSecrets(yamlText, this.rules());
+  }
+
+  /** Redact `matches` in the YAML, applying the per-value overrides */
+  redact(yamlText: string, matches: RedactionMatch[]): string {
+    return redactYaml(yamlText, matches, this._overrides());
+  }
+
+  /** The replacement that will be used for a match */
+  choiceFor(match: RedactionMatch): RedactionChoice {
+    return this._overrides()[match.pathKey] ?? match.replacement;
+  }
+
+  /** Choose the replacement of one value; choosing the rule's default removes the override */
+  setChoice(match: RedactionMatch, choice: RedactionChoice): void {
+    this._overrides.update(overrides => {
+      const updated = { ...overrides };
+      if (choice === match.replacement) {
+        delete updated[match.pathKey];
+      } else {
+        updated[match.pathKey] = choice;
+      }
+      return updated;
+    });
+    this.saveToStorage();
+  }
+
+  setRuleEnabled(ruleId: string, enabled: boolean): void {
+    if (DEFAULT_REDACTION_RULES.some(rule => rule.id === ruleId)) {
+      const disabled = new Set(this._disabledRules());
+      if (enabled) {
+        disabled.delete(ruleId);
+      } else {
+        disabled.add(ruleId);
+      }
+      this._disabledRules.set(disabled);
+    } else {
+      this._customRules.update(rules => rules.map(rule => (rule.id === ruleId ? { ...rule, enabled } : rule)));
+    }
+    this.saveToStorage();
+  }
+
+  /** Add a custom rule; its ID is derived from the patterns */
+  addRule(rule: Pick<RedactionRule, 'keyPattern' | 'valuePattern' | 'replacement'>): void {
+    const existing = new Set(this.rules().map(r => r.id));
+    let id = 'custom-1';
+    for (let n = 2; existing.has(id); n++) id = `custom-${n}`;
+
+    const description = [
+      rule.keyPattern ? `key ~ /${rule.keyPattern}/` : '',
+      rule.valuePattern ? `value ~ /${rule.valuePattern}/` : '',
+    ].filter(Boolean).join(' or ');
+
+    this._customRules.update(rules => [...rules, { ...rule, id, description, enabled: true }]);
+    this.saveToStorage();
+  }
+
+  removeRule(ruleId: string): void {
+    this._customRules.update(rules => rules.filter(rule => rule.id !== ruleId));
+    this.saveToStorage();
+  }
+
+  private loadFromStorage(): StoredRedactionSettings {
+    const empty: StoredRedactionSettings = { disabledRules: [], customRules: [], overrides: {} };
+    if (typeof window === 'undefined' || !window.localStorage) {
+      return empty;
+    }
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.STORAGE_KEY) ?? '{}');
+      return {
+        disabledRules: Array.isArray(stored.disabledRules) ? stored.disabledRules : [],
+        customRules: Array.isArray(stored.customRules) ? stored.customRules : [],
+        overrides: stored.overrides && typeof stored.overrides === 'object' ? stored.overrides : {},
+      };
+    } catch {
+      return empty;
+    }
+  }
+
+  private saveToStorage(): void {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      const settings: StoredRedactionSettings = {
+        disabledRules: [...this._disabledRules()],
+        customRules: this._customRules(),
+        overrides: this._overrides(),
+      };
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { signal } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { WorkspaceEntry } from '../models';
+import { WorkspaceDb } from '../utils/workspace-db';
+import { ComponentRegistryService } from './component-registry.service';
+import { ConfigStateService } from './config-state.service';
+import { WorkspaceService } from './workspace.service';
+
+describe('WorkspaceService', () => {
+  const goodYaml = `receivers:
+  otlp:
+exporters:
+  debug:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      exporters: [debug]
+`;
+  const badYaml = `receivers:
+  otlp:
+    protocols: [grpc
+exporters:
+  debug:
+`;
+
+  const entry = (id: string, yaml: string, createdAt: number): WorkspaceEntry =>
+    ({ id, name: id, yaml, files: [], createdAt, updatedAt: createdAt });
+
+  let stored: WorkspaceEntry[];
+  let activeId: string;
+
+  const setUp = async () => {
+    vi.spyOn(WorkspaceDb, 'isSupported').mockReturnValue(true);
+    vi.spyOn(WorkspaceDb.prototype, 'getEntries').mockImplementation(async () => stored);
+    vi.spyOn(WorkspaceDb.prototype, 'getMeta').mockImplementation(async <T>(key: string) =>
+      (key === 'activeId' ? activeId : undefined) as T | undefined);
+    vi.spyOn(WorkspaceDb.prototype, 'putEntry').mockResolvedValue(undefined);
+    vi.spyOn(WorkspaceDb.prototype, 'putMeta').mockResolvedValue(undefined);
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: ComponentRegistryService, useValue: { catalog: signal([]), findEntry: () => undefined } }],
+    });
+    const workspace = TestBed.inject(WorkspaceService);
+    await vi.waitFor(() => expect(workspace.restored()).toBe(true));
+    TestBed.tick();
+    return { workspace, state: TestBed.inject(ConfigStateService) };
+  };
+
+  const savedYaml = (workspace: WorkspaceService, id: string) => workspace.entries().find(e => e.id === id)?.yaml;
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it('reopens a tab whose YAML does not parse without overwriting it', async () => {
+    stored = [entry('good', goodYaml, 1), entry('bad', badYaml, 2)];
+    activeId = 'bad';
+
+    const { workspace, state } = await setUp();
+
+    expect(workspace.activeId()).toBe('bad');
+    expect(state.rawYaml()).toBe(badYaml);
+    expect(state.errors().length).toBeGreaterThan(0);
+    expect(savedYaml(workspace, 'bad')).toBe(badYaml);
+  });
+
+  it('keeps both tabs intact when switching to and from unparseable YAML', async () => {
+    stored = [entry('good', goodYaml, 1), entry('bad', badYaml, 2)];
+    activeId = 'good';
+
+    const { workspace, state } = await setUp();
+    expect(state.rawYaml()).toBe(goodYaml);
+
+    workspace.switchTo('bad');
+    TestBed.tick();
+    expect(state.rawYaml()).toBe(badYaml);
+    expect(state.config().receivers).toEqual([]);
+
+    workspace.switchTo('good');
+    TestBed.tick();
+    expect(state.rawYaml()).toBe(goodYaml);
+
+    expect(savedYaml(workspace, 'good')).toBe(goodYaml);
+    expect(savedYaml(workspace, 'bad')).toBe(badYaml);
+  });
+});
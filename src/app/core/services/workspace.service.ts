@@ -0,0 +1,259 @@
+import { Injectable, computed, effect, inject, signal, untracked } from '@angular/core';
+import { ConfigFile, RecentFile, WorkspaceEntry } from '../models';
+import { WorkspaceDb } from '../utils/workspace-db';
+import { neighborId, pushRecent, uniqueName } from '../utils/workspace';
+import { ConfigStateService } from './config-state.service';
+
+/**
+ * Named configs kept in IndexedDB and shown as tabs. The active tab is what
+ * ConfigStateService holds; its edits are saved back to the workspace
+ * automatically, and the active tab is reopened after a reload.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class WorkspaceService {
+  private readonly AUTOSAVE_DELAY_MS = 500;
+  private readonly ACTIVE_KEY = 'activeId';
+  private readonly RECENT_KEY = 'recentFiles';
+
+  private readonly state = inject(ConfigStateService);
+  private readonly db = WorkspaceDb.isSupported() ? new WorkspaceDb() : null;
+
+  private readonly _entries = signal<WorkspaceEntry[]>([]);
+  private readonly _activeId = signal<string | null>(null);
+  private readonly _recentFiles = signal<RecentFile[]>([]);
+  private readonly _restored = signal(false);
+  private readonly _saving = signal(false);
+
+  /** Tabs, in the order they were created */
+  readonly entries = this._entries.asReadonly();
+
+  readonly activeId = this._activeId.asReadonly();
+
+  readonly activeEntry = computed(() => this._entries().find(e => e.id === this._activeId()) ?? null);
+
+  /** Files and links opened into the workspace, most recent first */
+  readonly recentFiles = this._recentFiles.asReadonly();
+
+  /** False until the stored workspace has been read */
+  readonly restored = this._restored.asReadonly();
+
+  /** True while edits are waiting to be written to IndexedDB */
+  readonly saving = this._saving.asReadonly();
+
+  /** Whether the workspace is persisted (IndexedDB is available) */
+  readonly persistent = this.db !== null;
+
+  private readonly dirtyIds = new Set<string>();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextIdSuffix = 0;
+
+  constructor() {
+    this.restore();
+
+    // Autosave: copy every change of the config into the active tab, inside
+    // its Kubernetes/Helm wrapper if it had one
+    effect(() => {
+      const yaml = this.documentYaml();
+      const files = this.state.files();
+      const production = this.state.production();
+      if (this._restored() && yaml !== null) {
+        untracked(() => this.captureCurrent(yaml, files, production));
+      }
+    });
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => this.flush());
+    }
+  }
+
+  /**
+   * Open a config in a new tab and add it to the recent files. A layered
+   * config passes its source `files` (`yaml` is then ignored).
+   */
+  open(name: string, yaml: string, files: ConfigFile[] = []): void {
+    const entry = this.addEntry(name, yaml, files);
+    this._recentFiles.update(recent =>
+      pushRecent(recent, { name, entryId: entry.id, yaml, files, openedAt: Date.now() }),
+    );
+    this.db?.putMeta(this.RECENT_KEY, this._recentFiles()).catch(error => this.logError(error));
+    this.activate(entry);
+  }
+
+  /** Open an empty tab */
+  newConfig(): void {
+    this.activate(this.addEntry('Untitled', '', []));
+  }
+
+  switchTo(id: string): void {
+    const entry = this._entries().find(e => e.id === id);
+    if (entry && id !== this._activeId()) this.activate(entry);
+  }
+
+  duplicate(id: string): void {
+    const entry = this._entries().find(e => e.id === id);
+    if (entry) this.activate(this.addEntry(`${entry.name} copy`, entry.yaml, entry.files, entry.production));
+  }
+
+  rename(id: string, name: string): void {
+    const taken = this._entries().filter(e => e.id !== id).map(e => e.name);
+    this.updateEntry(id, { name: uniqueName(name, taken) });
+  }
+
+  /** Tag a config as running in production, so validation also flags early-stability components */
+  setProduction(id: string, production: boolean): void {
+    this.updateEntry(id, { production });
+    if (id === this._activeId()) this.state.setProduction(production);
+  }
+
+  /** Close a tab, deleting its config from the workspace */
+  close(id: string): void {
+    const next = neighborId(this._entries().map(e => e.id), id);
+    this._entries.update(entries => entries.filter(e => e.id !== id));
+    this.dirtyIds.delete(id);
+    this.db?.deleteEntry(id).catch(error => this.logError(error));
+
+    if (id !== this._activeId()) return;
+    const nextEntry = this._entries().find(e => e.id === next);
+    if (nextEntry) {
+      this.activate(nextEntry);
+    } else {
+      this.setActiveId(null);
+      this.state.reset();
+      this.state.setProduction(false);
+    }
+  }
+
+  /** Reopen a recent file: switch to its tab, or open it again if that tab was closed */
+  openRecent(file: RecentFile): void {
+    if (this._entries().some(e => e.id === file.entryId)) {
+      this.switchTo(file.entryId);
+    } else {
+      this.open(file.name, file.yaml, file.files);
+    }
+  }
+
+  /** Write pending edits now instead of after the autosave delay */
+  flush(): void {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+
+    const writes = [...this.dirtyIds]
+      .map(id => this._entries().find(e => e.id === id))
+      .filter((entry): entry is WorkspaceEntry => !!entry)
+      .map(entry => this.db?.putEntry(entry));
+    this.dirtyIds.clear();
+
+    Promise.all(writes)
+      .catch(error => this.logError(error))
+      .finally(() => this._saving.set(this.dirtyIds.size > 0));
+  }
+
+  private async restore(): Promise<void> {
+    if (!this.db) {
+      this._restored.set(true);
+      return;
+    }
+    try {
+      const [entries, activeId, recent] = await Promise.all([
+        this.db.getEntries(),
+        this.db.getMeta<string>(this.ACTIVE_KEY),
+        this.db.getMeta<RecentFile[]>(this.RECENT_KEY),
+      ]);
+      entries.sort((a, b) => a.createdAt - b.createdAt);
+
+      // Tabs opened before the workspace was read (e.g. from a share link) stay open
+      this._entries.update(opened => [...entries, ...opened.filter(o => !entries.some(e => e.id === o.id))]);
+      this._recentFiles.update(opened => [...opened, ...(recent ?? [])]);
+
+      const active = entries.find(e => e.id === activeId) ?? entries[0];
+      if (active && this._activeId() === null && !this.state.hasConfig()) {
+        this.activate(active);
+      }
+    } catch (error) {
+      this.logError(error);
+    } finally {
+      this._restored.set(true);
+    }
+  }
+
+  private activate(entry: WorkspaceEntry): void {
+    this.setActiveId(entry.id);
+    this.state.setProduction(entry.production ?? false);
+    const key = `workspace:${entry.id}`;
+    if (entry.files.length > 0) {
+      // The saved yaml keeps edits made to the merged result
+      this.state.loadFiles(entry.files, key, entry.yaml);
+    } else if (entry.yaml) {
+      this.state.loadYaml(entry.yaml, key);
+    } else {
+      this.state.reset(key);
+    }
+    this.state.clearSelection();
+  }
+
+  /**
+   * Store the current config in the active tab. Content typed before any tab
+   * exists gets a new "Untitled" tab, so it survives a reload.
+   */
+  private captureCurrent(yaml: string, files: ConfigFile[], production: boolean): void {
+    const active = this.activeEntry();
+    if (!active) {
+      if (yaml.trim() || files.length > 0) {
+        this.setActiveId(this.addEntry('Untitled', yaml, files, production).id);
+      }
+      return;
+    }
+    if (
+      active.yaml === yaml &&
+      JSON.stringify(active.files) === JSON.stringify(files) &&
+      (active.production ?? false) === production
+    ) return;
+    this.updateEntry(active.id, { yaml, files, production });
+  }
+
+  /** The config as it should be saved, or null while a wrapped config doesn't parse */
+  private documentYaml(): string | null {
+    try {
+      return this.state.wrapYaml(this.state.rawYaml());
+    } catch {
+      return null;
+    }
+  }
+
+  private addEntry(name: string, yaml: string, files: ConfigFile[], production = false): WorkspaceEntry {
+    const now = Date.now();
+    const entry: WorkspaceEntry = {
+      id: `${now.toString(36)}-${(this.nextIdSuffix++).toString(36)}`,
+      name: uniqueName(name, this._entries().map(e => e.name)),
+      yaml,
+      files,
+      production,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this._entries.update(entries => [...entries, entry]);
+    this.db?.putEntry(entry).catch(error => this.logError(error));
+    return entry;
+  }
+
+  private updateEntry(id: string, changes: Partial<Pick<WorkspaceEntry, 'name' | 'yaml' | 'files' | 'production'>>): void {
+    this._entries.update(entries =>
+      entries.map(e => (e.id === id ? { ...e, ...changes, updatedAt: Date.now() } : e)),
+    );
+    this.dirtyIds.add(id);
+    this._saving.set(true);
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => this.flush(), this.AUTOSAVE_DELAY_MS);
+  }
+
+  private setActiveId(id: string | null): void {
+    this._activeId.set(id);
+    this.db?.putMeta(this.ACTIVE_KEY, id).catch(error => this.logError(error));
+  }
+
+  private logError(error: unknown): void {
+    console.error('Failed to save the workspace:', error);
+  }
+}
@@ -0,0 +1,373 @@
+import { ComponentType } from '../models/otel-config.model';
+import { ComponentSchema, ConfigFieldSchema } from '../models/component-schema.model';
+
+// ─── Shared Building Blocks ─────────────────────────────────────
+
+const STRING: ConfigFieldSchema = { type: 'string' };
+const BOOLEAN: ConfigFieldSchema = { type: 'boolean' };
+const DURATION: ConfigFieldSchema = { type: 'duration' };
+const NON_NEGATIVE_INT: ConfigFieldSchema = { type: 'integer', minimum: 0 };
+const STRING_LIST: ConfigFieldSchema = { type: 'array', items: STRING };
+
+/** Settings objects we don't model in detail (auth, keepalive, legacy filters, ...) */
+const OPEN_OBJECT: ConfigFieldSchema = { type: 'object', additionalProperties: true };
+
+const ERROR_MODE: ConfigFieldSchema = { type: 'string', enum: ['ignore', 'silent', 'propagate'] };
+
+const TLS_SERVER: ConfigFieldSchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    cert_file: STRING,
+    key_file: STRING,
+    ca_file: STRING,
+    client_ca_file: STRING,
+    min_version: STRING,
+    max_version: STRING,
+    reload_interval: DURATION,
+  },
+};
+
+const TLS_CLIENT: ConfigFieldSchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    insecure: BOOLEAN,
+    insecure_skip_verify: BOOLEAN,
+    server_name_override: STRING,
+    cert_file: STRING,
+    key_file: STRING,
+    ca_file: STRING,
+    min_version: STRING,
+    max_version: STRING,
+  },
+};
+
+const GRPC_SERVER: ConfigFieldSchema = {
+  type: 'object',
+  properties: {
+    endpoint: { type: 'endpoint', description: 'Address to listen on (host:port)' },
+    transport: { type: 'string', enum: ['tcp', 'tcp4', 'tcp6', 'udp', 'udp4', 'udp6', 'unix', 'unixgram', 'unixpacket'] },
+    tls: TLS_SERVER,
+    max_recv_msg_size_mib: { type: 'number', minimum: 0 },
+    max_concurrent_streams: NON_NEGATIVE_INT,
+    read_buffer_size: NON_NEGATIVE_INT,
+    write_buffer_size: NON_NEGATIVE_INT,
+    keepalive: OPEN_OBJECT,
+    auth: OPEN_OBJECT,
+    include_metadata: BOOLEAN,
+  },
+};
+
+const HTTP_SERVER: ConfigFieldSchema = {
+  type: 'object',
+  properties: {
+    endpoint: { type: 'endpoint', description: 'Address to listen on (host:port)' },
+    tls: TLS_SERVER,
+    cors: {
+      type: 'object',
+      properties: {
+        allowed_origins: STRING_LIST,
+        allowed_headers: STRING_LIST,
+        max_age: NON_NEGATIVE_INT,
+      },
+    },
+    auth: OPEN_OBJECT,
+    max_request_body_size: NON_NEGATIVE_INT,
+    include_metadata: BOOLEAN,
+    response_headers: { type: 'map', values: STRING },
+    compression_algorithms: STRING_LIST,
+    read_timeout: DURATION,
+    read_header_timeout: DURATION,
+    write_timeout: DURATION,
+    idle_timeout: DURATION,
+    keep_alives_enabled: BOOLEAN,
+    traces_url_path: STRING,
+    metrics_url_path: STRING,
+    logs_url_path: STRING,
+  },
+};
+
+const SENDING_QUEUE: ConfigFieldSchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    enabled: BOOLEAN,
+    num_consumers: { type: 'integer', minimum: 1 },
+    queue_size: { type: 'integer', minimum: 1 },
+    storage: STRING,
+    blocking: BOOLEAN,
+    sizer: { type: 'string', enum: ['requests', 'items', 'bytes'] },
+  },
+};
+
+const RETRY_ON_FAILURE: ConfigFieldSchema = {
+  type: 'object',
+  properties: {
+    enabled: BOOLEAN,
+    initial_interval: DURATION,
+    randomization_factor: { type: 'number', minimum: 0 },
+    multiplier: { type: 'number', minimum: 0 },
+    max_interval: DURATION,
+    max_elapsed_time: DURATION,
+  },
+};
+
+/** An entry of the `attributes` / `actions` lists used by the resource and attributes processors */
+const ATTRIBUTE_ACTION: ConfigFieldSchema = {
+  type: 'object',
+  requireOneOf: ['key', 'pattern'],
+  properties: {
+    key: STRING,
+    action: {
+      type: 'string',
+      required: true,
+      enum: ['insert', 'update', 'upsert', 'delete', 'hash', 'extract', 'convert'],
+    },
+    value: { type: 'any' },
+    from_attribute: STRING,
+    from_context: STRING,
+    pattern: STRING,
+    converted_type: { type: 'string', enum: ['int', 'double', 'string'] },
+  },
+};
+
+// ─── Component Schemas ──────────────────────────────────────────
+
+/**
+ * Config schemas for the most common collector components.
+ * Components without a schema are not checked.
+ */
+export const COMPONENT_SCHEMAS: readonly ComponentSchema[] = [
+  {
+    componentType: 'receiver',
+    type: 'otlp',
+    config: {
+      type: 'object',
+      properties: {
+        protocols: {
+          type: 'object',
+          required: true,
+          requireOneOf: ['grpc', 'http'],
+          properties: { grpc: GRPC_SERVER, http: HTTP_SERVER },
+        },
+      },
+    },
+  },
+  {
+    componentType: 'receiver',
+    type: 'prometheus',
+    config: {
+      type: 'object',
+      properties: {
+        config: {
+          type: 'object',
+          required: true,
+          additionalProperties: true,
+          properties: {
+            scrape_configs: {
+              type: 'array',
+              items: {
+                type: 'object',
+                additionalProperties: true,
+                properties: { job_name: { type: 'string', required: true }, scrape_interval: DURATION },
+              },
+            },
+            scrape_config_files: STRING_LIST,
+            global: OPEN_OBJECT,
+          },
+        },
+        target_allocator: OPEN_OBJECT,
+        api_server: OPEN_OBJECT,
+        trim_metric_suffixes: BOOLEAN,
+        use_start_time_metric: BOOLEAN,
+        start_time_metric_regex: STRING,
+        report_extra_scrape_metrics: BOOLEAN,
+      },
+    },
+  },
+  {
+    componentType: 'processor',
+    type: 'batch',
+    config: {
+      type: 'object',
+      properties: {
+        timeout: { type: 'duration', description: 'Time after which a batch is sent regardless of size' },
+        send_batch_size: { type: 'integer', minimum: 0, description: 'Number of items that triggers a send' },
+        send_batch_max_size: { type: 'integer', minimum: 0, description: 'Upper bound on batch size (0 = no limit)' },
+        metadata_keys: STRING_LIST,
+        metadata_cardinality_limit: NON_NEGATIVE_INT,
+      },
+    },
+  },
+  {
+    componentType: 'processor',
+    type: 'memory_limiter',
+    config: {
+      type: 'object',
+      requireOneOf: ['limit_mib', 'limit_percentage'],
+      properties: {
+        check_interval: { type: 'duration', required: true, description: 'How often memory usage is checked' },
+        limit_mib: { type: 'integer', minimum: 0, description: 'Hard memory limit in MiB' },
+        spike_limit_mib: { type: 'integer', minimum: 0 },
+        limit_percentage: { type: 'integer', minimum: 0 },
+        spike_limit_percentage: { type: 'integer', minimum: 0 },
+        min_gc_interval_when_soft_limited: DURATION,
+        min_gc_interval_when_hard_limited: DURATION,
+      },
+    },
+  },
+  {
+    componentType: 'processor',
+    type: 'resource',
+    config: {
+      type: 'object',
+      properties: {
+        attributes: { type: 'array', required: true, items: ATTRIBUTE_ACTION },
+      },
+    },
+  },
+  {
+    componentType: 'processor',
+    type: 'attributes',
+    config: {
+      type: 'object',
+      properties: {
+        actions: { type: 'array', required: true, items: ATTRIBUTE_ACTION },
+        include: OPEN_OBJECT,
+        exclude: OPEN_OBJECT,
+      },
+    },
+  },
+  {
+    componentType: 'processor',
+    type: 'filter',
+    config: {
+      type: 'object',
+      properties: {
+        error_mode: ERROR_MODE,
+        traces: {
+          type: 'object',
+          properties: { span: STRING_LIST, spanevent: STRING_LIST },
+        },
+        metrics: {
+          type: 'object',
+          properties: { metric: STRING_LIST, datapoint: STRING_LIST, include: OPEN_OBJECT, exclude: OPEN_OBJECT },
+        },
+        logs: {
+          type: 'object',
+          properties: { log_record: STRING_LIST, include: OPEN_OBJECT, exclude: OPEN_OBJECT },
+        },
+        spans: {
+          type: 'object',
+          properties: { include: OPEN_OBJECT, exclude: OPEN_OBJECT },
+        },
+      },
+    },
+  },
+  {
+    componentType: 'processor',
+    type: 'transform',
+    config: {
+      type: 'object',
+      properties: {
+        error_mode: ERROR_MODE,
+        trace_statements: { type: 'array', items: { type: 'any' } },
+        metric_statements: { type: 'array', items: { type: 'any' } },
+        log_statements: { type: 'array', items: { type: 'any' } },
+        flatten_data: BOOLEAN,
+      },
+    },
+  },
+  {
+    componentType: 'exporter',
+    type: 'otlp',
+    config: {
+      type: 'object',
+      properties: {
+        endpoint: { type: 'url', required: true, description: 'Target to send data to (host:port or URL)' },
+        tls: TLS_CLIENT,
+        headers: { type: 'map', values: STRING },
+        compression: { type: 'string', enum: ['gzip', 'zstd', 'snappy', 'none', ''] },
+        timeout: DURATION,
+        sending_queue: SENDING_QUEUE,
+        retry_on_failure: RETRY_ON_FAILURE,
+        balancer_name: STRING,
+        authority: STRING,
+        auth: OPEN_OBJECT,
+        keepalive: OPEN_OBJECT,
+        batcher: OPEN_OBJECT,
+        read_buffer_size: NON_NEGATIVE_INT,
+        write_buffer_size: NON_NEGATIVE_INT,
+        wait_for_ready: BOOLEAN,
+      },
+    },
+  },
+  {
+    componentType: 'exporter',
+    type: 'debug',
+    config: {
+      type: 'object',
+      properties: {
+        verbosity: { type: 'string', enum: ['basic', 'normal', 'detailed'], description: 'Amount of detail printed' },
+        sampling_initial: NON_NEGATIVE_INT,
+        sampling_thereafter: NON_NEGATIVE_INT,
+        use_internal_logger: BOOLEAN,
+      },
+    },
+  },
+  {
+    componentType: 'exporter',
+    type: 'prometheus',
+    config: {
+      type: 'object',
+      properties: {
+        endpoint: { type: 'endpoint', required: true, description: 'Address the metrics are served on' },
+        namespace: STRING,
+        const_labels: { type: 'map', values: STRING },
+        send_timestamps: BOOLEAN,
+        metric_expiration: DURATION,
+        resource_to_telemetry_conversion: { type: 'object', properties: { enabled: BOOLEAN } },
+        enable_open_metrics: BOOLEAN,
+        add_metric_suffixes: BOOLEAN,
+        translation_strategy: STRING,
+        without_scope_info: BOOLEAN,
+        tls: TLS_SERVER,
+      },
+    },
+  },
+  {
+    componentType: 'extension',
+    type: 'health_check',
+    config: {
+      type: 'object',
+      properties: {
+        endpoint: { type: 'endpoint', description: 'Address to serve health checks on' },
+        path: STRING,
+        tls: TLS_SERVER,
+        cors: OPEN_OBJECT,
+        auth: OPEN_OBJECT,
+        include_metadata: BOOLEAN,
+        response_headers: { type: 'map', values: STRING },
+        response_body: OPEN_OBJECT,
+        check_collector_pipeline: {
+          type: 'object',
+          properties: {
+            enabled: BOOLEAN,
+            interval: DURATION,
+            exporter_failure_threshold: NON_NEGATIVE_INT,
+          },
+        },
+        http: OPEN_OBJECT,
+        grpc: OPEN_OBJECT,
+      },
+    },
+  },
+];
+
+/**
+ * Find the config schema for a component, if one is known.
+ */
+export function findComponentSchema(componentType: ComponentType, type: string): ComponentSchema | undefined {
+  return COMPONENT_SCHEMAS.find(s => s.componentType === componentType && s.type === type);
+}
@@ -0,0 +1,123 @@
+import { TestBed } from '@angular/core/testing';
+import { ConfigParserService } from '../services/config-parser.service';
+import { buildDiffGraph, diffConfigs, mergeSequences } from './config-diff';
+
+describe('config-diff', () => {
+  let parser: ConfigParserService;
+
+  beforeEach(() => {
+    parser = TestBed.inject(ConfigParserService);
+  });
+
+  const before = `
+receivers:
+  otlp:
+    protocols:
+      grpc:
+        endpoint: 0.0.0.0:4317
+processors:
+  batch:
+    timeout: 5s
+  filter:
+exporters:
+  debug:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      processors: [filter, batch]
+      exporters: [debug]
+    logs:
+      receivers: [otlp]
+      exporters: [debug]
+`;
+
+  const after = `
+receivers:
+  otlp:
+    protocols:
+      grpc:
+        endpoint: 0.0.0.0:4317
+      http:
+processors:
+  batch:
+    timeout: 10s
+exporters:
+  debug:
+  otlp/backend:
+    endpoint: backend:4317
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      processors: [batch]
+      exporters: [otlp/backend]
+`;
+
+  it('should list added, removed and changed components with per-key changes', () => {
+    const diff = diffConfigs(parser.parseYaml(before), parser.parseYaml(after));
+
+    expect(diff.components.map(c => [c.kind, c.componentType, c.id])).toEqual([
+      ['changed', 'receiver', 'otlp'],
+      ['removed', 'processor', 'filter'],
+      ['changed', 'processor', 'batch'],
+      ['added', 'exporter', 'otlp/backend'],
+    ]);
+    expect(diff.components[0].valueChanges).toEqual([{ kind: 'added', path: ['protocols', 'http'], after: null }]);
+    expect(diff.components[2].valueChanges).toEqual([
+      { kind: 'changed', path: ['timeout'], before: '5s', after: '10s' },
+    ]);
+  });
+
+  it('should list pipelines whose component lists changed', () => {
+    const diff = diffConfigs(parser.parseYaml(before), parser.parseYaml(after));
+
+    expect(diff.pipelines).toEqual([
+      { kind: 'removed', id: 'logs', roleChanges: [] },
+      {
+        kind: 'changed',
+        id: 'traces',
+        roleChanges: [
+          { role: 'processors', before: ['filter', 'batch'], after: ['batch'] },
+          { role: 'exporters', before: ['debug'], after: ['otlp/backend'] },
+        ],
+      },
+    ]);
+  });
+
+  it('should report no changes for identical configs', () => {
+    expect(diffConfigs(parser.parseYaml(before), parser.parseYaml(before))).toEqual({ components: [], pipelines: [] });
+  });
+
+  it('should overlay removed nodes and edges on the new graph', () => {
+    const beforeConfig = parser.parseYaml(before);
+    const afterConfig = parser.parseYaml(after);
+    const graph = buildDiffGraph(
+      parser.configToGraph(beforeConfig),
+      parser.configToGraph(afterConfig),
+      diffConfigs(beforeConfig, afterConfig),
+    );
+    const status = (id: string) => graph.nodes.find(n => n.id === id)?.diffStatus;
+
+    expect(status('receiver/otlp')).toBe('changed');
+    expect(status('exporter/otlp/backend')).toBe('added');
+    expect(status('processor/filter@traces')).toBe('removed');
+    expect(status('processor/batch@traces')).toBe('changed');
+    expect(status('exporter/debug')).toBeUndefined();
+
+    // The removed filter keeps its place in front of batch
+    expect(graph.nodes.find(n => n.id === 'processor/filter@traces')?.chainIndex).toBe(0);
+    expect(graph.nodes.find(n => n.id === 'processor/batch@traces')?.chainIndex).toBe(1);
+
+    const edge = (id: string) => graph.edges.find(e => e.id === id)?.diffStatus;
+    expect(edge('traces:processor/batch@traces->exporter/otlp/backend')).toBe('added');
+    expect(edge('traces:processor/batch@traces->exporter/debug')).toBe('removed');
+    expect(edge('logs:receiver/otlp->exporter/debug')).toBe('removed');
+  });
+
+  it('should merge sequences keeping the order of both', () => {
+    expect(mergeSequences(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual(['a', 'b', 'x', 'c']);
+    expect(mergeSequences([], ['a'])).toEqual(['a']);
+    expect(mergeSequences(['a', 'b'], ['b', 'a'])).toEqual(['a', 'b', 'a']);
+  });
+});
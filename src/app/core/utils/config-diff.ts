@@ -0,0 +1,184 @@
+import {
+  ComponentChange,
+  ConfigDiff,
+  ConfigValueChange,
+  PipelineChange,
+  PipelineRoleChange,
+} from '../models/config-diff.model';
+import {
+  ALL_SECTION_KEYS,
+  GraphData,
+  GraphNode,
+  OtelConfig,
+  PIPELINE_ROLES,
+} from '../models/otel-config.model';
+
+/**
+ * Compare two configs structurally: components by section and ID, pipelines
+ * by ID and role lists, and component settings key by key.
+ */
+export function diffConfigs(before: OtelConfig, after: OtelConfig): ConfigDiff {
+  const components: ComponentChange[] = [];
+
+  for (const section of ALL_SECTION_KEYS) {
+    const beforeById = new Map(before[section].map(c => [c.id, c]));
+    const afterById = new Map(after[section].map(c => [c.id, c]));
+
+    for (const [id, component] of beforeById) {
+      if (!afterById.has(id)) {
+        components.push({ kind: 'removed', componentType: component.componentType, id, valueChanges: [] });
+      }
+    }
+    for (const [id, component] of afterById) {
+      const previous = beforeById.get(id);
+      if (!previous) {
+        components.push({ kind: 'added', componentType: component.componentType, id, valueChanges: [] });
+        continue;
+      }
+      const valueChanges = diffValues(previous.config, component.config);
+      if (valueChanges.length > 0) {
+        components.push({ kind: 'changed', componentType: component.componentType, id, valueChanges });
+      }
+    }
+  }
+
+  const pipelines: PipelineChange[] = [];
+  const beforePipelines = new Map(before.service.pipelines.map(p => [p.id, p]));
+  const afterPipelines = new Map(after.service.pipelines.map(p => [p.id, p]));
+
+  for (const id of beforePipelines.keys()) {
+    if (!afterPipelines.has(id)) pipelines.push({ kind: 'removed', id, roleChanges: [] });
+  }
+  for (const [id, pipeline] of afterPipelines) {
+    const previous = beforePipelines.get(id);
+    if (!previous) {
+      pipelines.push({ kind: 'added', id, roleChanges: [] });
+      continue;
+    }
+    const roleChanges: PipelineRoleChange[] = PIPELINE_ROLES
+      .filter(role => !sameList(previous[role], pipeline[role]))
+      .map(role => ({ role, before: previous[role], after: pipeline[role] }));
+    if (roleChanges.length > 0) {
+      pipelines.push({ kind: 'changed', id, roleChanges });
+    }
+  }
+
+  return { components, pipelines };
+}
+
+/**
+ * Key-by-key differences between two config values. Maps are compared
+ * recursively; lists and scalars are compared as a whole.
+ */
+export function diffValues(before: unknown, after: unknown, path: (string | number)[] = []): ConfigValueChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: ConfigValueChange[] = [];
+    for (const key of Object.keys(before)) {
+      if (!(key in after)) changes.push({ kind: 'removed', path: [...path, key], before: before[key] });
+    }
+    for (const key of Object.keys(after)) {
+      if (key in before) {
+        changes.push(...diffValues(before[key], after[key], [...path, key]));
+      } else {
+        changes.push({ kind: 'added', path: [...path, key], after: after[key] });
+      }
+    }
+    return changes;
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after) ? [] : [{ kind: 'changed', path, before, after }];
+}
+
+/**
+ * Overlay a diff on the "after" graph: nodes and edges that only exist in the
+ * "before" graph are added back as `removed`, new ones are marked `added`, and
+ * nodes of components whose settings changed are marked `changed`. Processor
+ * chains are re-indexed so removed processors keep their place in the lane.
+ */
+export function buildDiffGraph(before: GraphData, after: GraphData, diff: ConfigDiff): GraphData {
+  const beforeNodeIds = new Set(before.nodes.map(n => n.id));
+  const afterNodeIds = new Set(after.nodes.map(n => n.id));
+  const changedComponents = new Set(
+    diff.components.filter(c => c.kind === 'changed').map(c => `${c.componentType}/${c.id}`),
+  );
+
+  const nodes: GraphNode[] = [
+    ...after.nodes.map(node => ({
+      ...node,
+      diffStatus: !beforeNodeIds.has(node.id)
+        ? ('added' as const)
+        : changedComponents.has(`${node.componentType}/${node.component.id}`)
+          ? ('changed' as const)
+          : undefined,
+    })),
+    ...before.nodes.filter(node => !afterNodeIds.has(node.id)).map(node => ({ ...node, diffStatus: 'removed' as const })),
+  ];
+
+  // Re-index processor chains over the union of both versions of each pipeline
+  const pipelineIds = new Set(nodes.filter(n => n.pipelineId).map(n => n.pipelineId!));
+  for (const pipelineId of pipelineIds) {
+    const merged = mergeSequences(processorChain(before, pipelineId), processorChain(after, pipelineId));
+    for (const node of nodes) {
+      if (node.pipelineId === pipelineId) node.chainIndex = merged.indexOf(node.component.id);
+    }
+  }
+
+  const beforeEdgeIds = new Set(before.edges.map(e => e.id));
+  const afterEdgeIds = new Set(after.edges.map(e => e.id));
+  const edges = [
+    ...after.edges.map(edge => ({ ...edge, diffStatus: beforeEdgeIds.has(edge.id) ? undefined : ('added' as const) })),
+    ...before.edges.filter(edge => !afterEdgeIds.has(edge.id)).map(edge => ({ ...edge, diffStatus: 'removed' as const })),
+  ];
+
+  return { nodes, edges };
+}
+
+/**
+ * Merge two ordered lists into one that keeps the relative order of both
+ * (their longest common subsequence appears once).
+ */
+export function mergeSequences(before: string[], after: string[]): string[] {
+  // lcs[i][j] = length of the LCS of before[i..] and after[j..]
+  const lcs = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const merged: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      merged.push(before[i]);
+      i++;
+      j++;
+    } else if (j >= after.length || (i < before.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      merged.push(before[i++]);
+    } else {
+      merged.push(after[j++]);
+    }
+  }
+  return merged;
+}
+
+/** Format a key path for display, e.g. protocols.grpc.endpoint or actions[0].key */
+export function formatChangePath(path: (string | number)[]): string {
+  return path.map((segment, i) => (typeof segment === 'number' ? `[${segment}]` : i > 0 ? `.${segment}` : segment)).join('');
+}
+
+function processorChain(graph: GraphData, pipelineId: string): string[] {
+  return graph.nodes
+    .filter(n => n.pipelineId === pipelineId)
+    .sort((a, b) => (a.chainIndex ?? 0) - (b.chainIndex ?? 0))
+    .map(n => n.component.id);
+}
+
+function sameList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((item, i) => item === b[i]);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,85 @@
+import { findComponentSchema } from './component-schemas';
+import {
+  buildConfigForm,
+  defaultFieldValue,
+  fieldKind,
+  objectKeyOptions,
+  parseFieldInput,
+  removeConfigValue,
+  setConfigValue,
+} from './config-form';
+
+describe('config-form', () => {
+  const otlpSchema = findComponentSchema('receiver', 'otlp')!.config;
+  const batchSchema = findComponentSchema('processor', 'batch')!.config;
+
+  it('should flatten nested objects into rows with schema-based kinds', () => {
+    const fields = buildConfigForm(
+      { protocols: { grpc: { endpoint: '0.0.0.0:4317' }, http: null } },
+      otlpSchema,
+    );
+
+    expect(fields.map(f => [f.path.join('.'), f.depth, f.kind])).toEqual([
+      ['protocols', 0, 'object'],
+      ['protocols.grpc', 1, 'object'],
+      ['protocols.grpc.endpoint', 2, 'string'],
+      ['protocols.http', 1, 'object'],
+    ]);
+    expect(fields[1].missingKeys).toContain('transport');
+    expect(fields[1].allowsCustomKeys).toBe(false);
+  });
+
+  it('should pick inputs from the schema and fall back to the value type', () => {
+    const timeout = batchSchema.properties!['timeout'];
+
+    expect(fieldKind('5s', timeout)).toBe('duration');
+    expect(fieldKind(null, batchSchema.properties!['send_batch_size'])).toBe('number');
+    expect(fieldKind(['a', 'b'], batchSchema.properties!['metadata_keys'])).toBe('list');
+    expect(fieldKind('${env:TIMEOUT}', timeout)).toBe('string');
+    // Wrong type in the config: edit it as what it is
+    expect(fieldKind(10, timeout)).toBe('number');
+    expect(fieldKind(true)).toBe('boolean');
+    expect(fieldKind('10s')).toBe('duration');
+    expect(fieldKind([{ key: 'a' }])).toBe('yaml');
+  });
+
+  it('should list the schema keys that can still be added', () => {
+    expect(objectKeyOptions({ timeout: '5s' }, batchSchema).missingKeys).toEqual([
+      'send_batch_size',
+      'send_batch_max_size',
+      'metadata_keys',
+      'metadata_cardinality_limit',
+    ]);
+    expect(objectKeyOptions({}, batchSchema).allowsCustomKeys).toBe(false);
+    expect(objectKeyOptions({}).allowsCustomKeys).toBe(true);
+  });
+
+  it('should parse typed input and reject invalid values', () => {
+    expect(parseFieldInput('number', ' 512 ')).toEqual({ value: 512 });
+    expect(parseFieldInput('number', 'abc')).toEqual({ error: 'Must be a number' });
+    expect(parseFieldInput('duration', '1m30s')).toEqual({ value: '1m30s' });
+    expect('error' in parseFieldInput('duration', '5 seconds')).toBe(true);
+    expect(parseFieldInput('number', '${env:BATCH_SIZE}')).toEqual({ value: '${env:BATCH_SIZE}' });
+    expect(parseFieldInput('yaml', '- key: a\n  action: delete')).toEqual({ value: [{ key: 'a', action: 'delete' }] });
+    expect('error' in parseFieldInput('yaml', 'a: [')).toBe(true);
+  });
+
+  it('should default new keys by schema type', () => {
+    expect(defaultFieldValue(batchSchema.properties!['send_batch_size'])).toBe(0);
+    expect(defaultFieldValue(batchSchema.properties!['metadata_keys'])).toEqual([]);
+    expect(defaultFieldValue(otlpSchema.properties!['protocols'])).toEqual({});
+    expect(defaultFieldValue()).toBe('');
+  });
+
+  it('should set and remove nested values without mutating the input', () => {
+    const config = { protocols: { grpc: null, http: { endpoint: ':4318' } } };
+
+    const set = setConfigValue(config, ['protocols', 'grpc', 'endpoint'], ':4317');
+    expect(set).toEqual({ protocols: { grpc: { endpoint: ':4317' }, http: { endpoint: ':4318' } } });
+
+    const removed = removeConfigValue(set, ['protocols', 'http']);
+    expect(removed).toEqual({ protocols: { grpc: { endpoint: ':4317' } } });
+
+    expect(config).toEqual({ protocols: { grpc: null, http: { endpoint: ':4318' } } });
+  });
+});
@@ -0,0 +1,216 @@
+import * as yaml from 'js-yaml';
+import { ConfigFieldSchema } from '../models/component-schema.model';
+import { ConfigFormField, ConfigFormFieldKind } from '../models/config-form.model';
+import { containsEnvReference, isValidDuration } from './config-schema';
+
+const SCALAR_SCHEMA_TYPES = new Set(['string', 'integer', 'number', 'boolean', 'duration', 'endpoint', 'url', 'any']);
+
+/** Result of reading a form input: the typed value, or why it was rejected */
+export type ParsedFieldInput = { value: unknown } | { error: string };
+
+/**
+ * Flatten a component config into form rows, depth first. Nested objects get
+ * a row of their own followed by rows for their keys.
+ */
+export function buildConfigForm(config: Record<string, unknown>, schema?: ConfigFieldSchema): ConfigFormField[] {
+  const fields: ConfigFormField[] = [];
+  addObjectFields(fields, config, schema, []);
+  return fields;
+}
+
+/**
+ * Keys that can be added to an object: those its schema knows but that aren't
+ * set yet, and whether arbitrary keys are accepted as well.
+ */
+export function objectKeyOptions(
+  value: unknown,
+  schema?: ConfigFieldSchema,
+): Pick<ConfigFormField, 'missingKeys' | 'allowsCustomKeys'> {
+  const existing = isPlainObject(value) ? value : {};
+  const properties = schema?.type === 'object' ? schema.properties : undefined;
+
+  return {
+    missingKeys: Object.keys(properties ?? {}).filter(key => !(key in existing)),
+    allowsCustomKeys: !properties || schema?.additionalProperties === true,
+  };
+}
+
+/**
+ * Pick the input for a value. The schema decides when it agrees with the
+ * value's actual type; otherwise the kind is inferred from the value, so a
+ * misconfigured key can still be edited (and fixed).
+ */
+export function fieldKind(value: unknown, schema?: ConfigFieldSchema): ConfigFormFieldKind {
+  // `${env:VAR}` references stay plain text whatever the expected type
+  if (containsEnvReference(value)) return 'string';
+
+  const fromSchema = schema ? schemaKind(schema) : null;
+  if (fromSchema && (value === null || value === undefined || matchesKind(value, fromSchema))) {
+    return fromSchema;
+  }
+  return value === null || value === undefined ? 'object' : inferKind(value);
+}
+
+/**
+ * Read the text typed into a field of the given kind.
+ */
+export function parseFieldInput(kind: ConfigFormFieldKind, text: string): ParsedFieldInput {
+  const trimmed = text.trim();
+  if (containsEnvReference(trimmed) && kind !== 'yaml') return { value: trimmed };
+
+  switch (kind) {
+    case 'number': {
+      const value = Number(trimmed);
+      return trimmed !== '' && Number.isFinite(value) ? { value } : { error: 'Must be a number' };
+    }
+    case 'duration':
+      return isValidDuration(trimmed) ? { value: trimmed } : { error: 'Must be a duration like 5s, 250ms or 1m30s' };
+    case 'boolean':
+      return trimmed === 'true' || trimmed === 'false' ? { value: trimmed === 'true' } : { error: 'Must be true or false' };
+    case 'yaml':
+      try {
+        return { value: yaml.load(text) ?? null };
+      } catch (error) {
+        return { error: error instanceof Error ? error.message.split('\n')[0] : 'Invalid YAML' };
+      }
+    default:
+      return { value: text };
+  }
+}
+
+/**
+ * Read one list item, typed by the list's item schema (numbers stay numbers).
+ */
+export function parseListItem(text: string, itemSchema?: ConfigFieldSchema): ParsedFieldInput {
+  const kind = itemSchema ? schemaKind(itemSchema) : null;
+  return kind === 'number' || kind === 'boolean' || kind === 'duration'
+    ? parseFieldInput(kind, text)
+    : { value: text };
+}
+
+/** Initial value for a newly added key */
+export function defaultFieldValue(schema?: ConfigFieldSchema): unknown {
+  switch (schema?.type) {
+    case 'integer':
+    case 'number':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return [];
+    case 'object':
+    case 'map':
+      return {};
+    default:
+      return schema?.enum?.[0] ?? '';
+  }
+}
+
+/**
+ * Return a copy of `config` with the value at `path` replaced. Missing (or
+ * null) parent objects are created on the way.
+ */
+export function setConfigValue(config: Record<string, unknown>, path: string[], value: unknown): Record<string, unknown> {
+  const [key, ...rest] = path;
+  if (rest.length === 0) return { ...config, [key]: value };
+
+  const child = isPlainObject(config[key]) ? config[key] : {};
+  return { ...config, [key]: setConfigValue(child, rest, value) };
+}
+
+/**
+ * Return a copy of `config` without the key at `path`.
+ */
+export function removeConfigValue(config: Record<string, unknown>, path: string[]): Record<string, unknown> {
+  const [key, ...rest] = path;
+  if (rest.length === 0) {
+    const remaining = { ...config };
+    delete remaining[key];
+    return remaining;
+  }
+
+  const child = config[key];
+  return isPlainObject(child) ? { ...config, [key]: removeConfigValue(child, rest) } : config;
+}
+
+/** Schema of the value stored under `key` of an object or map */
+export function childSchema(schema: ConfigFieldSchema | undefined, key: string): ConfigFieldSchema | undefined {
+  if (schema?.type === 'object') return schema.properties?.[key];
+  if (schema?.type === 'map') return schema.values;
+  return undefined;
+}
+
+function addObjectFields(
+  fields: ConfigFormField[],
+  value: Record<string, unknown>,
+  schema: ConfigFieldSchema | undefined,
+  path: string[],
+): void {
+  for (const [key, child] of Object.entries(value)) {
+    const keySchema = childSchema(schema, key);
+    const keyPath = [...path, key];
+    const kind = fieldKind(child, keySchema);
+
+    fields.push({
+      path: keyPath,
+      key,
+      depth: path.length,
+      kind,
+      value: child,
+      schema: keySchema,
+      ...(kind === 'object' ? objectKeyOptions(child, keySchema) : { missingKeys: [], allowsCustomKeys: false }),
+    });
+
+    if (kind === 'object' && isPlainObject(child)) {
+      addObjectFields(fields, child, keySchema, keyPath);
+    }
+  }
+}
+
+function schemaKind(schema: ConfigFieldSchema): ConfigFormFieldKind | null {
+  switch (schema.type) {
+    case 'string':
+    case 'endpoint':
+    case 'url':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'duration':
+      return 'duration';
+    case 'array':
+      return !schema.items || SCALAR_SCHEMA_TYPES.has(schema.items.type) ? 'list' : 'yaml';
+    case 'object':
+    case 'map':
+      return 'object';
+    default:
+      return null;
+  }
+}
+
+function inferKind(value: unknown): ConfigFormFieldKind {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'string') return value !== '0' && isValidDuration(value) ? 'duration' : 'string';
+  if (Array.isArray(value)) return value.every(item => item === null || typeof item !== 'object') ? 'list' : 'yaml';
+  if (isPlainObject(value)) return 'object';
+  return 'yaml';
+}
+
+function matchesKind(value: unknown, kind: ConfigFormFieldKind): boolean {
+  switch (kind) {
+    case 'string':
+    case 'duration':
+      return typeof value === 'string';
+    case 'yaml':
+      return true;
+    default:
+      return inferKind(value) === kind;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,75 @@
+import * as yaml from 'js-yaml';
+import { ConfigMergeError, mergeConfigFiles, mergeValues } from './config-merge';
+
+describe('config-merge', () => {
+  const base = `
+receivers:
+  otlp:
+    protocols:
+      grpc:
+        endpoint: 0.0.0.0:4317
+exporters:
+  debug:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      exporters: [debug]
+`;
+
+  const overlay = `
+receivers:
+  otlp:
+    protocols:
+      http:
+        endpoint: 0.0.0.0:4318
+exporters:
+  otlp/backend:
+    endpoint: backend:4317
+service:
+  pipelines:
+    traces:
+      exporters: [otlp/backend]
+`;
+
+  it('should merge maps and replace lists', () => {
+    expect(mergeValues({ a: { b: 1, c: [1, 2] } }, { a: { c: [3], d: 2 } })).toEqual({ a: { b: 1, c: [3], d: 2 } });
+  });
+
+  it('should merge files in order', () => {
+    const { yaml: merged } = mergeConfigFiles([
+      { name: 'base.yaml', content: base },
+      { name: 'prod.yaml', content: overlay },
+    ]);
+
+    expect(yaml.load(merged)).toEqual({
+      receivers: {
+        otlp: { protocols: { grpc: { endpoint: '0.0.0.0:4317' }, http: { endpoint: '0.0.0.0:4318' } } },
+      },
+      exporters: { debug: null, 'otlp/backend': { endpoint: 'backend:4317' } },
+      service: { pipelines: { traces: { receivers: ['otlp'], exporters: ['otlp/backend'] } } },
+    });
+  });
+
+  it('should record which files contributed each component and pipeline', () => {
+    const { provenance } = mergeConfigFiles([
+      { name: 'base.yaml', content: base },
+      { name: 'prod.yaml', content: overlay },
+    ]);
+
+    expect(provenance.components.receivers).toEqual({ otlp: ['base.yaml', 'prod.yaml'] });
+    expect(provenance.components.exporters).toEqual({ debug: ['base.yaml'], 'otlp/backend': ['prod.yaml'] });
+    expect(provenance.pipelines).toEqual({ traces: ['base.yaml', 'prod.yaml'] });
+  });
+
+  it('should name the file that failed to parse', () => {
+    const merge = () =>
+      mergeConfigFiles([
+        { name: 'base.yaml', content: base },
+        { name: 'broken.yaml', content: 'receivers: [otlp' },
+      ]);
+
+    expect(merge).toThrow(ConfigMergeError);
+    expect(merge).toThrow(/^broken\.yaml: /);
+  });
+});
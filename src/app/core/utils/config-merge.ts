@@ -0,0 +1,95 @@
+import * as yaml from 'js-yaml';
+import { ConfigFile, ConfigProvenance } from '../models/config-source.model';
+import { ALL_SECTION_KEYS } from '../models/otel-config.model';
+
+export class ConfigMergeError extends Error {
+  constructor(
+    public readonly fileName: string,
+    public readonly originalError: unknown,
+  ) {
+    const reason = originalError instanceof Error ? originalError.message : String(originalError);
+    super(`${fileName}: ${reason}`);
+    this.name = 'ConfigMergeError';
+  }
+}
+
+export interface MergeResult {
+  yaml: string;
+  provenance: ConfigProvenance;
+}
+
+/**
+ * Deep-merge config files in order, the way the collector merges multiple
+ * `--config` sources: maps are merged key by key, while lists and scalars
+ * from later files replace earlier values.
+ *
+ * @throws ConfigMergeError if a file is not valid YAML or not a map
+ */
+export function mergeConfigFiles(files: ConfigFile[]): MergeResult {
+  let merged: Record<string, unknown> = {};
+  const provenance = createEmptyProvenance();
+
+  for (const file of files) {
+    let raw: unknown;
+    try {
+      raw = yaml.load(file.content);
+    } catch (error) {
+      throw new ConfigMergeError(file.name, error);
+    }
+    if (raw === null || raw === undefined) continue;
+    if (!isPlainObject(raw)) {
+      throw new ConfigMergeError(file.name, 'the top level must be a map');
+    }
+
+    recordProvenance(raw, file.name, provenance);
+    merged = mergeValues(merged, raw) as Record<string, unknown>;
+  }
+
+  return {
+    yaml: Object.keys(merged).length > 0 ? yaml.dump(merged, { indent: 2, lineWidth: 120, noRefs: true }) : '',
+    provenance,
+  };
+}
+
+/**
+ * Merge `overlay` onto `base`: maps merge recursively, anything else replaces.
+ */
+export function mergeValues(base: unknown, overlay: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(overlay)) {
+    return overlay;
+  }
+
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    result[key] = key in base ? mergeValues(base[key], value) : value;
+  }
+  return result;
+}
+
+export function createEmptyProvenance(): ConfigProvenance {
+  const components = Object.fromEntries(ALL_SECTION_KEYS.map(section => [section, {}])) as ConfigProvenance['components'];
+  return { components, pipelines: {} };
+}
+
+function recordProvenance(raw: Record<string, unknown>, fileName: string, provenance: ConfigProvenance): void {
+  const record = (target: Record<string, string[]>, id: string) => {
+    target[id] = [...(target[id] ?? []), fileName];
+  };
+
+  for (const section of ALL_SECTION_KEYS) {
+    const components = raw[section];
+    if (isPlainObject(components)) {
+      Object.keys(components).forEach(id => record(provenance.components[section], id));
+    }
+  }
+
+  const service = raw['service'];
+  const pipelines = isPlainObject(service) ? service['pipelines'] : undefined;
+  if (isPlainObject(pipelines)) {
+    Object.keys(pipelines).forEach(id => record(provenance.pipelines, id));
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,73 @@
+import { isValidDuration, isValidEndpoint, isValidUrl, validateConfigValue } from './config-schema';
+
+describe('config-schema', () => {
+  describe('isValidDuration', () => {
+    it('should accept Go durations', () => {
+      for (const value of ['5s', '1m30s', '250ms', '1.5h', '0', '100us']) {
+        expect(isValidDuration(value)).toBe(true);
+      }
+    });
+
+    it('should reject invalid durations', () => {
+      for (const value of ['5x', '5', 's', '1 m', '']) {
+        expect(isValidDuration(value)).toBe(false);
+      }
+    });
+  });
+
+  describe('isValidEndpoint', () => {
+    it('should accept host:port addresses', () => {
+      for (const value of ['0.0.0.0:4317', 'localhost:8888', ':4318', '[::1]:4317', 'tempo:4317']) {
+        expect(isValidEndpoint(value)).toBe(true);
+      }
+    });
+
+    it('should reject addresses without a valid port', () => {
+      for (const value of ['0.0.0.0', 'localhost:http', '0.0.0.0:70000', 'http://localhost:4318']) {
+        expect(isValidEndpoint(value)).toBe(false);
+      }
+    });
+  });
+
+  describe('isValidUrl', () => {
+    it('should accept URLs and host:port addresses', () => {
+      expect(isValidUrl('https://api.example.com')).toBe(true);
+      expect(isValidUrl('tempo:4317')).toBe(true);
+      expect(isValidUrl('tempo')).toBe(false);
+    });
+  });
+
+  describe('validateConfigValue', () => {
+    it('should accept env references for any type', () => {
+      expect(validateConfigValue('${env:BATCH_SIZE}', { type: 'integer' })).toEqual([]);
+    });
+
+    it('should treat null objects as empty', () => {
+      const violations = validateConfigValue(null, {
+        type: 'object',
+        properties: { endpoint: { type: 'endpoint', required: true } },
+      });
+
+      expect(violations).toEqual([{ path: [], message: 'missing required key "endpoint"' }]);
+    });
+
+    it('should report paths into lists', () => {
+      const violations = validateConfigValue(
+        { actions: [{ key: 'env', action: 'insertt' }] },
+        {
+          type: 'object',
+          properties: {
+            actions: {
+              type: 'array',
+              items: { type: 'object', properties: { key: { type: 'string' }, action: { type: 'string', enum: ['insert'] } } },
+            },
+          },
+        },
+      );
+
+      expect(violations).toEqual([
+        { path: ['actions', 0, 'action'], message: 'actions[0].action must be one of "insert", got "insertt"' },
+      ]);
+    });
+  });
+});
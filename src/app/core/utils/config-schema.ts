@@ -0,0 +1,163 @@
+import { ConfigFieldSchema, SchemaViolation } from '../models/component-schema.model';
+
+const DURATION_PATTERN = /^[-+]?((\d+(\.\d*)?|\.\d+)(ns|us|µs|μs|ms|s|m|h))+$/;
+const HOST_PORT_PATTERN = /^(\[[0-9a-fA-F:.]+\]|[^\s:/[\]]*):(\d{1,5})$/;
+const URL_PATTERN = /^[a-zA-Z][a-zA-Z0-9+.-]*:\/\/\S+$/;
+
+/**
+ * Whether a value contains a config provider reference such as `${env:VAR}`.
+ * These are resolved by the collector at startup, so their final value
+ * cannot be checked here.
+ */
+export function containsEnvReference(value: unknown): boolean {
+  return typeof value === 'string' && value.includes('${');
+}
+
+/**
+ * Whether a string is a valid Go duration (e.g. '5s', '1m30s', '250ms', '0').
+ */
+export function isValidDuration(value: string): boolean {
+  return value === '0' || DURATION_PATTERN.test(value);
+}
+
+/**
+ * Whether a string is a valid `host:port` listen address.
+ * The host may be empty (':4317'), a hostname, an IPv4 address or a bracketed IPv6 address.
+ */
+export function isValidEndpoint(value: string): boolean {
+  const match = HOST_PORT_PATTERN.exec(value);
+  return !!match && Number(match[2]) <= 65535;
+}
+
+/**
+ * Whether a string is a valid exporter target: a URL with a scheme or `host:port`.
+ */
+export function isValidUrl(value: string): boolean {
+  return URL_PATTERN.test(value) || isValidEndpoint(value);
+}
+
+/**
+ * Validate a config value against a schema and return every violation found.
+ * `null` values are treated as "unset" (and as an empty object for object schemas),
+ * and strings containing `${...}` references are accepted for any type.
+ */
+export function validateConfigValue(
+  value: unknown,
+  schema: ConfigFieldSchema,
+  path: (string | number)[] = [],
+): SchemaViolation[] {
+  if (containsEnvReference(value)) return [];
+
+  if (value === null || value === undefined) {
+    return schema.type === 'object' ? validateObject({}, schema, path) : [];
+  }
+
+  const label = path.length > 0 ? formatPath(path) : 'config';
+  const violation = (message: string): SchemaViolation[] => [{ path, message: `${label} ${message}` }];
+
+  switch (schema.type) {
+    case 'any':
+      return [];
+
+    case 'string':
+      if (typeof value !== 'string') return violation(`must be a string, got ${describe(value)}`);
+      if (schema.enum && !schema.enum.includes(value)) {
+        return violation(`must be one of ${schema.enum.map(v => `"${v}"`).join(', ')}, got "${value}"`);
+      }
+      return [];
+
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || (schema.type === 'integer' && !Number.isInteger(value))) {
+        return violation(`must be ${schema.type === 'integer' ? 'an integer' : 'a number'}, got ${describe(value)}`);
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return violation(`must be at least ${schema.minimum}, got ${value}`);
+      }
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : violation(`must be true or false, got ${describe(value)}`);
+
+    case 'duration':
+      if (typeof value !== 'string' || !isValidDuration(value)) {
+        return violation(`must be a duration such as 5s, 1m30s or 250ms, got ${describe(value)}`);
+      }
+      return [];
+
+    case 'endpoint':
+      if (typeof value !== 'string' || !isValidEndpoint(value)) {
+        return violation(`must be a host:port address such as 0.0.0.0:4317, got ${describe(value)}`);
+      }
+      return [];
+
+    case 'url':
+      if (typeof value !== 'string' || !isValidUrl(value)) {
+        return violation(`must be a URL or host:port address, got ${describe(value)}`);
+      }
+      return [];
+
+    case 'array':
+      if (!Array.isArray(value)) return violation(`must be a list, got ${describe(value)}`);
+      return schema.items
+        ? value.flatMap((item, index) => validateConfigValue(item, schema.items!, [...path, index]))
+        : [];
+
+    case 'map':
+      if (!isPlainObject(value)) return violation(`must be a map, got ${describe(value)}`);
+      return schema.values
+        ? Object.entries(value).flatMap(([key, v]) => validateConfigValue(v, schema.values!, [...path, key]))
+        : [];
+
+    case 'object':
+      if (!isPlainObject(value)) return violation(`must be a map of settings, got ${describe(value)}`);
+      return validateObject(value, schema, path);
+  }
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: ConfigFieldSchema,
+  path: (string | number)[],
+): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const properties = schema.properties ?? {};
+  const prefix = path.length > 0 ? `${formatPath(path)}: ` : '';
+
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    if (propertySchema.required && !(key in value)) {
+      violations.push({ path, message: `${prefix}missing required key "${key}"` });
+    }
+  }
+
+  if (schema.requireOneOf && !schema.requireOneOf.some(key => key in value)) {
+    const keys = schema.requireOneOf.map(k => `"${k}"`).join(' or ');
+    violations.push({ path, message: `${prefix}one of ${keys} must be set` });
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    const propertySchema = properties[key];
+    if (propertySchema) {
+      violations.push(...validateConfigValue(child, propertySchema, [...path, key]));
+    } else if (!schema.additionalProperties) {
+      violations.push({ path: [...path, key], message: `${prefix}unknown key "${key}"` });
+    }
+  }
+
+  return violations;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.map((segment, i) => (typeof segment === 'number' ? `[${segment}]` : i > 0 ? `.${segment}` : segment)).join('');
+}
+
+function describe(value: unknown): string {
+  if (typeof value === 'string') return `"${value}"`;
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'object' && value !== null) return 'a map';
+  return String(value);
+}
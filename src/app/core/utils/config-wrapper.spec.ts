@@ -0,0 +1,94 @@
+import { parseAllDocuments } from 'yaml';
+import { ConfigWrapError, unwrapConfig, wrapConfig } from './config-wrapper';
+
+describe('config-wrapper', () => {
+  const collectorResource = `apiVersion: v1
+kind: Namespace
+metadata:
+  name: observability
+---
+apiVersion: opentelemetry.io/v1beta1
+kind: OpenTelemetryCollector
+metadata:
+  name: gateway # main gateway
+spec:
+  mode: deployment
+  config:
+    receivers:
+      otlp:
+        protocols:
+          grpc: {}
+    exporters:
+      debug: {}
+    service:
+      pipelines:
+        traces:
+          receivers: [otlp]
+          exporters: [debug]
+`;
+
+  const configMap = `apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: otel-agent
+data:
+  other.txt: hello
+  relay: |
+    receivers:
+      otlp: {}
+    exporters:
+      debug: {}
+`;
+
+  const helmValues = `mode: daemonset
+image:
+  repository: otel/opentelemetry-collector-contrib
+config:
+  receivers:
+    jaeger: null
+  exporters:
+    debug: {}
+`;
+
+  it('should extract the config of an OpenTelemetryCollector in a multi-document manifest', () => {
+    const { config, wrapper } = unwrapConfig(collectorResource);
+
+    expect(wrapper).toMatchObject({ kind: 'opentelemetry-collector', documentIndex: 1, path: ['spec', 'config'], embedding: 'map' });
+    expect(config.startsWith('receivers:\n  otlp:')).toBe(true);
+  });
+
+  it('should write an edited config back, keeping the other fields and documents', () => {
+    const { wrapper } = unwrapConfig(collectorResource);
+    const output = wrapConfig(wrapper!, 'receivers:\n  otlp: {}\nexporters:\n  otlphttp: {}\n');
+    const docs = parseAllDocuments(output).map(doc => doc.toJSON());
+
+    expect(docs[0]).toEqual({ apiVersion: 'v1', kind: 'Namespace', metadata: { name: 'observability' } });
+    expect(docs[1].spec).toEqual({ mode: 'deployment', config: { receivers: { otlp: {} }, exporters: { otlphttp: {} } } });
+    expect(output).toContain('name: gateway # main gateway');
+    expect(() => wrapConfig(wrapper!, 'receivers: [')).toThrow(ConfigWrapError);
+  });
+
+  it('should extract a ConfigMap config from a string block and keep the block style', () => {
+    const { config, wrapper } = unwrapConfig(configMap);
+
+    expect(wrapper).toMatchObject({ kind: 'config-map', path: ['data', 'relay'], embedding: 'string' });
+    expect(config).toBe('receivers:\n  otlp: {}\nexporters:\n  debug: {}\n');
+    expect(wrapConfig(wrapper!, 'exporters:\n  debug: {}\n')).toContain('  other.txt: hello\n  relay: |\n    exporters:\n      debug: {}\n');
+  });
+
+  it('should extract the config of Helm values', () => {
+    const { config, wrapper } = unwrapConfig(helmValues);
+
+    expect(wrapper).toMatchObject({ kind: 'helm-values', path: ['config'], embedding: 'map' });
+    expect(config).toContain('jaeger: null');
+  });
+
+  it('should leave plain configs and other files alone', () => {
+    const plain = 'receivers:\n  otlp: {}\nconfig: {}\n';
+    const deployment = 'apiVersion: apps/v1\nkind: Deployment\nspec:\n  replicas: 1\n';
+
+    expect(unwrapConfig(plain)).toEqual({ config: plain, wrapper: null });
+    expect(unwrapConfig(deployment)).toEqual({ config: deployment, wrapper: null });
+    expect(unwrapConfig('receivers: [').wrapper).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { Document, Node, isMap, isScalar, parseAllDocuments } from 'yaml';
+import { ConfigWrapper, ConfigWrapperKind } from '../models/config-wrapper.model';
+
+export class ConfigWrapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigWrapError';
+  }
+}
+
+export interface UnwrapResult {
+  /** The collector config (the input itself when it isn't wrapped) */
+  config: string;
+  wrapper: ConfigWrapper | null;
+}
+
+/** ConfigMap keys that usually hold the collector config, in order of preference */
+const CONFIG_MAP_KEYS = ['relay', 'collector.yaml', 'collector.yml', 'config.yaml', 'config.yml'];
+
+/** Top-level keys of a collector config */
+const COLLECTOR_SECTIONS = ['receivers', 'processors', 'exporters', 'connectors', 'extensions', 'service'];
+
+const STRINGIFY_OPTIONS = { indent: 2, lineWidth: 120, flowCollectionPadding: false };
+
+/**
+ * Extract a collector config embedded in an OpenTelemetryCollector resource
+ * (`spec.config`), a ConfigMap (`data.relay`, `data.collector.yaml`…) or Helm
+ * values (`config:`). The config may be a nested map or a string block.
+ * Anything else, including YAML that doesn't parse, is returned unchanged.
+ */
+export function unwrapConfig(yamlText: string): UnwrapResult {
+  const documents = parseAllDocuments(yamlText);
+  if (documents.some(doc => doc.errors.length > 0)) {
+    return { config: yamlText, wrapper: null };
+  }
+
+  for (let documentIndex = 0; documentIndex < documents.length; documentIndex++) {
+    const found = findEmbeddedConfig(documents[documentIndex]);
+    if (!found) continue;
+
+    const { kind, path, node } = found;
+    const embedding = isScalar(node) ? 'string' : 'map';
+    return {
+      config: isScalar(node) ? String(node.value) : nodeToYaml(node),
+      wrapper: { kind, source: yamlText, documentIndex, path, embedding },
+    };
+  }
+  return { config: yamlText, wrapper: null };
+}
+
+/**
+ * Write a collector config back into its wrapper, keeping every other field
+ * and comment of the file. Map-embedded configs are re-nested; string-embedded
+ * ones keep their block style.
+ *
+ * @throws ConfigWrapError if a map-embedded config isn't valid YAML
+ */
+export function wrapConfig(wrapper: ConfigWrapper, configYaml: string): string {
+  const documents = parseAllDocuments(wrapper.source);
+  if (!documents[wrapper.documentIndex]) {
+    throw new ConfigWrapError('The original file can no longer be read');
+  }
+  const doc = documents[wrapper.documentIndex];
+
+  if (wrapper.embedding === 'string') {
+    const node = doc.getIn(wrapper.path, true);
+    if (isScalar(node)) {
+      node.value = configYaml;
+    } else {
+      doc.setIn(wrapper.path, configYaml);
+    }
+  } else {
+    const parsed = parseAllDocuments(configYaml);
+    if (parsed.length > 1 || parsed.some(d => d.errors.length > 0)) {
+      throw new ConfigWrapError('The config is not valid YAML');
+    }
+    doc.setIn(wrapper.path, parsed[0]?.contents ?? doc.createNode({}));
+  }
+
+  return documents
+    .map((d, i) => {
+      const text = d.toString(STRINGIFY_OPTIONS);
+      return i > 0 && !text.startsWith('---') ? `---\n${text}` : text;
+    })
+    .join('');
+}
+
+interface EmbeddedConfig {
+  kind: ConfigWrapperKind;
+  path: string[];
+  node: Node;
+}
+
+function findEmbeddedConfig(doc: Document): EmbeddedConfig | null {
+  const root = doc.contents;
+  if (!isMap(root)) return null;
+  const kind = doc.get('kind');
+
+  if (kind === 'OpenTelemetryCollector') {
+    return embedded(doc, 'opentelemetry-collector', ['spec', 'config']);
+  }
+
+  if (kind === 'ConfigMap') {
+    const data = doc.get('data');
+    if (!isMap(data)) return null;
+    const keys = data.items.map(pair => String(isScalar(pair.key) ? pair.key.value : pair.key));
+    const ordered = [...CONFIG_MAP_KEYS.filter(key => keys.includes(key)), ...keys];
+    for (const key of ordered) {
+      const found = embedded(doc, 'config-map', ['data', key]);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  // Helm values have no kind, and the config is under `config:` rather than at the top level
+  if (kind === undefined && !COLLECTOR_SECTIONS.some(section => doc.has(section))) {
+    return embedded(doc, 'helm-values', ['config']);
+  }
+  return null;
+}
+
+/** The node at `path` if it holds (or is a string of) a collector config */
+function embedded(doc: Document, kind: ConfigWrapperKind, path: string[]): EmbeddedConfig | null {
+  const node = doc.getIn(path, true) as Node | undefined;
+  if (isMap(node) && looksLikeCollectorConfig(node.toJSON())) {
+    return { kind, path, node };
+  }
+  if (isScalar(node) && typeof node.value === 'string') {
+    const parsed = parseAllDocuments(node.value);
+    if (parsed.length === 1 && parsed[0].errors.length === 0
+      && looksLikeCollectorConfig(parsed[0].toJSON())) {
+      return { kind, path, node };
+    }
+  }
+  return null;
+}
+
+function looksLikeCollectorConfig(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && COLLECTOR_SECTIONS.some(section => section in value);
+}
+
+function nodeToYaml(node: Node): string {
+  const doc = new Document();
+  doc.contents = node;
+  return doc.toString(STRINGIFY_OPTIONS);
+}
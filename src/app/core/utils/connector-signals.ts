@@ -0,0 +1,48 @@
+import { SignalType } from '../models/otel-config.model';
+import { ConnectorSignalPair } from '../models/component-registry.model';
+
+const ALL_SIGNALS: SignalType[] = ['traces', 'metrics', 'logs'];
+
+/** Every signal connected to itself (traces → traces, metrics → metrics, ...) */
+const SAME_SIGNAL: ConnectorSignalPair[] = ALL_SIGNALS.map(s => ({ from: s, to: s }));
+
+/** Every signal connected to metrics (counting / aggregating connectors) */
+const ANY_TO_METRICS: ConnectorSignalPair[] = ALL_SIGNALS.map(s => ({ from: s, to: 'metrics' }));
+
+/**
+ * Built-in signal pairs for well-known connectors, taken from the `*_to_*`
+ * stability keys of their metadata.yaml. Used when the registry entry has not
+ * been enriched yet (or the catalog could not be fetched).
+ */
+export const KNOWN_CONNECTOR_SIGNAL_PAIRS: Record<string, ConnectorSignalPair[]> = {
+  forward: SAME_SIGNAL,
+  routing: SAME_SIGNAL,
+  failover: SAME_SIGNAL,
+  roundrobin: SAME_SIGNAL,
+  count: ANY_TO_METRICS,
+  sum: ANY_TO_METRICS,
+  signaltometrics: ANY_TO_METRICS,
+  spanmetrics: [{ from: 'traces', to: 'metrics' }],
+  servicegraph: [{ from: 'traces', to: 'metrics' }],
+  grafanacloud: [{ from: 'traces', to: 'metrics' }],
+  exceptions: [
+    { from: 'traces', to: 'metrics' },
+    { from: 'traces', to: 'logs' },
+  ],
+  datadog: [
+    { from: 'traces', to: 'metrics' },
+    { from: 'traces', to: 'traces' },
+  ],
+  otlpjson: [
+    { from: 'logs', to: 'traces' },
+    { from: 'logs', to: 'metrics' },
+    { from: 'logs', to: 'logs' },
+  ],
+};
+
+/**
+ * Format a list of signal pairs for display, e.g. "traces → metrics, logs → metrics".
+ */
+export function formatSignalPairs(pairs: ConnectorSignalPair[]): string {
+  return pairs.map(p => `${p.from} → ${p.to}`).join(', ');
+}
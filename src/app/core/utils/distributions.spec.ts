@@ -0,0 +1,81 @@
+import { TestBed } from '@angular/core/testing';
+import { ConfigParserService } from '../services/config-parser.service';
+import {
+  BuilderManifestError,
+  distributionIncludes,
+  generateBuilderManifest,
+  parseBuilderManifest,
+  typeFromModule,
+} from './distributions';
+
+describe('distributions', () => {
+  it('should read component types from an OCB manifest', () => {
+    const manifest = parseBuilderManifest(`dist:
+  name: otelcol-custom
+  output_path: ./otelcol-custom
+receivers:
+  - gomod: go.opentelemetry.io/collector/receiver/otlpreceiver v0.120.0
+processors:
+  - gomod: go.opentelemetry.io/collector/processor/memorylimiterprocessor v0.120.0
+  - gomod: github.com/open-telemetry/opentelemetry-collector-contrib/processor/k8sattributesprocessor v0.120.0
+extensions:
+  - gomod: github.com/open-telemetry/opentelemetry-collector-contrib/extension/oidcauthextension v0.120.0
+`);
+
+    expect(manifest.name).toBe('otelcol-custom');
+    expect(manifest.components.processors).toEqual(['memorylimiter', 'k8sattributes']);
+    expect(manifest.components.extensions).toEqual(['oidc']);
+    expect(distributionIncludes(manifest.components, 'processors', 'memory_limiter')).toBe(true);
+    expect(distributionIncludes(manifest.components, 'exporters', 'debug')).toBe(false);
+  });
+
+  it('should reject manifests without components', () => {
+    expect(() => parseBuilderManifest('dist:\n  name: empty\n')).toThrow(BuilderManifestError);
+    expect(() => parseBuilderManifest('receivers: [')).toThrow(BuilderManifestError);
+  });
+
+  it('should derive types from module paths', () => {
+    expect(typeFromModule('go.opentelemetry.io/collector/exporter/otlphttpexporter v0.120.0', 'exporter')).toBe('otlphttp');
+    expect(typeFromModule('github.com/acme/collector/receiver/acmereceiver', 'receiver')).toBe('acme');
+    expect(distributionIncludes(null, 'receivers', 'anything')).toBe(true);
+  });
+
+  it('should generate a manifest with the module path of every component used', () => {
+    const config = TestBed.inject(ConfigParserService).parseYaml(`receivers:
+  otlp:
+  k8s_cluster:
+processors:
+  memory_limiter:
+  tail_sampling:
+exporters:
+  otlp/a:
+  otlp/b:
+  acme:
+extensions:
+  oidc:
+  file_storage:
+`);
+    const catalog = [
+      { componentType: 'receiver' as const, type: 'otlp', source: 'core' as const },
+      { componentType: 'receiver' as const, type: 'k8scluster', source: 'contrib' as const },
+      { componentType: 'processor' as const, type: 'tailsampling', source: 'contrib' as const },
+      { componentType: 'extension' as const, type: 'oidcauth', source: 'contrib' as const },
+      { componentType: 'extension' as const, type: 'file_storage', source: 'contrib' as const, modulePath: 'extension/storage/filestorage' },
+    ];
+
+    const generated = generateBuilderManifest(config, catalog, { name: 'edge', version: 'v0.120.0' });
+
+    expect(generated.yaml).toContain('  name: edge\n');
+    expect(generated.yaml).toContain('  - gomod: go.opentelemetry.io/collector/receiver/otlpreceiver v0.120.0\n');
+    expect(generated.yaml).toContain('github.com/open-telemetry/opentelemetry-collector-contrib/receiver/k8sclusterreceiver v0.120.0');
+    expect(generated.yaml).toContain('go.opentelemetry.io/collector/processor/memorylimiterprocessor v0.120.0');
+    expect(generated.yaml).toContain('contrib/extension/oidcauthextension v0.120.0');
+    expect(generated.yaml).toContain('contrib/extension/storage/filestorage v0.120.0\n');
+    expect(generated.yaml.match(/otlpexporter/g)?.length).toBe(1);
+    expect(generated.unresolved).toEqual(['exporter "acme"']);
+
+    const parsed = parseBuilderManifest(generated.yaml);
+    expect(parsed.components.receivers).toEqual(['k8scluster', 'otlp']);
+    expect(parsed.components.extensions).toEqual(['filestorage', 'oidc']);
+  });
+});
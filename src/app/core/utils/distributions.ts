@@ -0,0 +1,221 @@
+import * as yaml from 'js-yaml';
+import { RegistryComponentEntry } from '../models/component-registry.model';
+import {
+  BuilderManifest,
+  BuilderManifestOptions,
+  Distribution,
+  DistributionComponents,
+  DistributionId,
+  GeneratedBuilderManifest,
+} from '../models/distribution.model';
+import { ALL_SECTION_KEYS, COMPONENT_TYPE_TO_SECTION, ComponentType, OtelConfig, SectionKey } from '../models/otel-config.model';
+import { stripComponentSuffix } from './metadata-parser';
+
+export class BuilderManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BuilderManifestError';
+  }
+}
+
+/**
+ * Official distributions, from the manifests in
+ * open-telemetry/opentelemetry-collector-releases. Custom distributions are
+ * described by an OCB manifest instead (see `parseBuilderManifest`).
+ */
+export const DISTRIBUTIONS: Record<Exclude<DistributionId, 'custom'>, Distribution> = {
+  core: {
+    id: 'core',
+    name: 'Core (otelcol)',
+    description: 'The minimal official distribution: OTLP plus a few widely used components.',
+    components: {
+      receivers: ['otlp', 'nop', 'hostmetrics', 'jaeger', 'kafka', 'prometheus', 'zipkin'],
+      processors: [
+        'batch', 'memory_limiter', 'attributes', 'filter', 'metricstransform', 'probabilistic_sampler',
+        'resource', 'span',
+      ],
+      exporters: ['debug', 'nop', 'otlp', 'otlphttp', 'file', 'kafka', 'prometheus', 'prometheusremotewrite', 'zipkin'],
+      connectors: ['forward'],
+      extensions: ['zpages', 'memory_limiter', 'health_check', 'pprof'],
+    },
+  },
+  contrib: {
+    id: 'contrib',
+    name: 'Contrib (otelcol-contrib)',
+    description: 'Every component of the core and contrib repositories.',
+    components: null,
+  },
+  k8s: {
+    id: 'k8s',
+    name: 'Kubernetes (otelcol-k8s)',
+    description: 'Components for collecting from and running on Kubernetes.',
+    components: {
+      receivers: [
+        'otlp', 'nop', 'filelog', 'hostmetrics', 'httpcheck', 'jaeger', 'journald', 'k8s_cluster', 'k8s_events',
+        'k8sobjects', 'kubeletstats', 'prometheus', 'receiver_creator', 'zipkin',
+      ],
+      processors: [
+        'batch', 'memory_limiter', 'attributes', 'cumulativetodelta', 'deltatorate', 'filter', 'groupbyattrs',
+        'groupbytrace', 'k8sattributes', 'metricstransform', 'probabilistic_sampler', 'redaction', 'resource',
+        'resourcedetection', 'tail_sampling', 'transform',
+      ],
+      exporters: ['debug', 'nop', 'otlp', 'otlphttp', 'file', 'loadbalancing'],
+      connectors: ['forward', 'routing'],
+      extensions: [
+        'zpages', 'health_check', 'pprof', 'k8s_observer', 'file_storage', 'basicauth', 'bearertokenauth',
+        'headers_setter', 'oidc', 'oauth2client',
+      ],
+    },
+  },
+};
+
+/**
+ * Component types whose module directory isn't the type with the kind suffix
+ * (e.g. `oidcauthextension` is the `oidc` extension). Underscores are ignored
+ * when matching, so `memorylimiterprocessor` needs no entry.
+ */
+const MODULE_TYPE_ALIASES: Record<string, string> = {
+  oidcauth: 'oidc',
+  oauth2clientauth: 'oauth2client',
+  asapauth: 'asapclient',
+  simpleprometheus: 'prometheus_simple',
+};
+
+/** Recent collector releases offered for generated manifests, newest first */
+export const COLLECTOR_VERSIONS = ['0.120.0', '0.119.0', '0.118.0', '0.117.0', '0.116.0'];
+
+export const DEFAULT_COLLECTOR_VERSION = COLLECTOR_VERSIONS[0];
+
+const CORE_MODULE_ROOT = 'go.opentelemetry.io/collector';
+const CONTRIB_MODULE_ROOT = 'github.com/open-telemetry/opentelemetry-collector-contrib';
+
+/** Components of the core repository, used when the registry catalog hasn't loaded */
+const CORE_REPO_COMPONENTS: DistributionComponents = {
+  receivers: ['otlp', 'nop'],
+  processors: ['batch', 'memory_limiter'],
+  exporters: ['debug', 'nop', 'otlp', 'otlphttp'],
+  connectors: ['forward'],
+  extensions: ['zpages', 'memory_limiter'],
+};
+
+const SECTION_COMPONENT_TYPES = Object.fromEntries(
+  Object.entries(COMPONENT_TYPE_TO_SECTION).map(([type, section]) => [section, type]),
+) as Record<SectionKey, ComponentType>;
+
+/**
+ * Whether a distribution includes a component type. Distributions that list
+ * no components include everything.
+ */
+export function distributionIncludes(components: DistributionComponents | null, section: SectionKey, type: string): boolean {
+  return components === null || components[section].some(t => sameType(t, type));
+}
+
+/**
+ * Read the components of an OCB `builder-config.yaml`. Each entry's type is
+ * derived from its `gomod` module path, e.g.
+ * `github.com/.../processor/k8sattributesprocessor v0.120.0` → `k8sattributes`.
+ *
+ * @throws BuilderManifestError if the YAML is invalid or lists no components
+ */
+export function parseBuilderManifest(yamlText: string): BuilderManifest {
+  let raw: unknown;
+  try {
+    raw = yaml.load(yamlText);
+  } catch (error) {
+    throw new BuilderManifestError(`Invalid YAML: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+  }
+  if (!isRecord(raw)) {
+    throw new BuilderManifestError('The manifest must be a map with receivers, processors, exporters… lists');
+  }
+
+  const components = Object.fromEntries(ALL_SECTION_KEYS.map(section => [section, [] as string[]])) as DistributionComponents;
+  for (const section of ALL_SECTION_KEYS) {
+    const entries = raw[section];
+    if (!Array.isArray(entries)) continue;
+    for (const entry of entries) {
+      const gomod = isRecord(entry) && typeof entry['gomod'] === 'string' ? entry['gomod'] : '';
+      const type = gomod ? typeFromModule(gomod, SECTION_COMPONENT_TYPES[section]) : '';
+      if (type) components[section].push(type);
+    }
+  }
+
+  if (ALL_SECTION_KEYS.every(section => components[section].length === 0)) {
+    throw new BuilderManifestError('No components with a gomod path were found');
+  }
+  const dist = raw['dist'];
+  const name = isRecord(dist) && typeof dist['name'] === 'string' ? dist['name'] : undefined;
+  return { name, components };
+}
+
+/**
+ * Generate an OCB `builder-config.yaml` that builds exactly the components
+ * used by `config`. Module paths come from the registry catalog (core or
+ * contrib repository, and the directory of components nested in a group such
+ * as `extension/observer`); types it doesn't know are assumed to be in
+ * contrib and reported as unresolved.
+ */
+export function generateBuilderManifest(
+  config: OtelConfig,
+  catalog: Pick<RegistryComponentEntry, 'componentType' | 'type' | 'source' | 'modulePath'>[],
+  options: BuilderManifestOptions,
+): GeneratedBuilderManifest {
+  const name = options.name.trim() || 'otelcol-custom';
+  const version = `v${options.version.trim().replace(/^v/, '')}`;
+  const unresolved: string[] = [];
+  const lines = [
+    'dist:',
+    `  name: ${name}`,
+    '  description: Custom OpenTelemetry Collector distribution',
+    `  output_path: ./${name}`,
+  ];
+
+  for (const section of ALL_SECTION_KEYS) {
+    const componentType = SECTION_COMPONENT_TYPES[section];
+    const types = [...new Set(config[section].map(component => component.type))].sort();
+    if (types.length === 0) continue;
+
+    lines.push('', `${section}:`);
+    for (const type of types) {
+      const entry = catalog.find(e => e.componentType === componentType && sameType(canonicalComponentType(e.type), type));
+      const inCore = entry ? entry.source === 'core' : distributionIncludes(CORE_REPO_COMPONENTS, section, type);
+      const modulePath = entry?.modulePath ?? `${componentType}/${moduleTypeOf(entry?.type ?? type)}${componentType}`;
+      const root = inCore ? CORE_MODULE_ROOT : CONTRIB_MODULE_ROOT;
+      const line = `  - gomod: ${root}/${modulePath} ${version}`;
+
+      if (entry || inCore) {
+        lines.push(line);
+      } else {
+        unresolved.push(`${componentType} "${type}"`);
+        lines.push(`${line} # not in the registry — check the module path`);
+      }
+    }
+  }
+
+  return { yaml: lines.join('\n') + '\n', unresolved };
+}
+
+/** Component type of a module path such as `go.opentelemetry.io/collector/receiver/otlpreceiver v0.120.0` */
+export function typeFromModule(gomod: string, componentType: ComponentType): string {
+  const path = gomod.trim().split(/\s+/)[0];
+  const dirName = path.split('/').filter(Boolean).pop() ?? '';
+  return canonicalComponentType(stripComponentSuffix(dirName, componentType));
+}
+
+/** Config type of a component known by its directory name without the kind suffix */
+export function canonicalComponentType(type: string): string {
+  return MODULE_TYPE_ALIASES[type] ?? type;
+}
+
+/** Module directory name (without the kind suffix) of a config type */
+function moduleTypeOf(type: string): string {
+  const alias = Object.entries(MODULE_TYPE_ALIASES).find(([, t]) => sameType(t, type));
+  return alias ? alias[0] : type.replace(/_/g, '');
+}
+
+function sameType(a: string, b: string): boolean {
+  return a.replace(/_/g, '') === b.replace(/_/g, '');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,110 @@
+import { TestBed } from '@angular/core/testing';
+import { ConfigParserService } from '../services/config-parser.service';
+import { findListenEndpoints, findPortConflicts, findScrapeTargets, toServicePorts } from './endpoints';
+
+describe('endpoints', () => {
+  const parse = (yaml: string) => TestBed.inject(ConfigParserService).parseYaml(yaml);
+
+  const yaml = `receivers:
+  otlp:
+    protocols:
+      grpc:
+        endpoint: 0.0.0.0:4317
+      http:
+  otlp/second:
+    protocols:
+      grpc:
+        endpoint: 0.0.0.0:4317
+  jaeger:
+    protocols:
+      thrift_compact:
+  prometheus:
+    config:
+      scrape_configs:
+        - job_name: self
+          static_configs:
+            - targets: [localhost:8888]
+  zipkin:
+exporters:
+  debug:
+extensions:
+  health_check:
+    endpoint: 0.0.0.0:13133
+  zpages:
+    endpoint: \${env:ZPAGES_ENDPOINT}
+service:
+  extensions: [health_check, zpages]
+  telemetry:
+    metrics:
+      address: 0.0.0.0:4318
+  pipelines:
+    traces:
+      receivers: [otlp, otlp/second, jaeger]
+      exporters: [debug]
+    metrics:
+      receivers: [prometheus]
+      exporters: [debug]
+`;
+
+  it('should find configured and default listeners of used components', () => {
+    const endpoints = findListenEndpoints(parse(yaml));
+
+    expect(endpoints.map(e => [e.componentId, e.name, e.host, e.port, e.protocol, e.isDefault])).toEqual([
+      ['otlp', 'grpc', '0.0.0.0', 4317, 'tcp', false],
+      ['otlp', 'http', 'localhost', 4318, 'tcp', true],
+      ['otlp/second', 'grpc', '0.0.0.0', 4317, 'tcp', false],
+      ['jaeger', 'thrift_compact', 'localhost', 6831, 'udp', true],
+      ['health_check', 'endpoint', '0.0.0.0', 13133, 'tcp', false],
+      ['telemetry', 'metrics', '0.0.0.0', 4318, 'tcp', false],
+    ]);
+    expect(findScrapeTargets(parse(yaml))).toEqual([{ componentId: 'prometheus', job: 'self', target: 'localhost:8888' }]);
+  });
+
+  it('should report ports bound twice on overlapping hosts', () => {
+    const conflicts = findPortConflicts(findListenEndpoints(parse(yaml)));
+
+    expect(conflicts.map(c => [c.endpoint.componentId, c.conflictsWith.componentId, c.endpoint.port])).toEqual([
+      ['otlp/second', 'otlp', 4317],
+      ['telemetry', 'otlp', 4318],
+    ]);
+  });
+
+  it('should list the reachable ports for a Kubernetes Service', () => {
+    expect(toServicePorts(findListenEndpoints(parse(yaml)))).toBe(`ports:
+  - name: otlp-grpc
+    port: 4317
+    targetPort: 4317
+    protocol: TCP
+  - name: health-check
+    port: 13133
+    targetPort: 13133
+    protocol: TCP
+  - name: otelcol-metrics
+    port: 4318
+    targetPort: 4318
+    protocol: TCP
+`);
+  });
+
+  it('should not count the remote endpoints of scraper receivers', () => {
+    const config = parse(`receivers:
+  postgresql:
+    endpoint: db.internal:5432
+  postgresql/replica:
+    endpoint: db.internal:5432
+exporters:
+  debug:
+service:
+  telemetry:
+    metrics:
+      level: none
+  pipelines:
+    metrics:
+      receivers: [postgresql, postgresql/replica]
+      exporters: [debug]
+`);
+
+    expect(findListenEndpoints(config)).toEqual([]);
+    expect(toServicePorts(findListenEndpoints(config))).toBe('ports: []\n');
+  });
+});
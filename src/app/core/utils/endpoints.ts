@@ -0,0 +1,281 @@
+import { EndpointProtocol, ListenEndpoint, PortConflict, ScrapeTarget } from '../models/endpoint.model';
+import { OtelComponent, OtelConfig } from '../models/otel-config.model';
+
+interface DefaultListener {
+  port: number;
+  protocol?: EndpointProtocol;
+}
+
+/**
+ * Default listeners of well-known components, used when the endpoint isn't
+ * set. Keyed by component type, then by protocol name (`endpoint` for
+ * components with a single listener). Protocol listeners only apply when the
+ * protocol key is present in the config.
+ */
+const DEFAULT_LISTENERS: Record<string, Record<string, DefaultListener>> = {
+  otlp: { grpc: { port: 4317 }, http: { port: 4318 } },
+  jaeger: {
+    grpc: { port: 14250 },
+    thrift_http: { port: 14268 },
+    thrift_compact: { port: 6831, protocol: 'udp' },
+    thrift_binary: { port: 6832, protocol: 'udp' },
+  },
+  skywalking: { grpc: { port: 11800 }, http: { port: 12800 } },
+  zipkin: { endpoint: { port: 9411 } },
+  statsd: { endpoint: { port: 8125, protocol: 'udp' } },
+  fluentforward: { endpoint: { port: 8006 } },
+  health_check: { endpoint: { port: 13133 } },
+  zpages: { endpoint: { port: 55679 } },
+  pprof: { endpoint: { port: 1777 } },
+};
+
+/**
+ * Receivers and extensions whose `endpoint` is an address they listen on,
+ * besides those in DEFAULT_LISTENERS. For other components (scrapers such as
+ * redis, postgresql or mysql, client extensions) it is a remote address the
+ * collector connects to.
+ */
+const LISTENING_TYPES = new Set([
+  ...Object.keys(DEFAULT_LISTENERS),
+  'awsfirehose',
+  'awsxray',
+  'carbon',
+  'collectd',
+  'datadog',
+  'faro',
+  'healthcheckv2',
+  'influxdb',
+  'loki',
+  'opencensus',
+  'remotetap',
+  'sapm',
+  'signalfx',
+  'splunk_hec',
+  'tcplog',
+  'udplog',
+  'webhookevent',
+]);
+
+/** Jaeger thrift listeners that receive over UDP */
+const UDP_PROTOCOLS = new Set(['thrift_compact', 'thrift_binary']);
+
+/** Port of the collector's own metrics when `service.telemetry.metrics` doesn't set one */
+const DEFAULT_TELEMETRY_PORT = 8888;
+
+const WILDCARD_HOSTS = new Set(['', '0.0.0.0', '::', '[::]']);
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '::1', '[::1]']);
+
+/**
+ * Addresses the collector listens on: the `endpoint` and
+ * `protocols.<name>.endpoint` settings of receivers in a pipeline and of
+ * enabled extensions that accept connections (or their defaults; see
+ * LISTENING_TYPES), `prometheus` exporters, and the
+ * collector's own metrics endpoint. Endpoints whose port is an unresolved
+ * `${...}` reference are left out.
+ */
+export function findListenEndpoints(config: OtelConfig): ListenEndpoint[] {
+  const pipelines = config.service.pipelines;
+  const receivers = config.receivers.filter(r => pipelines.some(p => p.receivers.includes(r.id)));
+  const extensions = config.extensions.filter(e => config.service.extensions?.includes(e.id));
+  const exporters = config.exporters.filter(e => e.type === 'prometheus' && pipelines.some(p => p.exporters.includes(e.id)));
+
+  return [
+    ...receivers.flatMap(r => componentEndpoints(r, 'receivers')),
+    ...extensions.flatMap(e => componentEndpoints(e, 'extensions')),
+    ...exporters.flatMap(e => componentEndpoints(e, 'exporters')),
+    ...telemetryEndpoints(config),
+  ];
+}
+
+/**
+ * Endpoints that bind a port already bound by an earlier endpoint: same port
+ * and protocol, and hosts that overlap (identical, or either a wildcard).
+ */
+export function findPortConflicts(endpoints: ListenEndpoint[]): PortConflict[] {
+  const conflicts: PortConflict[] = [];
+  endpoints.forEach((endpoint, i) => {
+    const conflictsWith = endpoints.slice(0, i).find(other =>
+      other.port === endpoint.port && other.protocol === endpoint.protocol && hostsOverlap(other.host, endpoint.host),
+    );
+    if (conflictsWith) conflicts.push({ endpoint, conflictsWith });
+  });
+  return conflicts;
+}
+
+/** Whether an endpoint only accepts connections from the same pod/host */
+export function isLoopback(endpoint: ListenEndpoint): boolean {
+  return LOOPBACK_HOSTS.has(endpoint.host);
+}
+
+/** Whether connecting to `host` reaches the local machine (loopback, or empty as in `:4317`) */
+export function isLocalHost(host: string): boolean {
+  return LOOPBACK_HOSTS.has(host) || WILDCARD_HOSTS.has(host);
+}
+
+/** e.g. `receiver "otlp"`, or `service telemetry` */
+export function endpointOwner(endpoint: ListenEndpoint): string {
+  return endpoint.componentType === 'service'
+    ? 'service telemetry'
+    : `${endpoint.componentType} "${endpoint.componentId}"`;
+}
+
+/** `static_configs` targets of the prometheus receivers' scrape jobs */
+export function findScrapeTargets(config: OtelConfig): ScrapeTarget[] {
+  return config.receivers
+    .filter(r => r.type === 'prometheus')
+    .flatMap(receiver => {
+      const scrapeConfigs = asRecord(receiver.config['config'])?.['scrape_configs'];
+      return (Array.isArray(scrapeConfigs) ? scrapeConfigs : []).flatMap(job => {
+        const jobName = String(asRecord(job)?.['job_name'] ?? '');
+        const staticConfigs = asRecord(job)?.['static_configs'];
+        return (Array.isArray(staticConfigs) ? staticConfigs : []).flatMap(entry => {
+          const targets = asRecord(entry)?.['targets'];
+          return (Array.isArray(targets) ? targets : []).map(target => ({
+            componentId: receiver.id,
+            job: jobName,
+            target: String(target),
+          }));
+        });
+      });
+    });
+}
+
+/**
+ * The `ports` list of a Kubernetes Service for the endpoints reachable from
+ * other pods (loopback endpoints are left out), one entry per port.
+ */
+export function toServicePorts(endpoints: ListenEndpoint[]): string {
+  const seen = new Set<string>();
+  const names = new Set<string>();
+  const lines = ['ports:'];
+
+  for (const endpoint of endpoints) {
+    const key = `${endpoint.port}/${endpoint.protocol}`;
+    if (isLoopback(endpoint) || seen.has(key)) continue;
+    seen.add(key);
+
+    const name = uniquePortName(endpoint, names);
+    names.add(name);
+    lines.push(
+      `  - name: ${name}`,
+      `    port: ${endpoint.port}`,
+      `    targetPort: ${endpoint.port}`,
+      `    protocol: ${endpoint.protocol.toUpperCase()}`,
+    );
+  }
+
+  return lines.length > 1 ? lines.join('\n') + '\n' : 'ports: []\n';
+}
+
+function componentEndpoints(component: OtelComponent, section: 'receivers' | 'extensions' | 'exporters'): ListenEndpoint[] {
+  if (section !== 'exporters' && !LISTENING_TYPES.has(component.type)) return [];
+  const defaults = section === 'exporters' ? {} : DEFAULT_LISTENERS[component.type] ?? {};
+  const basePath = [section, component.id];
+  const endpoints: ListenEndpoint[] = [];
+  const add = (name: string, value: unknown, path: (string | number)[], protocol: EndpointProtocol) => {
+    const fallback = defaults[name];
+    if (value === undefined || value === null || value === '') {
+      if (fallback) {
+        endpoints.push({
+          ...base(component, name, path, fallback.protocol ?? protocol),
+          host: 'localhost',
+          port: fallback.port,
+          isDefault: true,
+        });
+      }
+      return;
+    }
+    const address = parseAddress(String(value));
+    if (address) endpoints.push({ ...base(component, name, [...path, 'endpoint'], protocol), ...address, isDefault: false });
+  };
+
+  const config = component.config ?? {};
+  const protocols = asRecord(config['protocols']);
+  if (protocols) {
+    for (const [name, settings] of Object.entries(protocols)) {
+      add(name, asRecord(settings)?.['endpoint'], [...basePath, 'protocols', name], UDP_PROTOCOLS.has(name) ? 'udp' : 'tcp');
+    }
+  }
+  if ('endpoint' in config || defaults['endpoint']) {
+    const transport = String(config['transport'] ?? (defaults['endpoint']?.protocol ?? 'tcp'));
+    add('endpoint', config['endpoint'], basePath, transport.startsWith('udp') ? 'udp' : 'tcp');
+  }
+
+  return endpoints;
+}
+
+function base(component: OtelComponent, name: string, path: (string | number)[], protocol: EndpointProtocol) {
+  return { componentId: component.id, componentType: component.componentType, name, path, protocol };
+}
+
+/**
+ * The collector's own metrics endpoint: `service.telemetry.metrics.address`
+ * (older releases), prometheus pull readers, or localhost:8888 when neither
+ * is set. Nothing when the metrics level is `none`.
+ */
+function telemetryEndpoints(config: OtelConfig): ListenEndpoint[] {
+  const metrics = asRecord(config.service.telemetry?.metrics) ?? {};
+  if (metrics['level'] === 'none') return [];
+  const path = ['service', 'telemetry', 'metrics'];
+  const endpoint = (host: string, port: number, valuePath: (string | number)[], isDefault: boolean): ListenEndpoint => ({
+    componentId: 'telemetry',
+    componentType: 'service',
+    name: 'metrics',
+    host,
+    port,
+    protocol: 'tcp',
+    path: valuePath,
+    isDefault,
+  });
+
+  if (typeof metrics['address'] === 'string') {
+    const address = parseAddress(metrics['address']);
+    return address ? [endpoint(address.host, address.port, [...path, 'address'], false)] : [];
+  }
+
+  const readers = Array.isArray(metrics['readers']) ? metrics['readers'] : [];
+  const pullEndpoints = readers.flatMap((reader, i) => {
+    const prometheus = asRecord(asRecord(asRecord(reader)?.['pull'])?.['exporter'])?.['prometheus'];
+    const settings = asRecord(prometheus);
+    const port = Number(settings?.['port']);
+    if (!settings || !Number.isInteger(port)) return [];
+    return [endpoint(String(settings['host'] ?? 'localhost'), port, [...path, 'readers', i], false)];
+  });
+  if (readers.length > 0) return pullEndpoints;
+
+  return [endpoint('localhost', DEFAULT_TELEMETRY_PORT, path, true)];
+}
+
+/**
+ * Split `host:port` (also `:port`, `[::]:port` and URLs such as
+ * `http://host:4318/v1/metrics`); null if the port isn't a number.
+ */
+export function parseAddress(value: string): { host: string; port: number } | null {
+  const match = /^(.*):(\d+)$/.exec(value.trim().replace(/^[a-z]+:\/\//i, '').replace(/\/.*$/, ''));
+  if (!match) return null;
+  return { host: match[1], port: Number(match[2]) };
+}
+
+function hostsOverlap(a: string, b: string): boolean {
+  if (WILDCARD_HOSTS.has(a) || WILDCARD_HOSTS.has(b)) return true;
+  if (LOOPBACK_HOSTS.has(a) && LOOPBACK_HOSTS.has(b)) return true;
+  return a === b;
+}
+
+/** Kubernetes port names: lowercase alphanumerics and dashes, at most 15 characters */
+function uniquePortName(endpoint: ListenEndpoint, taken: Set<string>): string {
+  const raw = endpoint.componentType === 'service' ? 'otelcol-metrics'
+    : endpoint.name === 'endpoint' ? endpoint.componentId
+    : `${endpoint.componentId}-${endpoint.name}`;
+  const name = raw.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 15).replace(/^-+|-+$/g, '') || 'port';
+  if (!taken.has(name)) return name;
+  for (let n = 2; ; n++) {
+    const suffix = `-${n}`;
+    const candidate = name.slice(0, 15 - suffix.length).replace(/-+$/, '') + suffix;
+    if (!taken.has(candidate)) return candidate;
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+}
@@ -0,0 +1,63 @@
+import { createEmptyConfig, OtelConfig } from '../models/otel-config.model';
+import { findVariableReferences, parseVariableReference, substituteVariables } from './env-substitution';
+
+describe('env-substitution', () => {
+  const configWith = (exporterConfig: Record<string, unknown>): OtelConfig => ({
+    ...createEmptyConfig(),
+    exporters: [{ id: 'otlp', type: 'otlp', componentType: 'exporter', config: exporterConfig }],
+  });
+
+  describe('parseVariableReference', () => {
+    it('should parse env, bare, default and file references', () => {
+      expect(parseVariableReference('env:OTLP_ENDPOINT')).toEqual({ provider: 'env', name: 'OTLP_ENDPOINT' });
+      expect(parseVariableReference('OTLP_ENDPOINT')).toEqual({ provider: 'env', name: 'OTLP_ENDPOINT' });
+      expect(parseVariableReference('env:PORT:-4317')).toEqual({ provider: 'env', name: 'PORT', defaultValue: '4317' });
+      expect(parseVariableReference('file:/etc/otel/token')).toEqual({ provider: 'file', name: '/etc/otel/token' });
+    });
+
+    it('should ignore providers it cannot resolve', () => {
+      expect(parseVariableReference('https://example.com/config.yaml')).toBeNull();
+      expect(parseVariableReference('yaml:exporters::debug')).toBeNull();
+    });
+  });
+
+  it('should find each referenced variable once', () => {
+    const references = findVariableReferences(
+      configWith({
+        endpoint: '${env:HOST}:${env:PORT:-4317}',
+        headers: { authorization: 'Bearer ${file:/secrets/token}', tenant: '${HOST}' },
+      }),
+    );
+
+    expect(references.map(r => r.name)).toEqual(['HOST', 'PORT', '/secrets/token']);
+  });
+
+  it('should substitute values, defaults and escaped dollars', () => {
+    const { config, undefinedVariables } = substituteVariables(
+      configWith({ endpoint: '${env:HOST}:${env:PORT:-4317}', headers: { note: 'costs $$5' } }),
+      { HOST: 'tempo' },
+    );
+
+    expect(config.exporters[0].config).toEqual({ endpoint: 'tempo:4317', headers: { note: 'costs $5' } });
+    expect(undefinedVariables).toEqual([]);
+  });
+
+  it('should give whole-value references the type of their value', () => {
+    const { config } = substituteVariables(
+      configWith({ timeout: '${env:TIMEOUT}', sending_queue: { enabled: '${env:QUEUE}', queue_size: '${SIZE}' } }),
+      { TIMEOUT: '5s', QUEUE: 'false', SIZE: '500' },
+    );
+
+    expect(config.exporters[0].config).toEqual({ timeout: '5s', sending_queue: { enabled: false, queue_size: 500 } });
+  });
+
+  it('should look up file references by path and report undefined variables', () => {
+    const { config, undefinedVariables } = substituteVariables(
+      configWith({ endpoint: '${env:ENDPOINT}', headers: { authorization: '${file:/secrets/token}' } }),
+      { 'file:/secrets/token': 'abc' },
+    );
+
+    expect(config.exporters[0].config).toEqual({ endpoint: '${env:ENDPOINT}', headers: { authorization: 'abc' } });
+    expect(undefinedVariables).toEqual(['ENDPOINT']);
+  });
+});
@@ -0,0 +1,154 @@
+import * as yaml from 'js-yaml';
+import { OtelComponent, OtelConfig } from '../models/otel-config.model';
+import { VariableReference } from '../models/environment.model';
+
+/** `$$` (an escaped `$`) or a `${...}` reference */
+const REFERENCE_PATTERN = /\$\$|\$\{([^}]+)\}/g;
+
+/** Bare variable names accepted by the collector's env provider */
+const ENV_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+export interface SubstitutionResult {
+  config: OtelConfig;
+  /** Distinct variable keys that have no value and no default */
+  undefinedVariables: string[];
+}
+
+/**
+ * Parse the inside of a `${...}` reference. Returns null for providers the
+ * viewer can't resolve (e.g. `${http://...}`, `${yaml:...}`).
+ */
+export function parseVariableReference(inner: string): VariableReference | null {
+  if (inner.startsWith('file:')) {
+    return { provider: 'file', name: inner.substring('file:'.length) };
+  }
+
+  const body = inner.startsWith('env:') ? inner.substring('env:'.length) : inner;
+  const defaultIndex = body.indexOf(':-');
+  const name = defaultIndex === -1 ? body : body.substring(0, defaultIndex);
+  if (!ENV_NAME_PATTERN.test(name)) {
+    return null;
+  }
+  return defaultIndex === -1
+    ? { provider: 'env', name }
+    : { provider: 'env', name, defaultValue: body.substring(defaultIndex + 2) };
+}
+
+/**
+ * Key a reference is looked up by in an environment: the variable name for
+ * env references, `file:<path>` for file references.
+ */
+export function variableKey(reference: VariableReference): string {
+  return reference.provider === 'file' ? `file:${reference.name}` : reference.name;
+}
+
+/**
+ * Every resolvable reference in the component configs and service telemetry,
+ * de-duplicated by variable key (the first default seen wins).
+ */
+export function findVariableReferences(config: OtelConfig): VariableReference[] {
+  const found = new Map<string, VariableReference>();
+
+  const visit = (value: unknown): void => {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(REFERENCE_PATTERN)) {
+        const reference = match[1] !== undefined ? parseVariableReference(match[1]) : null;
+        if (reference && !found.has(variableKey(reference))) {
+          found.set(variableKey(reference), reference);
+        }
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (typeof value === 'object' && value !== null) {
+      Object.values(value).forEach(visit);
+    }
+  };
+
+  for (const component of allComponents(config)) {
+    visit(component.config);
+  }
+  visit(config.service.telemetry);
+
+  return [...found.values()];
+}
+
+/**
+ * Resolve `${...}` references in component configs and service telemetry
+ * using `variables`, the way the collector does at startup:
+ * - a value that is exactly one reference takes the resolved value's YAML type
+ *   (`${env:PORT}` with PORT=4317 becomes the number 4317)
+ * - references embedded in a longer string are substituted as text
+ * - `$$` is an escaped `$`
+ *
+ * References without a value or default are left as-is and reported.
+ */
+export function substituteVariables(config: OtelConfig, variables: Record<string, string>): SubstitutionResult {
+  const undefinedVariables = new Set<string>();
+
+  const resolveString = (value: string): unknown => {
+    const whole = /^\$\{([^}]+)\}$/.exec(value);
+    if (whole) {
+      const resolved = resolveReference(whole[1]);
+      return resolved === undefined ? value : parseScalar(resolved);
+    }
+
+    return value.replace(REFERENCE_PATTERN, (match, inner: string | undefined) => {
+      if (inner === undefined) return '$';
+      return resolveReference(inner) ?? match;
+    });
+  };
+
+  const resolveReference = (inner: string): string | undefined => {
+    const reference = parseVariableReference(inner);
+    if (!reference) return undefined;
+
+    const key = variableKey(reference);
+    const value = variables[key] ?? reference.defaultValue;
+    if (value === undefined) {
+      undefinedVariables.add(key);
+    }
+    return value;
+  };
+
+  const resolve = (value: unknown): unknown => {
+    if (typeof value === 'string') return resolveString(value);
+    if (Array.isArray(value)) return value.map(resolve);
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolve(v)]));
+    }
+    return value;
+  };
+
+  const resolveComponents = (components: OtelComponent[]): OtelComponent[] =>
+    components.map(c => ({ ...c, config: resolve(c.config) as Record<string, unknown> }));
+
+  const resolved: OtelConfig = {
+    receivers: resolveComponents(config.receivers),
+    processors: resolveComponents(config.processors),
+    exporters: resolveComponents(config.exporters),
+    connectors: resolveComponents(config.connectors),
+    extensions: resolveComponents(config.extensions),
+    service: {
+      ...config.service,
+      telemetry: config.service.telemetry
+        ? (resolve(config.service.telemetry) as OtelConfig['service']['telemetry'])
+        : undefined,
+    },
+  };
+
+  return { config: resolved, undefinedVariables: [...undefinedVariables] };
+}
+
+function allComponents(config: OtelConfig): OtelComponent[] {
+  return [...config.receivers, ...config.processors, ...config.exporters, ...config.connectors, ...config.extensions];
+}
+
+/** Interpret a resolved value as a YAML scalar; anything else stays a string */
+function parseScalar(value: string): unknown {
+  try {
+    const parsed = yaml.load(value);
+    return typeof parsed === 'number' || typeof parsed === 'boolean' ? parsed : value;
+  } catch {
+    return value;
+  }
+}
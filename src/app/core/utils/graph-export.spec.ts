@@ -0,0 +1,58 @@
+import { TestBed } from '@angular/core/testing';
+import { ConfigParserService } from '../services/config-parser.service';
+import { resolveCssVariables, toDot, toMermaid } from './graph-export';
+
+describe('graph-export', () => {
+  let parser: ConfigParserService;
+
+  beforeEach(() => {
+    parser = TestBed.inject(ConfigParserService);
+  });
+
+  const yaml = `
+receivers:
+  otlp:
+processors:
+  batch:
+exporters:
+  otlp/backend:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      processors: [batch]
+      exporters: [otlp/backend]
+`;
+
+  it('should write a Mermaid flowchart with readable IDs and pipeline labels', () => {
+    const graph = parser.configToGraph(parser.parseYaml(yaml));
+    const mermaid = toMermaid(graph, { receiver: '#4CAF50' });
+
+    expect(mermaid.startsWith('flowchart LR\n')).toBe(true);
+    expect(mermaid).toContain('receiver_otlp["otlp"]:::receiver');
+    expect(mermaid).toContain('processor_batch_at_traces["batch (traces)"]:::processor');
+    expect(mermaid).toContain('receiver_otlp -->|traces| processor_batch_at_traces');
+    expect(mermaid).toContain('processor_batch_at_traces -->|traces| exporter_otlp_backend');
+    expect(mermaid).toContain('classDef receiver stroke:#4CAF50');
+    expect(mermaid).not.toContain('classDef processor');
+  });
+
+  it('should write a DOT digraph with quoted labels', () => {
+    const graph = parser.configToGraph(parser.parseYaml(yaml));
+    const dot = toDot(graph);
+
+    expect(dot.startsWith('digraph otel_collector {')).toBe(true);
+    expect(dot).toContain('exporter_otlp_backend [label="otlp/backend"];');
+    expect(dot).toContain('receiver_otlp -> processor_batch_at_traces [label="traces"];');
+    expect(dot.trimEnd().endsWith('}')).toBe(true);
+  });
+
+  it('should resolve nested CSS variables and fall back when unknown', () => {
+    const vars: Record<string, string> = { '--color-receiver': ' #4CAF50', '--alias': 'var(--color-receiver)' };
+    const lookup = (name: string) => vars[name] ?? '';
+
+    expect(resolveCssVariables('var(--color-receiver)', lookup)).toBe('#4CAF50');
+    expect(resolveCssVariables('opacity: 1; fill: var(--alias)', lookup)).toBe('opacity: 1; fill: #4CAF50');
+    expect(resolveCssVariables('var(--missing, #888)', lookup)).toBe('#888');
+  });
+});
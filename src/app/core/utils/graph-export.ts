@@ -0,0 +1,127 @@
+import { ComponentType, GraphData, GraphNode } from '../models/otel-config.model';
+
+/** Graph export formats */
+export type GraphExportFormat = 'svg' | 'png' | 'mermaid' | 'dot';
+
+/** Resolved colors per component type, used to style nodes in text exports */
+export type ComponentColors = Partial<Record<ComponentType, string>>;
+
+const TYPE_ORDER: ComponentType[] = ['receiver', 'processor', 'connector', 'exporter', 'extension'];
+
+const TYPE_TITLES: Record<ComponentType, string> = {
+  receiver: 'Receivers',
+  processor: 'Processors',
+  exporter: 'Exporters',
+  connector: 'Connectors',
+  extension: 'Extensions',
+};
+
+/**
+ * Mermaid flowchart of a graph: one subgraph per component type and edges
+ * labeled with their pipeline. Node IDs derive from component IDs, so the
+ * output diffs cleanly between config versions.
+ */
+export function toMermaid(graph: GraphData, colors: ComponentColors = {}): string {
+  const ids = textIds(graph.nodes);
+  const lines = ['flowchart LR'];
+
+  for (const type of TYPE_ORDER) {
+    const nodes = graph.nodes.filter(n => n.componentType === type);
+    if (nodes.length === 0) continue;
+    lines.push(`  subgraph ${type}s["${TYPE_TITLES[type]}"]`);
+    for (const node of nodes) {
+      lines.push(`    ${ids.get(node.id)}["${mermaidText(nodeLabel(node))}"]:::${type}`);
+    }
+    lines.push('  end');
+  }
+
+  for (const edge of graph.edges) {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (source && target) lines.push(`  ${source} -->|${mermaidText(edge.pipelineId)}| ${target}`);
+  }
+
+  for (const type of TYPE_ORDER) {
+    const color = colors[type];
+    if (color) lines.push(`  classDef ${type} stroke:${color},stroke-width:2px`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Graphviz DOT digraph of a graph: one cluster per component type and edges
+ * labeled with their pipeline.
+ */
+export function toDot(graph: GraphData, colors: ComponentColors = {}): string {
+  const ids = textIds(graph.nodes);
+  const lines = [
+    'digraph otel_collector {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded", fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  for (const type of TYPE_ORDER) {
+    const nodes = graph.nodes.filter(n => n.componentType === type);
+    if (nodes.length === 0) continue;
+    lines.push(`  subgraph cluster_${type}s {`, `    label=${dotString(TYPE_TITLES[type])};`);
+    for (const node of nodes) {
+      const color = colors[type] ? `, color=${dotString(colors[type]!)}` : '';
+      lines.push(`    ${ids.get(node.id)} [label=${dotString(nodeLabel(node))}${color}];`);
+    }
+    lines.push('  }');
+  }
+
+  for (const edge of graph.edges) {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (source && target) lines.push(`  ${source} -> ${target} [label=${dotString(edge.pipelineId)}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Replace `var(--name)` references (including nested fallbacks) in an
+ * attribute or style value with the values `lookup` returns, so the markup
+ * renders outside the app's stylesheet. Unknown variables use their fallback.
+ */
+export function resolveCssVariables(value: string, lookup: (name: string) => string): string {
+  const pattern = /var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*))?\)/;
+  let resolved = value;
+  // Innermost references first; bounded in case a lookup returns another var()
+  for (let i = 0; i < 20 && pattern.test(resolved); i++) {
+    resolved = resolved.replace(pattern, (_match, name: string, fallback?: string) =>
+      lookup(name).trim() || (fallback ?? '').trim());
+  }
+  return resolved;
+}
+
+/** Processor nodes are drawn once per pipeline, so their label names the pipeline */
+function nodeLabel(node: GraphNode): string {
+  return node.pipelineId ? `${node.label} (${node.pipelineId})` : node.label;
+}
+
+/** Readable, unique identifiers for text formats: `receiver/otlp` → `receiver_otlp` */
+function textIds(nodes: GraphNode[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+  for (const node of nodes) {
+    const base = node.id.replace(/@/g, '_at_').replace(/[^A-Za-z0-9_]/g, '_');
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}_${n}`;
+    used.add(id);
+    ids.set(node.id, id);
+  }
+  return ids;
+}
+
+function mermaidText(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/\|/g, '#124;');
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
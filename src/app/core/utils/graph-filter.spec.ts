@@ -0,0 +1,63 @@
+import { TestBed } from '@angular/core/testing';
+import { ConfigParserService } from '../services/config-parser.service';
+import { filterGraphBySignal, graphFilterParams, parseGraphFilter } from './graph-filter';
+
+describe('graph-filter', () => {
+  let parser: ConfigParserService;
+
+  beforeEach(() => {
+    parser = TestBed.inject(ConfigParserService);
+  });
+
+  const yaml = `
+receivers:
+  otlp:
+  hostmetrics:
+processors:
+  batch:
+exporters:
+  debug:
+  prometheus:
+extensions:
+  health_check:
+service:
+  extensions: [health_check]
+  pipelines:
+    traces:
+      receivers: [otlp]
+      processors: [batch]
+      exporters: [debug]
+    metrics:
+      receivers: [hostmetrics]
+      processors: [batch]
+      exporters: [prometheus]
+`;
+
+  it('should keep only the pipelines of the selected signals', () => {
+    const graph = parser.configToGraph(parser.parseYaml(yaml));
+    const filtered = filterGraphBySignal(graph, ['metrics']);
+
+    expect(new Set(filtered.edges.map(e => e.pipelineId))).toEqual(new Set(['metrics']));
+    expect(filtered.nodes.map(n => n.id).sort()).toEqual([
+      'exporter/prometheus',
+      'processor/batch@metrics',
+      'receiver/hostmetrics',
+    ]);
+  });
+
+  it('should return the graph unchanged without a filter or with every signal', () => {
+    const graph = parser.configToGraph(parser.parseYaml(yaml));
+
+    expect(filterGraphBySignal(graph, [])).toBe(graph);
+    expect(filterGraphBySignal(graph, ['logs', 'traces', 'metrics'])).toBe(graph);
+  });
+
+  it('should round-trip the filter through query parameters', () => {
+    const filter = { pipelines: ['traces', 'logs/audit'], signals: ['traces' as const] };
+    const params = graphFilterParams(filter);
+
+    expect(parseGraphFilter(params['pipelines'], params['signals'])).toEqual(filter);
+    expect(graphFilterParams({ pipelines: [], signals: [] })).toEqual({ pipelines: null, signals: null });
+    expect(parseGraphFilter(' traces,,traces ', 'spans,logs')).toEqual({ pipelines: ['traces'], signals: ['logs'] });
+  });
+});
@@ -0,0 +1,51 @@
+import { GraphData, SignalType, parsePipelineId } from '../models/otel-config.model';
+
+const ALL_SIGNALS: SignalType[] = ['traces', 'metrics', 'logs'];
+
+/** Pipelines isolated in the graph and signals it is filtered to, as kept in the URL */
+export interface GraphFilter {
+  /** Pipelines to emphasize; everything else is dimmed. Empty: no isolation */
+  pipelines: string[];
+  /** Signals whose pipelines are shown. Empty: all signals */
+  signals: SignalType[];
+}
+
+/** Query parameters holding the graph filter */
+export const GRAPH_FILTER_PARAMS = {
+  pipelines: 'pipelines',
+  signals: 'signals',
+} as const;
+
+/**
+ * Keep only the pipelines of the given signals: their edges, their processor
+ * nodes and the components they link. Components outside the kept pipelines
+ * (including unused ones and extensions) are left out while a filter is set.
+ */
+export function filterGraphBySignal(graph: GraphData, signals: SignalType[]): GraphData {
+  if (signals.length === 0 || ALL_SIGNALS.every(s => signals.includes(s))) return graph;
+
+  const edges = graph.edges.filter(e => signals.includes(e.signal));
+  const linked = new Set(edges.flatMap(e => [e.source, e.target]));
+  const nodes = graph.nodes.filter(n =>
+    linked.has(n.id) || (n.pipelineId && signals.includes(parsePipelineId(n.pipelineId).signal)),
+  );
+
+  return { nodes, edges };
+}
+
+/** Read a graph filter from query parameter values, ignoring unknown signals */
+export function parseGraphFilter(pipelines: string | null | undefined, signals: string | null | undefined): GraphFilter {
+  const list = (value: string | null | undefined) => (value ?? '').split(',').map(s => s.trim()).filter(Boolean);
+  return {
+    pipelines: [...new Set(list(pipelines))],
+    signals: ALL_SIGNALS.filter(s => list(signals).includes(s)),
+  };
+}
+
+/** Query parameter values for a graph filter (null removes the parameter) */
+export function graphFilterParams(filter: GraphFilter): Record<string, string | null> {
+  return {
+    [GRAPH_FILTER_PARAMS.pipelines]: filter.pipelines.length ? filter.pipelines.join(',') : null,
+    [GRAPH_FILTER_PARAMS.signals]: filter.signals.length ? filter.signals.join(',') : null,
+  };
+}
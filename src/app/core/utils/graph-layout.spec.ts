@@ -0,0 +1,57 @@
+import {
+  LayoutFormatError,
+  extractLayoutComment,
+  parseLayout,
+  serializeLayoutFile,
+  stripLayoutComment,
+  withLayoutComment,
+} from './graph-layout';
+
+describe('graph-layout', () => {
+  const yaml = `receivers:
+  otlp: # main entry point
+exporters:
+  debug:
+`;
+  const positions = {
+    'receiver/otlp': { x: 40.4, y: 120.6 },
+    'processor/batch@traces': { x: 300, y: 120 },
+  };
+
+  it('should round-trip positions through a sidecar file', () => {
+    const file = serializeLayoutFile(positions);
+
+    expect(JSON.parse(file).otelViewerLayout).toBe(1);
+    expect(parseLayout(file)).toEqual({
+      'receiver/otlp': { x: 40, y: 121 },
+      'processor/batch@traces': { x: 300, y: 120 },
+    });
+  });
+
+  it('should embed positions as a comment block and read them back', () => {
+    const embedded = withLayoutComment(yaml, positions);
+
+    expect(embedded.startsWith(yaml)).toBe(true);
+    expect(embedded.split('\n').slice(yaml.split('\n').length).every(line => line === '' || line.startsWith('#'))).toBe(true);
+    expect(extractLayoutComment(embedded)).toEqual({
+      'receiver/otlp': { x: 40, y: 121 },
+      'processor/batch@traces': { x: 300, y: 120 },
+    });
+    expect(parseLayout(embedded)).toEqual(extractLayoutComment(embedded));
+  });
+
+  it('should replace an existing block instead of adding another', () => {
+    const once = withLayoutComment(yaml, positions);
+    const twice = withLayoutComment(once, { 'exporter/debug': { x: 1, y: 2 } });
+
+    expect(twice.match(/otel-viewer-layout-begin/g)).toHaveLength(1);
+    expect(extractLayoutComment(twice)).toEqual({ 'exporter/debug': { x: 1, y: 2 } });
+    expect(stripLayoutComment(twice)).toBe(yaml);
+  });
+
+  it('should return null for configs without a block and reject other files', () => {
+    expect(extractLayoutComment(yaml)).toBeNull();
+    expect(() => parseLayout(yaml)).toThrow(LayoutFormatError);
+    expect(() => parseLayout('{"positions": {}}')).toThrow(LayoutFormatError);
+  });
+});
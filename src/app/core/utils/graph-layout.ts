@@ -0,0 +1,118 @@
+import { LayoutFile, NodePositions } from '../models/layout.model';
+
+const BLOCK_START = '# otel-viewer-layout-begin';
+const BLOCK_END = '# otel-viewer-layout-end';
+
+/**
+ * Thrown when a layout file or comment block can't be read.
+ */
+export class LayoutFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayoutFormatError';
+  }
+}
+
+/** JSON for a layout sidecar file */
+export function serializeLayoutFile(positions: NodePositions): string {
+  const file: LayoutFile = { otelViewerLayout: 1, positions: roundPositions(positions) };
+  return JSON.stringify(file, null, 2) + '\n';
+}
+
+/**
+ * Read node positions from a layout sidecar file, or from a YAML config
+ * that carries a layout comment block.
+ *
+ * @throws LayoutFormatError if `text` contains neither
+ */
+export function parseLayout(text: string): NodePositions {
+  const fromComment = extractLayoutComment(text);
+  if (fromComment) return fromComment;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new LayoutFormatError('Not a layout file or a config with a layout comment block');
+  }
+  return readLayoutFile(parsed);
+}
+
+/**
+ * Node positions from the layout comment block of a YAML config, or null if
+ * it has none.
+ *
+ * @throws LayoutFormatError if the block is there but damaged
+ */
+export function extractLayoutComment(yaml: string): NodePositions | null {
+  const lines = yaml.split('\n');
+  const start = lines.findIndex(line => line.trim() === BLOCK_START);
+  if (start === -1) return null;
+
+  const end = lines.findIndex((line, i) => i > start && line.trim() === BLOCK_END);
+  if (end === -1) throw new LayoutFormatError('Layout comment block is not closed');
+
+  const json = lines.slice(start + 1, end).map(line => line.trim().replace(/^#\s?/, '')).join('\n');
+  try {
+    return readLayoutFile(JSON.parse(json));
+  } catch (error) {
+    throw error instanceof LayoutFormatError ? error : new LayoutFormatError('Layout comment block is not valid JSON');
+  }
+}
+
+/**
+ * Embed node positions in a YAML config as a comment block at the end,
+ * replacing any block that is already there. Comments are ignored by the
+ * collector, so the config stays deployable as is.
+ */
+export function withLayoutComment(yaml: string, positions: NodePositions): string {
+  const stripped = stripLayoutComment(yaml).replace(/\n*$/, '\n');
+  if (Object.keys(positions).length === 0) return stripped;
+
+  const entries = Object.entries(roundPositions(positions)).map(
+    ([id, position], i, all) => `#   ${JSON.stringify(id)}: ${JSON.stringify(position)}${i < all.length - 1 ? ',' : ''}`,
+  );
+  return [
+    stripped,
+    BLOCK_START,
+    '# {"otelViewerLayout": 1, "positions": {',
+    ...entries,
+    '# }}',
+    BLOCK_END,
+    '',
+  ].join('\n');
+}
+
+/** Remove the layout comment block from a YAML config, if it has one */
+export function stripLayoutComment(yaml: string): string {
+  const lines = yaml.split('\n');
+  const start = lines.findIndex(line => line.trim() === BLOCK_START);
+  const end = lines.findIndex((line, i) => i > start && line.trim() === BLOCK_END);
+  if (start === -1 || end === -1) return yaml;
+
+  // Drop the blank line that separated the block from the config
+  const before = lines.slice(0, start);
+  while (before.length > 0 && before[before.length - 1].trim() === '') before.pop();
+  return [...before, ...lines.slice(end + 1)].join('\n');
+}
+
+function readLayoutFile(value: unknown): NodePositions {
+  const file = value as Partial<LayoutFile> | null;
+  if (!file || typeof file !== 'object' || file.otelViewerLayout !== 1 || typeof file.positions !== 'object' || !file.positions) {
+    throw new LayoutFormatError('Not an otel-viewer layout file');
+  }
+
+  const positions: NodePositions = {};
+  for (const [id, position] of Object.entries(file.positions)) {
+    if (typeof position?.x === 'number' && typeof position?.y === 'number') {
+      positions[id] = { x: position.x, y: position.y };
+    }
+  }
+  return positions;
+}
+
+function roundPositions(positions: NodePositions): NodePositions {
+  return Object.fromEntries(
+    Object.entries(positions).map(([id, { x, y }]) => [id, { x: Math.round(x), y: Math.round(y) }]),
+  );
+}
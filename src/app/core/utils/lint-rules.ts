@@ -0,0 +1,191 @@
+import { LintRule } from '../models/lint.model';
+import { OtelComponent, OtelConfig, OtelPipeline } from '../models/otel-config.model';
+
+/** Processors that drop data — batching should happen after them, not before */
+const FILTERING_PROCESSOR_TYPES = new Set(['filter', 'tail_sampling', 'probabilistic_sampler']);
+
+/**
+ * Exporters that don't use the exporter helper (local output or pull-based),
+ * so `sending_queue` / `retry_on_failure` don't apply.
+ */
+const LOCAL_EXPORTER_TYPES = new Set(['debug', 'logging', 'nop', 'file', 'prometheus']);
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function processorType(config: OtelConfig, id: string): string | undefined {
+  return config.processors.find(p => p.id === id)?.type;
+}
+
+function indexesOfType(config: OtelConfig, pipeline: OtelPipeline, types: Set<string>): number[] {
+  return pipeline.processors
+    .map((id, index) => (types.has(processorType(config, id) ?? '') ? index : -1))
+    .filter(index => index !== -1);
+}
+
+function processorsPath(pipeline: OtelPipeline): (string | number)[] {
+  return ['service', 'pipelines', pipeline.id, 'processors'];
+}
+
+/** Return a copy of `config` with one pipeline's processor list replaced */
+function withProcessors(config: OtelConfig, pipelineId: string, processors: string[]): OtelConfig {
+  return {
+    ...config,
+    service: {
+      ...config.service,
+      pipelines: config.service.pipelines.map(p => (p.id === pipelineId ? { ...p, processors } : p)),
+    },
+  };
+}
+
+/** Return a copy of `config` with one exporter's config replaced */
+function withExporterConfig(
+  config: OtelConfig,
+  exporterId: string,
+  update: (current: Record<string, unknown>) => Record<string, unknown>,
+): OtelConfig {
+  return {
+    ...config,
+    exporters: config.exporters.map(e => (e.id === exporterId ? { ...e, config: update(e.config) } : e)),
+  };
+}
+
+/** Network exporters referenced by at least one pipeline */
+function pipelineExporters(config: OtelConfig): OtelComponent[] {
+  const used = new Set(config.service.pipelines.flatMap(p => p.exporters));
+  return config.exporters.filter(e => used.has(e.id) && !LOCAL_EXPORTER_TYPES.has(e.type));
+}
+
+/** Rule for an exporter-helper setting (`sending_queue`, `retry_on_failure`) that should be configured */
+function exporterSettingRule(id: string, description: string, key: string, reason: string): LintRule {
+  return {
+    id,
+    description,
+    severity: 'info',
+    check: config =>
+      pipelineExporters(config)
+        .filter(exporter => !(key in exporter.config))
+        .map(exporter => ({
+          message: `Exporter "${exporter.id}" has no ${key} configured — ${reason}`,
+          componentId: exporter.id,
+          path: ['exporters', exporter.id],
+        })),
+    fix: (config, issue) =>
+      withExporterConfig(config, issue.componentId!, current => ({ ...current, [key]: { enabled: true } })),
+  };
+}
+
+// ─── Rules ──────────────────────────────────────────────────────
+
+export const LINT_RULES: readonly LintRule[] = [
+  {
+    id: 'memory-limiter-first',
+    description: 'memory_limiter should be the first processor in every pipeline',
+    severity: 'warning',
+    check: config =>
+      config.service.pipelines
+        .filter(pipeline => {
+          const indexes = indexesOfType(config, pipeline, new Set(['memory_limiter']));
+          return indexes.length > 0 && indexes[0] !== 0;
+        })
+        .map(pipeline => ({
+          message: `Pipeline "${pipeline.id}": memory_limiter should be the first processor so data is refused before any other work is done`,
+          pipelineId: pipeline.id,
+          path: processorsPath(pipeline),
+        })),
+    fix: (config, issue) => {
+      const pipeline = config.service.pipelines.find(p => p.id === issue.pipelineId)!;
+      const isLimiter = (id: string) => processorType(config, id) === 'memory_limiter';
+      return withProcessors(config, pipeline.id, [
+        ...pipeline.processors.filter(isLimiter),
+        ...pipeline.processors.filter(id => !isLimiter(id)),
+      ]);
+    },
+  },
+  {
+    id: 'batch-after-filters',
+    description: 'batch should come after processors that drop data (filter, sampling)',
+    severity: 'warning',
+    check: config =>
+      config.service.pipelines
+        .filter(pipeline => {
+          const batches = indexesOfType(config, pipeline, new Set(['batch']));
+          const filters = indexesOfType(config, pipeline, FILTERING_PROCESSOR_TYPES);
+          return batches.length > 0 && filters.length > 0 && batches[0] < filters[filters.length - 1];
+        })
+        .map(pipeline => ({
+          message: `Pipeline "${pipeline.id}": batch runs before a filtering or sampling processor — move it after them so dropped data isn't batched`,
+          pipelineId: pipeline.id,
+          path: processorsPath(pipeline),
+        })),
+    fix: (config, issue) => {
+      const pipeline = config.service.pipelines.find(p => p.id === issue.pipelineId)!;
+      const batches = pipeline.processors.filter(id => processorType(config, id) === 'batch');
+      const rest = pipeline.processors.filter(id => processorType(config, id) !== 'batch');
+      const lastFilter = rest.reduce(
+        (last, id, index) => (FILTERING_PROCESSOR_TYPES.has(processorType(config, id) ?? '') ? index : last),
+        -1,
+      );
+      return withProcessors(config, pipeline.id, [
+        ...rest.slice(0, lastFilter + 1),
+        ...batches,
+        ...rest.slice(lastFilter + 1),
+      ]);
+    },
+  },
+  {
+    id: 'pipeline-has-batch',
+    description: 'Every pipeline should batch data before exporting',
+    severity: 'warning',
+    check: config =>
+      config.service.pipelines
+        .filter(pipeline => indexesOfType(config, pipeline, new Set(['batch'])).length === 0)
+        .map(pipeline => ({
+          message: `Pipeline "${pipeline.id}" has no batch processor — exporting unbatched data is much less efficient`,
+          pipelineId: pipeline.id,
+          path: processorsPath(pipeline),
+        })),
+    fix: (config, issue) => {
+      const existing = config.processors.find(p => p.type === 'batch');
+      const batchId = existing?.id ?? 'batch';
+      const withBatch: OtelConfig = existing
+        ? config
+        : { ...config, processors: [...config.processors, { id: batchId, type: 'batch', componentType: 'processor', config: {} }] };
+      const pipeline = withBatch.service.pipelines.find(p => p.id === issue.pipelineId)!;
+      return withProcessors(withBatch, pipeline.id, [...pipeline.processors, batchId]);
+    },
+  },
+  exporterSettingRule(
+    'exporter-sending-queue',
+    'Network exporters should configure a sending_queue',
+    'sending_queue',
+    'data is dropped instead of buffered while the backend is slow',
+  ),
+  exporterSettingRule(
+    'exporter-retry-on-failure',
+    'Network exporters should configure retry_on_failure',
+    'retry_on_failure',
+    'failed exports are not retried',
+  ),
+  {
+    id: 'debug-detailed-verbosity',
+    description: 'debug exporters should not be left at verbosity: detailed',
+    severity: 'warning',
+    check: config =>
+      config.exporters
+        .filter(exporter => exporter.type === 'debug' && exporter.config['verbosity'] === 'detailed')
+        .map(exporter => ({
+          message: `Exporter "${exporter.id}" prints every item at verbosity: detailed — this is very noisy and slow outside of debugging`,
+          componentId: exporter.id,
+          path: ['exporters', exporter.id, 'verbosity'],
+        })),
+    fix: (config, issue) =>
+      withExporterConfig(config, issue.componentId!, current => ({ ...current, verbosity: 'basic' })),
+  },
+];
+
+/**
+ * Find a lint rule by ID.
+ */
+export function findLintRule(id: string): LintRule | undefined {
+  return LINT_RULES.find(rule => rule.id === id);
+}
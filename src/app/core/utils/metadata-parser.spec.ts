@@ -0,0 +1,24 @@
+import { parseMetadataYaml, parseStability } from './metadata-parser';
+
+describe('metadata-parser', () => {
+  const metadata = `type: kafka
+status:
+  class: receiver
+  stability:
+    beta: [metrics, logs, traces]
+    deprecated: [profiles]
+  distributions: [contrib]
+`;
+
+  it('should read the stability level of every signal', () => {
+    const parsed = parseMetadataYaml(metadata, 'receiver');
+
+    expect(parsed?.stability).toEqual({ metrics: 'beta', logs: 'beta', traces: 'beta', profiles: 'deprecated' });
+    expect(parsed?.supportedSignals).toEqual(['metrics', 'logs', 'traces']);
+  });
+
+  it('should ignore unknown stability levels', () => {
+    expect(parseStability({ experimental: ['traces'], alpha: ['logs'] })).toEqual({ logs: 'alpha' });
+    expect(parseStability(undefined)).toEqual({});
+  });
+});
@@ -1,6 +1,6 @@
 import * as yaml from 'js-yaml';
 import { ComponentType, SignalType } from '../models/otel-config.model';
-import { ParsedMetadata } from '../models/component-registry.model';
+import { ConnectorSignalPair, ParsedMetadata, StabilityLevel } from '../models/component-registry.model';
 
 const VALID_SIGNALS = new Set<string>(['traces', 'metrics', 'logs']);
 
@@ -67,6 +67,54 @@ export function parseSignalsFromStability(
   return [...signals];
 }
 
+/**
+ * Parse connector signal pairs from the status.stability section of metadata.yaml.
+ * e.g., { alpha: ["traces_to_metrics"] } → [{ from: 'traces', to: 'metrics' }]
+ */
+export function parseConnectorSignalPairs(
+  stability: Record<string, string[]> | undefined,
+): ConnectorSignalPair[] {
+  if (!stability) return [];
+
+  const pairs: ConnectorSignalPair[] = [];
+  const seen = new Set<string>();
+
+  for (const entries of Object.values(stability)) {
+    if (!Array.isArray(entries)) continue;
+    for (const entry of entries) {
+      const [from, to] = entry.split('_to_');
+      if (!VALID_SIGNALS.has(from) || !VALID_SIGNALS.has(to) || seen.has(entry)) continue;
+      seen.add(entry);
+      pairs.push({ from: from as SignalType, to: to as SignalType });
+    }
+  }
+
+  return pairs;
+}
+
+const STABILITY_LEVELS = new Set<string>(['development', 'alpha', 'beta', 'stable', 'deprecated', 'unmaintained']);
+
+/**
+ * Invert the status.stability section of metadata.yaml into a level per signal.
+ * e.g., { beta: ["traces", "metrics"], alpha: ["logs"] } → { traces: 'beta', metrics: 'beta', logs: 'alpha' }
+ * Unknown levels are ignored.
+ */
+export function parseStability(
+  stability: Record<string, string[]> | undefined,
+): Record<string, StabilityLevel> {
+  const levels: Record<string, StabilityLevel> = {};
+  if (!stability) return levels;
+
+  for (const [level, entries] of Object.entries(stability)) {
+    if (!STABILITY_LEVELS.has(level) || !Array.isArray(entries)) continue;
+    for (const entry of entries) {
+      levels[entry] = level as StabilityLevel;
+    }
+  }
+
+  return levels;
+}
+
 /**
  * Map the `status.class` field from metadata.yaml to our ComponentType.
  */
@@ -102,6 +150,8 @@ export function parseMetadataYaml(
       description: ((doc['description'] as string) ?? '').trim(),
       componentType: (statusClass ? mapStatusClass(statusClass) : null) ?? fallbackComponentType,
       supportedSignals: parseSignalsFromStability(stability),
+      connectorSignalPairs: parseConnectorSignalPairs(stability),
+      stability: parseStability(stability),
     };
   } catch {
     return null;
@@ -0,0 +1,56 @@
+import { TestBed } from '@angular/core/testing';
+import { ConfigParserService } from '../services/config-parser.service';
+import { edgeEntry, linkRoles } from './pipeline-links';
+
+describe('pipeline-links', () => {
+  it('should map link ends to pipeline roles', () => {
+    expect(linkRoles('receiver', 'processor')).toEqual({ source: 'receivers', target: 'processors' });
+    expect(linkRoles('processor', 'exporter')).toEqual({ source: 'processors', target: 'exporters' });
+    expect(linkRoles('connector', 'connector')).toEqual({ source: 'receivers', target: 'exporters' });
+    expect(linkRoles('exporter', 'processor')).toBeNull();
+    expect(linkRoles('receiver', 'receiver')).toBeNull();
+    expect(linkRoles('extension', 'exporter')).toBeNull();
+  });
+
+  it('should resolve an edge to the pipeline entry it stands for', () => {
+    const parser = TestBed.inject(ConfigParserService);
+    const graph = parser.configToGraph(
+      parser.parseYaml(`
+receivers:
+  otlp:
+processors:
+  memory_limiter:
+  batch:
+exporters:
+  debug:
+service:
+  pipelines:
+    traces:
+      receivers: [otlp]
+      processors: [memory_limiter, batch]
+      exporters: [debug]
+`),
+    );
+    const entryOf = (edgeId: string) => {
+      const edge = graph.edges.find(e => e.id === edgeId)!;
+      const node = (id: string) => graph.nodes.find(n => n.id === id)!;
+      return edgeEntry(edge, node(edge.source), node(edge.target));
+    };
+
+    expect(entryOf('traces:receiver/otlp->processor/memory_limiter@traces')).toEqual({
+      pipelineId: 'traces',
+      componentId: 'otlp',
+      role: 'receivers',
+    });
+    expect(entryOf('traces:processor/memory_limiter@traces->processor/batch@traces')).toEqual({
+      pipelineId: 'traces',
+      componentId: 'batch',
+      role: 'processors',
+    });
+    expect(entryOf('traces:processor/batch@traces->exporter/debug')).toEqual({
+      pipelineId: 'traces',
+      componentId: 'debug',
+      role: 'exporters',
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { ComponentType, GraphEdge, GraphNode, PipelineRole } from '../models/otel-config.model';
+
+/** Pipeline roles the two ends of a drawn link take in the pipeline */
+export interface PipelineLinkRoles {
+  source: PipelineRole;
+  target: PipelineRole;
+}
+
+/** A component entry in one of a pipeline's lists */
+export interface PipelineEntry {
+  pipelineId: string;
+  componentId: string;
+  role: PipelineRole;
+}
+
+/**
+ * Roles for a link dragged from `source` to `target`, or null when the
+ * collector can't wire them that way. Data enters a pipeline through
+ * receivers (or connectors), flows through processors and leaves through
+ * exporters (or connectors).
+ */
+export function linkRoles(source: ComponentType, target: ComponentType): PipelineLinkRoles | null {
+  const sourceRole: PipelineRole | null =
+    source === 'receiver' || source === 'connector' ? 'receivers' : source === 'processor' ? 'processors' : null;
+  const targetRole: PipelineRole | null =
+    target === 'exporter' || target === 'connector' ? 'exporters' : target === 'processor' ? 'processors' : null;
+
+  return sourceRole && targetRole ? { source: sourceRole, target: targetRole } : null;
+}
+
+/**
+ * The pipeline entry an edge stands for, i.e. what deleting the edge removes.
+ * Edges leaving a receiver (or connector) disconnect that receiver; all other
+ * edges remove the processor or exporter they lead to, and the chain closes
+ * up around it.
+ */
+export function edgeEntry(edge: GraphEdge, source: GraphNode, target: GraphNode): PipelineEntry {
+  if (source.componentType === 'receiver' || source.componentType === 'connector') {
+    return { pipelineId: edge.pipelineId, componentId: source.component.id, role: 'receivers' };
+  }
+  return {
+    pipelineId: edge.pipelineId,
+    componentId: target.component.id,
+    role: target.componentType === 'processor' ? 'processors' : 'exporters',
+  };
+}
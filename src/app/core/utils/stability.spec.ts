@@ -0,0 +1,44 @@
+import { TestBed } from '@angular/core/testing';
+import { OtelConfig } from '../models';
+import { ConfigParserService } from '../services/config-parser.service';
+import { formatStability, lowestStability, stabilityKeysInUse } from './stability';
+
+describe('stability', () => {
+  it('should pick the least stable level', () => {
+    expect(lowestStability({ traces: 'stable', metrics: 'alpha', logs: 'beta' })).toBe('alpha');
+    expect(lowestStability({ logs: 'alpha', traces: 'deprecated' })).toBe('deprecated');
+    expect(lowestStability({})).toBeNull();
+    expect(formatStability({ traces_to_metrics: 'alpha' })).toBe('traces → metrics: alpha');
+  });
+
+  it('should list the signals a component is used with', () => {
+    const config: OtelConfig = TestBed.inject(ConfigParserService).parseYaml(`receivers:
+  otlp:
+exporters:
+  debug:
+connectors:
+  spanmetrics:
+extensions:
+  health_check:
+  pprof:
+service:
+  extensions: [health_check]
+  pipelines:
+    traces:
+      receivers: [otlp]
+      exporters: [spanmetrics]
+    metrics:
+      receivers: [otlp, spanmetrics]
+      exporters: [debug]
+`);
+    const keysOf = (id: string) =>
+      stabilityKeysInUse(config, [...config.receivers, ...config.exporters, ...config.connectors, ...config.extensions]
+        .find(c => c.id === id)!);
+
+    expect(keysOf('otlp')).toEqual(['traces', 'metrics']);
+    expect(keysOf('debug')).toEqual(['metrics']);
+    expect(keysOf('spanmetrics')).toEqual(['traces_to_metrics']);
+    expect(keysOf('health_check')).toEqual(['extension']);
+    expect(keysOf('pprof')).toEqual([]);
+  });
+});
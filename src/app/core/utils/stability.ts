@@ -0,0 +1,51 @@
+import { StabilityLevel } from '../models/component-registry.model';
+import { OtelComponent, OtelConfig } from '../models/otel-config.model';
+
+/** Stability levels from the least to the most stable */
+export const STABILITY_ORDER: StabilityLevel[] = ['unmaintained', 'deprecated', 'development', 'alpha', 'beta', 'stable'];
+
+/** Levels that mean the component is on its way out */
+export const RETIRING_LEVELS: ReadonlySet<StabilityLevel> = new Set(['deprecated', 'unmaintained']);
+
+/** Levels too early for a production config */
+export const EARLY_LEVELS: ReadonlySet<StabilityLevel> = new Set(['development', 'alpha']);
+
+/** The least stable level of a component across its signals, or null when unknown */
+export function lowestStability(stability: Record<string, StabilityLevel> | undefined): StabilityLevel | null {
+  const levels = Object.values(stability ?? {});
+  if (levels.length === 0) return null;
+  return levels.reduce((lowest, level) =>
+    STABILITY_ORDER.indexOf(level) < STABILITY_ORDER.indexOf(lowest) ? level : lowest,
+  );
+}
+
+/**
+ * Stability keys (as in metadata.yaml) that apply to how the config uses a
+ * component: the signals of its pipelines, `<from>_to_<to>` for connectors
+ * and `extension` for enabled extensions.
+ */
+export function stabilityKeysInUse(config: OtelConfig, component: OtelComponent): string[] {
+  const pipelines = config.service.pipelines;
+
+  switch (component.componentType) {
+    case 'extension':
+      return config.service.extensions?.includes(component.id) ? ['extension'] : [];
+    case 'connector': {
+      const from = new Set(pipelines.filter(p => p.exporters.includes(component.id)).map(p => p.signal));
+      const to = new Set(pipelines.filter(p => p.receivers.includes(component.id)).map(p => p.signal));
+      return [...from].flatMap(f => [...to].map(t => `${f}_to_${t}`));
+    }
+    default: {
+      const list = component.componentType === 'receiver' ? 'receivers'
+        : component.componentType === 'processor' ? 'processors' : 'exporters';
+      return [...new Set(pipelines.filter(p => p[list].includes(component.id)).map(p => p.signal))];
+    }
+  }
+}
+
+/** e.g. "traces: beta, logs: alpha" */
+export function formatStability(stability: Record<string, StabilityLevel> | undefined): string {
+  return Object.entries(stability ?? {})
+    .map(([key, level]) => `${key.replace(/_to_/g, ' → ')}: ${level}`)
+    .join(', ');
+}
@@ -0,0 +1,75 @@
+import { TestBed } from '@angular/core/testing';
+import { ConfigParserService } from '../services/config-parser.service';
+import { buildSwimlanes } from './swimlanes';
+
+describe('swimlanes', () => {
+  let parser: ConfigParserService;
+
+  beforeEach(() => {
+    parser = TestBed.inject(ConfigParserService);
+  });
+
+  const yaml = `
+receivers:
+  otlp:
+processors:
+  batch:
+  memory_limiter:
+exporters:
+  debug:
+  otlp/backend:
+connectors:
+  spanmetrics:
+extensions:
+  health_check:
+service:
+  extensions: [health_check]
+  pipelines:
+    traces:
+      receivers: [otlp]
+      processors: [memory_limiter, batch]
+      exporters: [otlp/backend, spanmetrics]
+    metrics:
+      receivers: [otlp, spanmetrics]
+      processors: [batch]
+      exporters: [otlp/backend, debug]
+`;
+
+  function lanesFor(text: string) {
+    const config = parser.parseYaml(text);
+    return buildSwimlanes(parser.configToGraph(config), config.service.pipelines);
+  }
+
+  it('should build one lane per pipeline with its processor chain in order', () => {
+    const { lanes } = lanesFor(yaml);
+
+    expect(lanes.map(l => [l.pipelineId, l.signal])).toEqual([['traces', 'traces'], ['metrics', 'metrics']]);
+    expect(lanes[0].inputs.map(n => n.id)).toEqual(['receiver/otlp#traces']);
+    expect(lanes[0].processors.map(n => n.component.id)).toEqual(['memory_limiter', 'batch']);
+    expect(lanes[0].outputs.map(n => n.id)).toEqual(['exporter/otlp/backend#traces', 'connector/spanmetrics#traces']);
+    expect(lanes[1].inputs.map(n => n.id)).toEqual(['receiver/otlp#metrics', 'connector/spanmetrics#metrics']);
+  });
+
+  it('should mark components used by several pipelines as shared', () => {
+    const { lanes } = lanesFor(yaml);
+    const [traces, metrics] = lanes;
+
+    expect(traces.inputs[0].sharedWith).toEqual(['metrics']);
+    expect(traces.processors.find(n => n.component.id === 'batch')?.sharedWith).toEqual(['metrics']);
+    expect(traces.processors.find(n => n.component.id === 'memory_limiter')?.sharedWith).toEqual([]);
+    expect(metrics.outputs.find(n => n.component.id === 'debug')?.sharedWith).toEqual([]);
+    expect(lanes.flatMap(l => [...l.inputs, ...l.outputs]).some(n => n.componentType === 'extension')).toBe(false);
+  });
+
+  it('should point every edge at nodes of its own lane', () => {
+    const { lanes, edges } = lanesFor(yaml);
+    const ids = new Set(lanes.flatMap(l => [...l.inputs, ...l.processors, ...l.outputs]).map(n => n.id));
+
+    expect(edges.every(e => ids.has(e.source) && ids.has(e.target))).toBe(true);
+    expect(edges.find(e => e.id === 'connector/spanmetrics:traces->metrics')).toMatchObject({
+      source: 'connector/spanmetrics#traces',
+      target: 'connector/spanmetrics#metrics',
+      pipelineId: 'metrics',
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  GraphData,
+  GraphEdge,
+  GraphNode,
+  OtelPipeline,
+  SignalType,
+  parsePipelineId,
+} from '../models/otel-config.model';
+
+/** One pipeline drawn as its own row: inputs → processor chain → outputs */
+export interface Swimlane {
+  pipelineId: string;
+  signal: SignalType;
+  /** Receivers (and connectors) feeding the pipeline */
+  inputs: GraphNode[];
+  /** Processor chain, in order */
+  processors: GraphNode[];
+  /** Exporters (and connectors) the pipeline sends to */
+  outputs: GraphNode[];
+}
+
+export interface SwimlaneGraph {
+  lanes: Swimlane[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Regroup a component graph into one swimlane per pipeline. Components used
+ * by several pipelines get a copy in each lane (node ID `<id>#<pipeline>`)
+ * that lists the other pipelines in `sharedWith`. A connector's copies are
+ * linked from the lane it exports from to the lane it receives into.
+ * Components outside every pipeline (extensions, unused ones) are left out.
+ */
+export function buildSwimlanes(graph: GraphData, pipelines: OtelPipeline[]): SwimlaneGraph {
+  const nodeById = new Map(graph.nodes.map(n => [n.id, n]));
+  const isProcessor = (nodeId: string) => nodeById.get(nodeId)?.componentType === 'processor';
+  const resolve = (ref: string, types: string[]) => types.map(t => `${t}/${ref}`).find(id => nodeById.has(id));
+
+  const laneIds = [...new Set([...pipelines.map(p => p.id), ...graph.edges.map(e => e.pipelineId)])];
+
+  // Which nodes each lane uses, from the pipeline definition and from the edges
+  // (the edges also carry pipelines that only exist in a diff baseline)
+  const members = new Map<string, { inputs: Set<string>; processors: GraphNode[]; outputs: Set<string> }>();
+  for (const laneId of laneIds) {
+    const pipeline = pipelines.find(p => p.id === laneId);
+    const inputs = new Set<string>();
+    const outputs = new Set<string>();
+
+    for (const ref of pipeline?.receivers ?? []) {
+      const id = resolve(ref, ['receiver', 'connector']);
+      if (id) inputs.add(id);
+    }
+    for (const ref of pipeline?.exporters ?? []) {
+      const id = resolve(ref, ['exporter', 'connector']);
+      if (id) outputs.add(id);
+    }
+    for (const edge of graph.edges.filter(e => e.pipelineId === laneId)) {
+      if (!isProcessor(edge.source)) inputs.add(edge.source);
+      if (!isProcessor(edge.target)) outputs.add(edge.target);
+    }
+
+    const processors = graph.nodes
+      .filter(n => n.pipelineId === laneId)
+      .sort((a, b) => (a.chainIndex ?? 0) - (b.chainIndex ?? 0));
+    members.set(laneId, { inputs, processors, outputs });
+  }
+
+  // Lanes using each component, keyed by node ID (processors by component)
+  const componentKey = (node: GraphNode) => (node.componentType === 'processor' ? `processor/${node.component.id}` : node.id);
+  const lanesOf = new Map<string, string[]>();
+  for (const [laneId, { inputs, processors, outputs }] of members) {
+    const keys = new Set([...inputs, ...outputs, ...processors.map(componentKey)]);
+    for (const key of keys) lanesOf.set(key, [...(lanesOf.get(key) ?? []), laneId]);
+  }
+
+  const laneNodeId = (nodeId: string, laneId: string) => (isProcessor(nodeId) ? nodeId : `${nodeId}#${laneId}`);
+  const copy = (node: GraphNode, laneId: string): GraphNode => ({
+    ...node,
+    id: laneNodeId(node.id, laneId),
+    laneId,
+    sharedWith: (lanesOf.get(componentKey(node)) ?? []).filter(id => id !== laneId),
+  });
+
+  const lanes: Swimlane[] = laneIds.map(laneId => {
+    const { inputs, processors, outputs } = members.get(laneId)!;
+    return {
+      pipelineId: laneId,
+      signal: pipelines.find(p => p.id === laneId)?.signal ?? parsePipelineId(laneId).signal,
+      inputs: [...inputs].map(id => copy(nodeById.get(id)!, laneId)),
+      processors: processors.map(node => copy(node, laneId)),
+      outputs: [...outputs].map(id => copy(nodeById.get(id)!, laneId)),
+    };
+  });
+
+  const edges: GraphEdge[] = graph.edges.map(edge => ({
+    ...edge,
+    source: laneNodeId(edge.source, edge.pipelineId),
+    target: laneNodeId(edge.target, edge.pipelineId),
+  }));
+
+  // Connectors: link the copy a pipeline exports to with the copy another receives from
+  for (const node of graph.nodes.filter(n => n.componentType === 'connector')) {
+    for (const from of laneIds.filter(id => members.get(id)!.outputs.has(node.id))) {
+      for (const to of laneIds.filter(id => members.get(id)!.inputs.has(node.id))) {
+        edges.push({
+          id: `${node.id}:${from}->${to}`,
+          source: laneNodeId(node.id, from),
+          target: laneNodeId(node.id, to),
+          pipelineId: to,
+          signal: lanes.find(l => l.pipelineId === to)!.signal,
+        });
+      }
+    }
+  }
+
+  return { lanes, edges };
+}
@@ -0,0 +1,131 @@
+import { TestBed } from '@angular/core/testing';
+import { ConfigParserService } from '../services/config-parser.service';
+import { checkTelemetry, setTelemetryValue, telemetryDestinations, telemetryLinks } from './telemetry';
+
+describe('telemetry', () => {
+  const parse = (yaml: string) => TestBed.inject(ConfigParserService).parseYaml(yaml);
+
+  const yaml = `receivers:
+  otlp:
+    protocols:
+      grpc:
+        endpoint: 0.0.0.0:4317
+  prometheus:
+    config:
+      scrape_configs:
+        - job_name: otelcol
+          static_configs:
+            - targets: [127.0.0.1:8888]
+exporters:
+  debug:
+service:
+  telemetry:
+    logs:
+      level: debug
+      output_paths: [stderr, /var/log/otelcol.log]
+    metrics:
+      level: detailed
+      readers:
+        - pull:
+            exporter:
+              prometheus:
+                host: 0.0.0.0
+                port: 8888
+        - periodic:
+            interval: 10000
+            exporter:
+              otlp:
+                protocol: grpc
+                endpoint: http://localhost:4317
+    traces:
+      level: none
+      processors:
+        - batch:
+            exporter:
+              otlp:
+                endpoint: http://collector:4317
+  pipelines:
+    metrics:
+      receivers: [otlp, prometheus]
+      exporters: [debug]
+`;
+
+  it('lists where each signal goes, leaving out disabled ones', () => {
+    const destinations = telemetryDestinations(parse(yaml).service.telemetry);
+
+    expect(destinations.map(d => `${d.signal} ${d.kind} ${d.target}`)).toEqual([
+      'logs console stderr',
+      'logs file /var/log/otelcol.log',
+      'metrics prometheus 0.0.0.0:8888',
+      'metrics otlp http://localhost:4317',
+    ]);
+    expect(telemetryDestinations(undefined).map(d => `${d.signal} ${d.target} ${d.isDefault}`)).toEqual([
+      'logs stderr true',
+      'metrics localhost:8888 true',
+    ]);
+  });
+
+  it('links telemetry to the receivers of the same collector', () => {
+    const links = telemetryLinks(parse(yaml));
+
+    expect(links.map(l => `${l.destination.kind} → ${l.receiverId}`)).toEqual([
+      'prometheus → prometheus',
+      'otlp → otlp',
+    ]);
+  });
+
+  it('reports invalid levels, readers and exporters', () => {
+    const problems = checkTelemetry({
+      logs: { level: 'verbose' },
+      metrics: {
+        address: ':8888',
+        readers: [
+          { pull: { exporter: { prometheus: { port: 'x' } } } },
+          { periodic: { exporter: { otlp: { protocol: 'http' } } } },
+          {},
+        ],
+      },
+      traces: { propagators: ['tracecontext', 'w3c'] },
+      tracing: {},
+    });
+
+    expect(problems.map(p => `${p.severity} ${p.path.join('.')}`)).toEqual([
+      'warning tracing',
+      'error logs.level',
+      'warning metrics.address',
+      'error metrics.readers.0.pull.exporter.prometheus',
+      'error metrics.readers.1.periodic.exporter.otlp',
+      'error metrics.readers.1.periodic.exporter.otlp.protocol',
+      'error metrics.readers.2',
+      'error traces.propagators.1',
+    ]);
+    expect(checkTelemetry(parse(yaml).service.telemetry)).toEqual([]);
+  });
+
+  it('accepts ${...} references for any value', () => {
+    expect(checkTelemetry({
+      logs: { level: '${env:LOG_LEVEL}', encoding: '${env:LOG_ENCODING:-json}' },
+      metrics: {
+        level: '${env:METRICS_LEVEL}',
+        readers: [
+          { pull: { exporter: { prometheus: { host: '0.0.0.0', port: '${env:METRICS_PORT}' } } } },
+          { periodic: { interval: '${env:INTERVAL}', exporter: { otlp: { protocol: '${env:PROTOCOL}', endpoint: '${env:OTLP_ENDPOINT}' } } } },
+        ],
+      },
+      traces: { propagators: ['${env:PROPAGATOR}'] },
+    })).toEqual([]);
+  });
+
+  it('sets and removes values, pruning what is left empty', () => {
+    const telemetry = setTelemetryValue(undefined, ['metrics', 'level'], 'basic');
+    expect(telemetry).toEqual({ metrics: { level: 'basic' } });
+
+    const withReader = setTelemetryValue(telemetry, ['metrics', 'readers', 0, 'pull', 'exporter', 'prometheus', 'port'], 8888);
+    expect(withReader).toEqual({
+      metrics: { level: 'basic', readers: [{ pull: { exporter: { prometheus: { port: 8888 } } } }] },
+    });
+
+    expect(setTelemetryValue(withReader, ['metrics', 'readers', 0], undefined)).toEqual(telemetry);
+    expect(setTelemetryValue(telemetry, ['metrics', 'level'], undefined)).toBeUndefined();
+  });
+});
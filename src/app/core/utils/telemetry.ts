@@ -0,0 +1,311 @@
+import { OtelConfig, OtelServiceTelemetry } from '../models/otel-config.model';
+import { TelemetryDestination, TelemetryLink, TelemetryProblem, TelemetrySignal } from '../models/telemetry.model';
+import { containsEnvReference } from './config-schema';
+import { findListenEndpoints, findScrapeTargets, isLocalHost, parseAddress } from './endpoints';
+
+export const TELEMETRY_LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+export const TELEMETRY_LOG_ENCODINGS = ['console', 'json'];
+/** Levels of `metrics.level` and `traces.level` */
+export const TELEMETRY_LEVELS = ['none', 'basic', 'normal', 'detailed'];
+export const TELEMETRY_PROPAGATORS = ['tracecontext', 'baggage', 'b3', 'b3multi', 'jaeger', 'xray', 'ottrace'];
+export const OTLP_PROTOCOLS = ['grpc', 'http/protobuf', 'http/json'];
+
+/** Collector defaults, shown when a setting is absent */
+export const TELEMETRY_DEFAULTS = {
+  logLevel: 'info',
+  logEncoding: 'console',
+  metricsLevel: 'normal',
+  tracesLevel: 'basic',
+};
+
+const TOP_LEVEL_KEYS = new Set(['resource', 'logs', 'metrics', 'traces']);
+const READER_EXPORTERS: Record<'pull' | 'periodic', string[]> = {
+  pull: ['prometheus'],
+  periodic: ['otlp', 'console'],
+};
+const PROCESSOR_EXPORTERS: Record<'logs' | 'traces', string[]> = {
+  logs: ['otlp', 'console'],
+  traces: ['otlp', 'console', 'zipkin'],
+};
+const DEFAULT_METRICS_ADDRESS = 'localhost:8888';
+
+/**
+ * Where the collector's own logs, metrics and traces go: log output paths,
+ * `readers` (pull: the address to scrape, periodic: the endpoint pushed to),
+ * the legacy `metrics.address`, and the exporters of log and trace
+ * `processors`. Includes the defaults (stderr, localhost:8888) when nothing
+ * is configured.
+ */
+export function telemetryDestinations(telemetry: OtelServiceTelemetry | undefined): TelemetryDestination[] {
+  const destinations: TelemetryDestination[] = [];
+  const add = (signal: TelemetrySignal, kind: TelemetryDestination['kind'], target: string, path: (string | number)[], isDefault = false) =>
+    destinations.push({ signal, kind, target, path, isDefault });
+
+  const logs = asRecord(telemetry?.logs) ?? {};
+  const outputPaths = Array.isArray(logs['output_paths']) ? logs['output_paths'].map(String) : null;
+  (outputPaths ?? ['stderr']).forEach((output, i) =>
+    add('logs', output === 'stderr' || output === 'stdout' ? 'console' : 'file', output,
+      outputPaths ? ['logs', 'output_paths', i] : ['logs'], !outputPaths),
+  );
+  processorDestinations(logs, 'logs', add);
+
+  const metrics = asRecord(telemetry?.metrics) ?? {};
+  if (metrics['level'] !== 'none') {
+    const readers = Array.isArray(metrics['readers']) ? metrics['readers'] : [];
+    readers.forEach((reader, i) => {
+      const pull = asRecord(asRecord(asRecord(reader)?.['pull'])?.['exporter']);
+      const periodic = asRecord(asRecord(asRecord(reader)?.['periodic'])?.['exporter']);
+      const prometheus = asRecord(pull?.['prometheus']);
+      if (prometheus) {
+        add('metrics', 'prometheus', `${prometheus['host'] ?? 'localhost'}:${prometheus['port'] ?? ''}`, ['metrics', 'readers', i]);
+      } else if (periodic?.['otlp'] !== undefined) {
+        add('metrics', 'otlp', String(asRecord(periodic['otlp'])?.['endpoint'] ?? ''), ['metrics', 'readers', i]);
+      } else if (periodic?.['console'] !== undefined) {
+        add('metrics', 'console', 'stdout', ['metrics', 'readers', i]);
+      }
+    });
+    if (typeof metrics['address'] === 'string') {
+      add('metrics', 'prometheus', metrics['address'], ['metrics', 'address']);
+    } else if (readers.length === 0) {
+      add('metrics', 'prometheus', DEFAULT_METRICS_ADDRESS, ['metrics'], true);
+    }
+  }
+
+  const traces = asRecord(telemetry?.traces) ?? {};
+  if (traces['level'] !== 'none') processorDestinations(traces, 'traces', add);
+
+  return destinations;
+}
+
+/**
+ * Telemetry the collector sends to (or has scraped by) one of its own
+ * receivers: an OTLP destination on the local host and the port of a
+ * receiver's listener, or a pull reader scraped by a prometheus receiver.
+ */
+export function telemetryLinks(config: OtelConfig): TelemetryLink[] {
+  const listeners = findListenEndpoints(config).filter(e => e.componentType === 'receiver');
+  const scrapeTargets = findScrapeTargets(config);
+
+  return telemetryDestinations(config.service.telemetry).flatMap(destination => {
+    const address = parseAddress(destination.target);
+    if (!address || !isLocalHost(address.host)) return [];
+
+    const receiverIds = destination.kind === 'prometheus'
+      ? scrapeTargets
+        .filter(t => {
+          const target = parseAddress(t.target);
+          return target?.port === address.port && isLocalHost(target.host);
+        })
+        .map(t => t.componentId)
+      : listeners.filter(e => e.port === address.port && e.protocol === 'tcp').map(e => e.componentId);
+
+    return [...new Set(receiverIds)].map(receiverId => ({ destination, receiverId }));
+  });
+}
+
+/**
+ * Structural problems in `service.telemetry`: unknown sections, invalid
+ * levels, encodings and propagators, and readers or processors without a
+ * known exporter. Values with `${...}` references are resolved by the
+ * collector at startup and are not checked.
+ */
+export function checkTelemetry(telemetry: unknown): TelemetryProblem[] {
+  const problems: TelemetryProblem[] = [];
+  const error = (message: string, path: (string | number)[]) => problems.push({ severity: 'error', message, path });
+  const oneOf = (value: unknown, allowed: string[], name: string, path: (string | number)[]) => {
+    if (value !== undefined && !containsEnvReference(value) && !allowed.includes(String(value))) {
+      error(`${name} "${value}" is not one of ${allowed.join(', ')}`, path);
+    }
+  };
+
+  if (telemetry === undefined || telemetry === null) return problems;
+  const root = asRecord(telemetry);
+  if (!root) {
+    error('service.telemetry must be a map', []);
+    return problems;
+  }
+
+  for (const key of Object.keys(root)) {
+    if (!TOP_LEVEL_KEYS.has(key)) {
+      problems.push({ severity: 'warning', message: `Unknown telemetry section "${key}"`, path: [key] });
+    }
+  }
+
+  const logs = asRecord(root['logs']);
+  if (logs) {
+    oneOf(logs['level'], TELEMETRY_LOG_LEVELS, 'Log level', ['logs', 'level']);
+    oneOf(logs['encoding'], TELEMETRY_LOG_ENCODINGS, 'Log encoding', ['logs', 'encoding']);
+    checkProcessors(logs, 'logs', error);
+  }
+
+  const metrics = asRecord(root['metrics']);
+  if (metrics) {
+    oneOf(metrics['level'], TELEMETRY_LEVELS, 'Metrics level', ['metrics', 'level']);
+    if (metrics['address'] !== undefined) {
+      problems.push({
+        severity: 'warning',
+        message: 'metrics.address is deprecated; use a pull reader with a prometheus exporter',
+        path: ['metrics', 'address'],
+      });
+    }
+    const readers = metrics['readers'];
+    if (readers !== undefined && !Array.isArray(readers)) {
+      error('metrics.readers must be a list', ['metrics', 'readers']);
+    }
+    (Array.isArray(readers) ? readers : []).forEach((reader, i) => {
+      const path = ['metrics', 'readers', i];
+      const kinds = Object.keys(asRecord(reader) ?? {}).filter(key => key === 'pull' || key === 'periodic') as ('pull' | 'periodic')[];
+      if (kinds.length !== 1) {
+        error(`Metrics reader ${i + 1} needs exactly one of pull or periodic`, path);
+        return;
+      }
+      const kind = kinds[0];
+      const settings = asRecord(asRecord(reader)![kind]) ?? {};
+      const exporter = checkExporter(settings['exporter'], READER_EXPORTERS[kind], `${kind} metrics reader ${i + 1}`, [...path, kind, 'exporter'], error);
+      if (exporter === 'prometheus') {
+        const port = asRecord(asRecord(settings['exporter'])!['prometheus'])?.['port'];
+        const invalid = !Number.isInteger(port) || (port as number) < 1 || (port as number) > 65535;
+        if (invalid && !containsEnvReference(port)) {
+          error(`Prometheus port of metrics reader ${i + 1} must be a number between 1 and 65535`, [...path, kind, 'exporter', 'prometheus']);
+        }
+      }
+      const interval = settings['interval'];
+      if (kind === 'periodic' && interval !== undefined && !containsEnvReference(interval) && !(Number(interval) > 0)) {
+        error(`Interval of metrics reader ${i + 1} must be a positive number of milliseconds`, [...path, kind, 'interval']);
+      }
+    });
+  }
+
+  const traces = asRecord(root['traces']);
+  if (traces) {
+    oneOf(traces['level'], TELEMETRY_LEVELS, 'Traces level', ['traces', 'level']);
+    const propagators = traces['propagators'];
+    if (propagators !== undefined && !Array.isArray(propagators)) {
+      error('traces.propagators must be a list', ['traces', 'propagators']);
+    }
+    (Array.isArray(propagators) ? propagators : []).forEach((propagator, i) =>
+      oneOf(propagator, TELEMETRY_PROPAGATORS, 'Propagator', ['traces', 'propagators', i]),
+    );
+    checkProcessors(traces, 'traces', error);
+  }
+
+  return problems;
+}
+
+/**
+ * `telemetry` with the value at `path` replaced, or removed when `value` is
+ * undefined (together with maps and lists left empty). Returns undefined when
+ * nothing is left.
+ */
+export function setTelemetryValue(
+  telemetry: OtelServiceTelemetry | undefined,
+  path: (string | number)[],
+  value: unknown,
+): OtelServiceTelemetry | undefined {
+  const updated = setIn(telemetry ?? {}, path, value);
+  return isEmpty(updated) ? undefined : (updated as OtelServiceTelemetry);
+}
+
+function setIn(node: unknown, path: (string | number)[], value: unknown): unknown {
+  if (path.length === 0) return value;
+  const [key, ...rest] = path;
+
+  if (typeof key === 'number') {
+    const list = Array.isArray(node) ? [...node] : [];
+    const child = setIn(list[key], rest, value);
+    if (child === undefined || isEmpty(child)) {
+      list.splice(key, 1);
+    } else {
+      list[key] = child;
+    }
+    return list.length > 0 ? list : undefined;
+  }
+
+  const map: Record<string, unknown> = { ...(asRecord(node) ?? {}) };
+  const child = setIn(map[key], rest, value);
+  if (child === undefined || (rest.length > 0 && isEmpty(child))) {
+    delete map[key];
+  } else {
+    map[key] = child;
+  }
+  return Object.keys(map).length > 0 ? map : undefined;
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  const record = asRecord(value);
+  return !!record && Object.keys(record).length === 0;
+}
+
+function processorDestinations(
+  section: Record<string, unknown>,
+  signal: 'logs' | 'traces',
+  add: (signal: TelemetrySignal, kind: TelemetryDestination['kind'], target: string, path: (string | number)[]) => void,
+): void {
+  const processors = Array.isArray(section['processors']) ? section['processors'] : [];
+  processors.forEach((processor, i) => {
+    const settings = asRecord(asRecord(processor)?.['batch'] ?? asRecord(processor)?.['simple']);
+    const exporter = asRecord(settings?.['exporter']) ?? {};
+    const path = [signal, 'processors', i];
+    if (exporter['otlp'] !== undefined) {
+      add(signal, 'otlp', String(asRecord(exporter['otlp'])?.['endpoint'] ?? ''), path);
+    } else if (exporter['zipkin'] !== undefined) {
+      add(signal, 'zipkin', String(asRecord(exporter['zipkin'])?.['endpoint'] ?? ''), path);
+    } else if (exporter['console'] !== undefined) {
+      add(signal, 'console', 'stdout', path);
+    }
+  });
+}
+
+function checkProcessors(
+  section: Record<string, unknown>,
+  signal: 'logs' | 'traces',
+  error: (message: string, path: (string | number)[]) => void,
+): void {
+  const processors = section['processors'];
+  if (processors === undefined) return;
+  if (!Array.isArray(processors)) {
+    error(`${signal}.processors must be a list`, [signal, 'processors']);
+    return;
+  }
+  processors.forEach((processor, i) => {
+    const path = [signal, 'processors', i];
+    const kind = ['batch', 'simple'].find(key => asRecord(processor)?.[key] !== undefined);
+    if (!kind) {
+      error(`Processor ${i + 1} of ${signal} needs a batch or simple processor`, path);
+      return;
+    }
+    const settings = asRecord(asRecord(processor)![kind]) ?? {};
+    checkExporter(settings['exporter'], PROCESSOR_EXPORTERS[signal], `${signal} processor ${i + 1}`, [...path, kind, 'exporter'], error);
+  });
+}
+
+/** Check the exporter of a reader or processor; returns its kind when valid */
+function checkExporter(
+  exporter: unknown,
+  allowed: string[],
+  owner: string,
+  path: (string | number)[],
+  error: (message: string, path: (string | number)[]) => void,
+): string | null {
+  const kinds = Object.keys(asRecord(exporter) ?? {});
+  const kind = kinds.find(k => allowed.includes(k));
+  if (!kind || kinds.length !== 1) {
+    error(`The ${owner} needs one exporter: ${allowed.join(', ')}`, path);
+    return null;
+  }
+  if (kind === 'otlp') {
+    const otlp = asRecord(asRecord(exporter)![kind]) ?? {};
+    if (!otlp['endpoint']) error(`The OTLP exporter of the ${owner} needs an endpoint`, [...path, kind]);
+    const protocol = otlp['protocol'];
+    if (protocol !== undefined && !containsEnvReference(protocol) && !OTLP_PROTOCOLS.includes(String(protocol))) {
+      error(`OTLP protocol "${otlp['protocol']}" is not one of ${OTLP_PROTOCOLS.join(', ')}`, [...path, kind, 'protocol']);
+    }
+  }
+  return kind;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+}
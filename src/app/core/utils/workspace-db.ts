@@ -0,0 +1,67 @@
+import { WorkspaceEntry } from '../models/workspace.model';
+
+const DB_NAME = 'otel-viewer-workspace';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const META_STORE = 'meta';
+
+/**
+ * Minimal promise wrapper around the workspace's IndexedDB database: one
+ * store of config entries (by ID) and one of key/value metadata (active
+ * tab, recent files).
+ */
+export class WorkspaceDb {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /** Whether IndexedDB exists here (it doesn't during SSR or in some private modes) */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  getEntries(): Promise<WorkspaceEntry[]> {
+    return this.request(ENTRIES_STORE, 'readonly', store => store.getAll());
+  }
+
+  putEntry(entry: WorkspaceEntry): Promise<unknown> {
+    return this.request(ENTRIES_STORE, 'readwrite', store => store.put(entry));
+  }
+
+  deleteEntry(id: string): Promise<unknown> {
+    return this.request(ENTRIES_STORE, 'readwrite', store => store.delete(id));
+  }
+
+  getMeta<T>(key: string): Promise<T | undefined> {
+    return this.request(META_STORE, 'readonly', store => store.get(key));
+  }
+
+  putMeta(key: string, value: unknown): Promise<unknown> {
+    return this.request(META_STORE, 'readwrite', store => store.put(value, key));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.dbPromise ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.dbPromise;
+  }
+
+  private async request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
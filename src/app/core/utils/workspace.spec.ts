@@ -0,0 +1,29 @@
+import { RecentFile } from '../models';
+import { MAX_RECENT_FILES, neighborId, pushRecent, uniqueName } from './workspace';
+
+describe('workspace', () => {
+  const recent = (name: string, openedAt = 0): RecentFile => ({ name, entryId: name, yaml: '', files: [], openedAt });
+
+  it('should number names that are already taken', () => {
+    expect(uniqueName('prod.yaml', [])).toBe('prod.yaml');
+    expect(uniqueName('prod.yaml', ['prod.yaml', 'prod.yaml (2)'])).toBe('prod.yaml (3)');
+    expect(uniqueName('  ', [])).toBe('Untitled');
+  });
+
+  it('should keep recent files unique, newest first and capped', () => {
+    let list = [recent('a.yaml', 1), recent('b.yaml', 2)];
+    list = pushRecent(list, recent('b.yaml', 3));
+
+    expect(list.map(r => [r.name, r.openedAt])).toEqual([['b.yaml', 3], ['a.yaml', 1]]);
+
+    for (let i = 0; i < 20; i++) list = pushRecent(list, recent(`file-${i}.yaml`));
+    expect(list.length).toBe(MAX_RECENT_FILES);
+    expect(list[0].name).toBe('file-19.yaml');
+  });
+
+  it('should pick the next tab after closing, or the previous one at the end', () => {
+    expect(neighborId(['a', 'b', 'c'], 'a')).toBe('b');
+    expect(neighborId(['a', 'b', 'c'], 'c')).toBe('b');
+    expect(neighborId(['a'], 'a')).toBeNull();
+  });
+});
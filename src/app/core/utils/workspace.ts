@@ -0,0 +1,30 @@
+import { RecentFile } from '../models/workspace.model';
+
+/** Recent files kept in the list */
+export const MAX_RECENT_FILES = 10;
+
+/**
+ * `name`, or `name (2)`, `name (3)`… if a tab already has that name.
+ */
+export function uniqueName(name: string, taken: string[]): string {
+  const base = name.trim() || 'Untitled';
+  let candidate = base;
+  for (let n = 2; taken.includes(candidate); n++) candidate = `${base} (${n})`;
+  return candidate;
+}
+
+/**
+ * Add a file to the front of the recent list, replacing an older entry with
+ * the same name, and keep at most MAX_RECENT_FILES.
+ */
+export function pushRecent(recent: RecentFile[], file: RecentFile): RecentFile[] {
+  return [file, ...recent.filter(r => r.name !== file.name)].slice(0, MAX_RECENT_FILES);
+}
+
+/** Tab to activate after closing `closedId`: the next one, or the previous one at the end */
+export function neighborId(ids: string[], closedId: string): string | null {
+  const index = ids.indexOf(closedId);
+  const remaining = ids.filter(id => id !== closedId);
+  if (remaining.length === 0) return null;
+  return remaining[Math.min(Math.max(index, 0), remaining.length - 1)];
+}
@@ -0,0 +1,50 @@
+import { LineCounter, Node, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+
+/**
+ * Resolves key paths (e.g. ['processors', 'batch', 'timeout']) to line numbers
+ * in a YAML document. The document is parsed once and can be queried many times.
+ */
+export class YamlLocator {
+  private readonly lineCounter = new LineCounter();
+  private readonly root: unknown;
+
+  constructor(yamlString: string) {
+    try {
+      this.root = parseDocument(yamlString, { lineCounter: this.lineCounter }).contents;
+    } catch {
+      this.root = null;
+    }
+  }
+
+  /**
+   * 1-indexed line of the key at `path`. If the full path doesn't exist
+   * (e.g. a missing required key), returns the line of the deepest existing ancestor.
+   */
+  lineOf(path: readonly (string | number)[]): number | undefined {
+    let node: unknown = this.root;
+    let line: number | undefined;
+
+    for (const segment of path) {
+      if (isMap(node)) {
+        const pair = node.items.find(p => String(isScalar(p.key) ? p.key.value : p.key) === String(segment));
+        if (!pair) break;
+        line = this.lineAt(pair.key) ?? line;
+        node = pair.value;
+      } else if (isSeq(node) && typeof segment === 'number') {
+        const item = node.items[segment];
+        if (!item) break;
+        line = this.lineAt(item) ?? line;
+        node = item;
+      } else {
+        break;
+      }
+    }
+
+    return line;
+  }
+
+  private lineAt(node: unknown): number | undefined {
+    const range = (node as Node | null)?.range;
+    return range ? this.lineCounter.linePos(range[0]).line : undefined;
+  }
+}
@@ -0,0 +1,34 @@
+import { Component, inject } from '@angular/core';
+import { ConfigDiffService } from '../../core/services/config-diff.service';
+import { DiffStatus, getComponentColor, ComponentType } from '../../core/models';
+import { formatChangePath } from '../../core/utils/config-diff';
+
+@Component({
+  selector: 'app-diff-panel',
+  standalone: true,
+  templateUrl: './diff-panel.component.html',
+  styleUrl: './diff-panel.component.css',
+})
+export class DiffPanelComponent {
+  readonly diff = inject(ConfigDiffService);
+
+  readonly formatPath = formatChangePath;
+
+  kindSymbol(kind: DiffStatus): string {
+    return kind === 'added' ? '+' : kind === 'removed' ? '−' : '~';
+  }
+
+  getColor(componentType: ComponentType): string {
+    return getComponentColor(componentType);
+  }
+
+  formatValue(value: unknown): string {
+    if (value === undefined) return '';
+    if (value === null) return 'null';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  formatList(ids: string[]): string {
+    return `[${ids.join(', ')}]`;
+  }
+}
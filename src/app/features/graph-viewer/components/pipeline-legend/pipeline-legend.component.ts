@@ -0,0 +1,51 @@
+import { Component, computed, inject, input, signal } from '@angular/core';
+import { SignalType, getSignalColor } from '../../../../core/models';
+import { GraphViewService } from '../../../../core/services/graph-view.service';
+
+/** A pipeline listed in the legend, with the color its edges are drawn in */
+export interface PipelineLegendEntry {
+  pipelineId: string;
+  signal: SignalType;
+  color: string;
+}
+
+/**
+ * Graph legend: click a pipeline to isolate it (Ctrl/Cmd/Shift+click to
+ * isolate several) and filter the graph to traces, metrics or logs.
+ */
+@Component({
+  selector: 'app-pipeline-legend',
+  standalone: true,
+  templateUrl: './pipeline-legend.component.html',
+  styleUrl: './pipeline-legend.component.css',
+})
+export class PipelineLegendComponent {
+  readonly entries = input.required<PipelineLegendEntry[]>();
+
+  readonly graphView = inject(GraphViewService);
+
+  readonly signalTypes: SignalType[] = ['traces', 'metrics', 'logs'];
+  readonly collapsed = signal(false);
+
+  /** Signals that have at least one pipeline */
+  readonly availableSignals = computed(() => this.signalTypes.filter(s => this.entries().some(e => e.signal === s)));
+
+  readonly getSignalColor = getSignalColor;
+
+  isIsolated(pipelineId: string): boolean {
+    return this.graphView.isolatedPipelines().includes(pipelineId);
+  }
+
+  isSignalShown(signalType: SignalType): boolean {
+    const filter = this.graphView.signalFilter();
+    return filter.length === 0 || filter.includes(signalType);
+  }
+
+  onEntryClick(event: MouseEvent, pipelineId: string): void {
+    if (event.ctrlKey || event.metaKey || event.shiftKey) {
+      this.graphView.togglePipeline(pipelineId);
+    } else {
+      this.graphView.isolatePipeline(pipelineId);
+    }
+  }
+}
@@ -3,20 +3,53 @@ import {
   ElementRef,
   AfterViewInit,
   DestroyRef,
+  computed,
   effect,
   inject,
+  untracked,
   viewChild,
 } from '@angular/core';
 import * as d3 from 'd3';
+import { MatSnackBar } from '@angular/material/snack-bar';
+import { MatDialog } from '@angular/material/dialog';
 import { ConfigStateService } from '../../core/services/config-state.service';
 import { ComponentLibraryService } from '../../core/services/component-library.service';
+import { EnvironmentService } from '../../core/services/environment.service';
+import { ConfigDiffService } from '../../core/services/config-diff.service';
+import { LayoutService } from '../../core/services/layout.service';
+import { GraphViewService } from '../../core/services/graph-view.service';
+import { Swimlane, buildSwimlanes } from '../../core/utils/swimlanes';
+import { filterGraphBySignal } from '../../core/utils/graph-filter';
+import { ComponentColors, resolveCssVariables, toDot, toMermaid } from '../../core/utils/graph-export';
+import { LayoutFormatError } from '../../core/utils/graph-layout';
 import {
   GraphNode,
   GraphEdge,
   GraphData,
-  ComponentType,
+  OtelConfig,
   getComponentColor,
+  SignalMismatch,
+  SignalType,
+  TelemetryDestination,
+  TelemetryLink,
+  getSignalColor,
+  parsePipelineId,
 } from '../../core/models';
+import { PipelineLinkRoles, edgeEntry, linkRoles } from '../../core/utils/pipeline-links';
+import { formatStability, lowestStability } from '../../core/utils/stability';
+import { telemetryDestinations, telemetryLinks } from '../../core/utils/telemetry';
+import {
+  ConnectDialogComponent,
+  ConnectDialogData,
+  ConnectDialogResult,
+} from '../../shared/components/connect-dialog/connect-dialog.component';
+import {
+  GraphExportDialogComponent,
+  GraphExportDialogData,
+  GraphExportDialogResult,
+} from '../../shared/components/graph-export-dialog/graph-export-dialog.component';
+import { TelemetryDialogComponent } from '../../shared/components/telemetry-dialog/telemetry-dialog.component';
+import { PipelineLegendComponent, PipelineLegendEntry } from './components/pipeline-legend/pipeline-legend.component';
 import {
   NODE_WIDTH,
   NODE_HEIGHT,
@@ -24,8 +57,18 @@ import {
   ROW_GAP,
   PADDING_X,
   PADDING_Y,
+  LANE_PADDING,
+  SWIMLANE_HEADER,
+  SWIMLANE_ROW_GAP,
+  SWIMLANE_GAP,
   PIPELINE_COLORS,
   COLUMN_ORDER,
+  DIFF_STYLES,
+  INCOMPATIBLE_COLOR,
+  STABILITY_COLORS,
+  TELEMETRY_LINE_HEIGHT,
+  TELEMETRY_NODE_COLOR,
+  TELEMETRY_NODE_WIDTH,
 } from './graph-viewer.constants';
 
 interface PositionedNode extends GraphNode {
@@ -33,9 +76,21 @@ interface PositionedNode extends GraphNode {
   py: number;
 }
 
+/** The collector's self-telemetry node: where it sits and what it lists */
+interface TelemetryNode {
+  px: number;
+  py: number;
+  height: number;
+  /** `service.telemetry` isn't set, so the collector's defaults apply */
+  usesDefaults: boolean;
+  destinations: TelemetryDestination[];
+  links: TelemetryLink[];
+}
+
 @Component({
   selector: 'app-graph-viewer',
   standalone: true,
+  imports: [PipelineLegendComponent],
   templateUrl: './graph-viewer.component.html',
   styleUrl: './graph-viewer.component.css',
 })
@@ -43,8 +98,14 @@ export class GraphViewerComponent implements AfterViewInit {
   readonly svgRef = viewChild.required<ElementRef<SVGSVGElement>>('graphSvg');
   readonly containerRef = viewChild.required<ElementRef<HTMLDivElement>>('graphContainer');
 
-  private readonly state = inject(ConfigStateService);
+  readonly state = inject(ConfigStateService);
+  readonly layout = inject(LayoutService);
+  readonly graphView = inject(GraphViewService);
+  readonly environment = inject(EnvironmentService);
+  private readonly diff = inject(ConfigDiffService);
   private readonly componentLibrary = inject(ComponentLibraryService);
+  private readonly snackBar = inject(MatSnackBar);
+  private readonly dialog = inject(MatDialog);
   private readonly destroyRef = inject(DestroyRef);
   private svg!: d3.Selection<SVGSVGElement, unknown, null, undefined>;
   private rootGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
@@ -54,12 +115,52 @@ export class GraphViewerComponent implements AfterViewInit {
   private currentEdges: GraphEdge[] = [];
   private edgeGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
   private pipelineColorMap = new Map<string, string>();
+  private selectedEdgeId: string | null = null;
+  private telemetryNode: TelemetryNode | null = null;
+
+  /** Graph to draw: the diff overlay, the resolved preview, or the config as written */
+  private readonly displayedGraph = computed<GraphData>(() =>
+    this.diff.active() ? this.diff.graph() : this.environment.displayedGraph(),
+  );
+
+  /**
+   * Config the displayed graph is drawn from: the resolved config in the
+   * environment preview, otherwise the current one (also the "after" side of a diff)
+   */
+  private readonly displayedConfig = computed<OtelConfig>(() =>
+    !this.diff.active() && this.environment.previewEnabled() ? this.environment.resolvedConfig() : this.state.config(),
+  );
+
+  /**
+   * Pipelines of the displayed config with their colors, before the signal
+   * filter so colors stay put. Includes pipelines without edges yet, and those
+   * only the diff overlay draws (removed since the baseline).
+   */
+  readonly pipelineLegend = computed<PipelineLegendEntry[]>(() => {
+    const pipelines = this.displayedConfig().service.pipelines.map(p => ({ pipelineId: p.id, signal: p.signal }));
+    for (const edge of this.displayedGraph().edges) {
+      if (!pipelines.some(p => p.pipelineId === edge.pipelineId)) {
+        pipelines.push({ pipelineId: edge.pipelineId, signal: edge.signal });
+      }
+    }
+    return pipelines.map((pipeline, i) => ({ ...pipeline, color: PIPELINE_COLORS[i % PIPELINE_COLORS.length] }));
+  });
 
   constructor() {
     effect(() => {
-      const graphData = this.state.graphData();
+      const graphData = this.displayedGraph();
+      const signals = this.graphView.signalFilter();
+      this.layout.revision();
+      this.graphView.viewMode();
+      if (this.svg) {
+        this.renderGraph(graphData, signals);
+      }
+    });
+
+    effect(() => {
+      this.graphView.isolatedPipelines();
       if (this.svg) {
-        this.renderGraph(graphData);
+        this.applyIsolation();
       }
     });
 
@@ -89,17 +190,37 @@ export class GraphViewerComponent implements AfterViewInit {
     // Click background to deselect
     this.svg.on('click', () => {
       this.state.clearSelection();
+      this.selectEdge(null);
     });
 
     this.rootGroup = this.svg.append('g').attr('class', 'root');
 
     // This way traces edges get pink arrows, metrics get cyan, logs get green.
 
-    // Keyboard shortcut to delete selected node
+    // Keyboard shortcuts: Delete removes the selected edge or node, Ctrl+Z / Ctrl+Shift+Z undo and redo
     d3.select('body').on('keydown.graph', (event: KeyboardEvent) => {
-      if (event.key === 'Delete' || event.key === 'Backspace') {
-        const tag = (event.target as HTMLElement).tagName;
-        if (tag === 'INPUT' || tag === 'TEXTAREA' || (event.target as HTMLElement).closest('.cm-editor')) {
+      const target = event.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable || target.closest('.cm-editor')) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if ((event.ctrlKey || event.metaKey) && (key === 'z' || key === 'y')) {
+        event.preventDefault();
+        if (key === 'y' || event.shiftKey) {
+          this.state.redo();
+        } else {
+          this.state.undo();
+        }
+        return;
+      }
+
+      // Only delete while focus is on the graph itself, not on a button or list elsewhere
+      const graphFocused = target === document.body || this.svgRef().nativeElement.contains(target);
+      if (graphFocused && (event.key === 'Delete' || event.key === 'Backspace')) {
+        if (this.selectedEdgeId) {
+          event.preventDefault();
+          this.deleteSelectedEdge();
           return;
         }
 
@@ -107,6 +228,10 @@ export class GraphViewerComponent implements AfterViewInit {
         if (selected) {
           event.preventDefault();
           this.state.removeComponent(selected.component);
+          this.snackBar
+            .open(`Removed ${selected.component.componentType} "${selected.component.id}"`, 'Undo', { duration: 5000 })
+            .onAction()
+            .subscribe(() => this.state.undo());
         }
       }
     });
@@ -118,71 +243,96 @@ export class GraphViewerComponent implements AfterViewInit {
     this.resizeObserver = new ResizeObserver(() => {
       cancelAnimationFrame(this.resizeRafId);
       this.resizeRafId = requestAnimationFrame(() => {
-        const graphData = this.state.graphData();
+        const graphData = this.displayedGraph();
         if (graphData.nodes.length > 0) {
-          this.renderGraph(graphData);
+          this.renderGraph(graphData, this.graphView.signalFilter());
         }
       });
     });
     this.resizeObserver.observe(this.containerRef().nativeElement);
   }
 
-  private renderGraph(data: GraphData): void {
+  private renderGraph(graphData: GraphData, signals: SignalType[]): void {
     this.rootGroup.selectAll('*').remove();
+    this.telemetryNode = null;
 
-    if (data.nodes.length === 0) {
+    if (graphData.nodes.length === 0) {
       this.renderEmptyState();
       return;
     }
 
-    this.currentNodes = this.layoutNodes(data.nodes);
-    this.currentEdges = data.edges;
-    this.buildPipelineColors(data.edges);
+    const data = filterGraphBySignal(graphData, signals);
+    if (data.nodes.length === 0) {
+      this.renderEmptyState('No pipelines of the selected signals', 'Change the signal filter in the legend');
+      return;
+    }
+
+    const pipelineView = this.graphView.viewMode() === 'pipelines';
+    if (pipelineView) {
+      const pipelines = this.state.config().service.pipelines
+        .filter(p => signals.length === 0 || signals.includes(p.signal));
+      const swimlanes = buildSwimlanes(data, pipelines);
+      this.currentNodes = this.applyManualPositions(this.layoutSwimlanes(swimlanes.lanes));
+      this.currentEdges = swimlanes.edges;
+    } else {
+      this.currentNodes = this.applyManualPositions(this.layoutNodes(data.nodes));
+      this.currentEdges = data.edges;
+    }
+    if (!this.currentEdges.some(e => e.id === this.selectedEdgeId)) this.selectedEdgeId = null;
+    this.buildPipelineColors();
 
     const nodeMap = new Map(this.currentNodes.map(n => [n.id, n]));
+    this.telemetryNode = this.layoutTelemetryNode(this.currentNodes);
 
-    this.renderColumnHeaders(this.currentNodes);
+    if (pipelineView) {
+      this.renderSwimlanes(this.currentNodes);
+    } else {
+      this.renderColumnHeaders(this.currentNodes);
+      this.renderProcessorLanes(this.currentNodes);
+    }
     this.edgeGroup = this.rootGroup.append('g').attr('class', 'edges');
     this.redrawEdges(nodeMap);
     this.renderNodes(this.currentNodes);
-    this.fitToView(this.currentNodes);
+    this.renderTelemetryNode();
+    this.applyIsolation();
+    this.fitToView(this.currentNodes, this.telemetryNode ? this.telemetryNode.py + this.telemetryNode.height : 0);
   }
 
+  /**
+   * Column layout (left → right per COLUMN_ORDER). Processors expand into one
+   * column per chain step, with one row (lane) per pipeline, so each pipeline's
+   * processor order reads left to right.
+   */
   private layoutNodes(nodes: GraphNode[]): PositionedNode[] {
-    const columns = new Map<ComponentType, GraphNode[]>();
+    const columns: (GraphNode | null)[][] = [];
+
     for (const type of COLUMN_ORDER) {
-      columns.set(type, []);
-    }
-    for (const node of nodes) {
-      const col = columns.get(node.componentType);
-      if (col) col.push(node);
-    }
+      const typeNodes = nodes.filter(n => n.componentType === type);
+      if (typeNodes.length === 0) continue; // no empty gaps
 
-    // Only include columns that have nodes (no empty gaps)
-    const activeColumns = COLUMN_ORDER.filter(type => {
-      const col = columns.get(type);
-      return col && col.length > 0;
-    });
+      if (type === 'processor') {
+        columns.push(...this.layoutProcessorColumns(typeNodes));
+      } else {
+        columns.push(typeNodes);
+      }
+    }
 
     // Find tallest column for vertical centering
-    let maxColumnHeight = 0;
-    for (const type of activeColumns) {
-      const colNodes = columns.get(type)!;
-      const height = colNodes.length * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
-      maxColumnHeight = Math.max(maxColumnHeight, height);
-    }
+    const maxRows = Math.max(0, ...columns.map(col => col.length));
+    const maxColumnHeight = maxRows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
 
     const positioned: PositionedNode[] = [];
 
-    for (let colIndex = 0; colIndex < activeColumns.length; colIndex++) {
-      const type = activeColumns[colIndex];
-      const colNodes = columns.get(type)!;
-      const colHeight = colNodes.length * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+    for (let colIndex = 0; colIndex < columns.length; colIndex++) {
+      const colRows = columns[colIndex];
+      const colHeight = colRows.length * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
       const offsetY = (maxColumnHeight - colHeight) / 2;
 
-      for (let rowIndex = 0; rowIndex < colNodes.length; rowIndex++) {
+      for (let rowIndex = 0; rowIndex < colRows.length; rowIndex++) {
+        const node = colRows[rowIndex];
+        if (!node) continue;
         positioned.push({
-          ...colNodes[rowIndex],
+          ...node,
           px: PADDING_X + colIndex * COLUMN_GAP,
           py: PADDING_Y + offsetY + rowIndex * (NODE_HEIGHT + ROW_GAP),
         });
@@ -192,36 +342,273 @@ export class GraphViewerComponent implements AfterViewInit {
     return positioned;
   }
 
+  /**
+   * Pipeline view layout: one band per pipeline, stacked top to bottom. Inputs,
+   * processor steps and outputs are columns shared by all lanes, so the
+   * exporters of every pipeline line up.
+   */
+  private layoutSwimlanes(lanes: Swimlane[]): PositionedNode[] {
+    const steps = Math.max(0, ...lanes.map(lane => lane.processors.length));
+    const positioned: PositionedNode[] = [];
+    let laneTop = PADDING_Y;
+
+    for (const lane of lanes) {
+      const rows = Math.max(1, lane.inputs.length, lane.outputs.length);
+      const nodesTop = laneTop + SWIMLANE_HEADER;
+      const height = rows * (NODE_HEIGHT + SWIMLANE_ROW_GAP) - SWIMLANE_ROW_GAP;
+
+      // Stack a column's nodes, centered on the lane's height
+      const place = (nodes: GraphNode[], x: number) => {
+        const columnHeight = nodes.length * (NODE_HEIGHT + SWIMLANE_ROW_GAP) - SWIMLANE_ROW_GAP;
+        nodes.forEach((node, i) => positioned.push({
+          ...node,
+          px: x,
+          py: nodesTop + (height - columnHeight) / 2 + i * (NODE_HEIGHT + SWIMLANE_ROW_GAP),
+        }));
+      };
+
+      place(lane.inputs, PADDING_X);
+      lane.processors.forEach((node, i) => place([node], PADDING_X + (i + 1) * COLUMN_GAP));
+      place(lane.outputs, PADDING_X + (steps + 1) * COLUMN_GAP);
+
+      laneTop = nodesTop + height + LANE_PADDING + SWIMLANE_GAP;
+    }
+
+    return positioned;
+  }
+
+  /** Move nodes the user has placed by hand to their saved positions */
+  private applyManualPositions(nodes: PositionedNode[]): PositionedNode[] {
+    const positions = untracked(() => this.layout.positions());
+    return nodes.map(node => {
+      const position = positions[this.positionKey(node.id)];
+      return position ? { ...node, px: position.x, py: position.y } : node;
+    });
+  }
+
+  /** Positions are kept apart per view mode, the pipeline view's under a `lanes:` prefix */
+  private positionKey(nodeId: string): string {
+    return this.graphView.viewMode() === 'pipelines' ? `lanes:${nodeId}` : nodeId;
+  }
+
+  /**
+   * Split processor nodes into one column per chain step. Every column has one
+   * row per pipeline lane (null where that pipeline's chain is shorter), followed
+   * by rows for processors not used in any pipeline.
+   */
+  private layoutProcessorColumns(processors: GraphNode[]): (GraphNode | null)[][] {
+    const lanes = [...new Set(processors.filter(n => n.pipelineId).map(n => n.pipelineId!))];
+    // Each lane's chain in order; chain indexes skip processors that aren't defined
+    const chains = lanes.map(lane =>
+      processors.filter(n => n.pipelineId === lane).sort((a, b) => (a.chainIndex ?? 0) - (b.chainIndex ?? 0)),
+    );
+    const unused = processors.filter(n => !n.pipelineId);
+    const steps = Math.max(1, ...chains.map(chain => chain.length));
+
+    const columns: (GraphNode | null)[][] = [];
+    for (let step = 0; step < steps; step++) {
+      const rows: (GraphNode | null)[] = chains.map(chain => chain[step] ?? null);
+      rows.push(...unused.map(n => (step === 0 ? n : null)));
+      columns.push(rows);
+    }
+    return columns;
+  }
+
   private renderColumnHeaders(nodes: PositionedNode[]): void {
     const headerGroup = this.rootGroup.append('g').attr('class', 'column-headers');
 
-    // Deduplicate: one header per column that has nodes
-    const seen = new Set<ComponentType>();
-
-    for (const node of nodes) {
-      if (seen.has(node.componentType)) continue;
-      seen.add(node.componentType);
+    // One header per component type, centered over all of its columns
+    for (const type of COLUMN_ORDER) {
+      const nodesInCol = nodes.filter(n => n.componentType === type);
+      if (nodesInCol.length === 0) continue;
 
-      const nodesInCol = nodes.filter(n => n.componentType === node.componentType);
-      const x = nodesInCol[0].px + NODE_WIDTH / 2;
+      const minX = Math.min(...nodesInCol.map(n => n.px));
+      const maxX = Math.max(...nodesInCol.map(n => n.px));
+      const x = (minX + maxX) / 2 + NODE_WIDTH / 2;
 
       headerGroup.append('text')
         .attr('x', x)
         .attr('y', PADDING_Y - 30)
         .attr('text-anchor', 'middle')
-        .attr('fill', getComponentColor(node.componentType))
+        .attr('fill', getComponentColor(type))
         .attr('font-size', '12px')
         .attr('font-weight', '700')
         .attr('letter-spacing', '1.5px')
-        .text(node.componentType.toUpperCase() + 'S');
+        .text(type.toUpperCase() + 'S');
     }
   }
 
+  /**
+   * Draw a faint band behind each pipeline's processor chain, labeled with the
+   * pipeline ID, so shared processors read as "this pipeline, in this order".
+   */
+  private renderProcessorLanes(nodes: PositionedNode[]): void {
+    const laneGroup = this.rootGroup.append('g').attr('class', 'processor-lanes');
+    const lanes = new Map<string, PositionedNode[]>();
+
+    for (const node of nodes) {
+      if (!node.pipelineId) continue;
+      lanes.set(node.pipelineId, [...(lanes.get(node.pipelineId) ?? []), node]);
+    }
+
+    for (const [pipelineId, laneNodes] of lanes) {
+      const color = this.pipelineColorMap.get(pipelineId) ?? '#888';
+      const minX = Math.min(...laneNodes.map(n => n.px));
+      const maxX = Math.max(...laneNodes.map(n => n.px));
+      const y = Math.min(...laneNodes.map(n => n.py));
+
+      laneGroup.append('rect')
+        .attr('x', minX - LANE_PADDING)
+        .attr('y', y - LANE_PADDING - 12)
+        .attr('width', maxX - minX + NODE_WIDTH + LANE_PADDING * 2)
+        .attr('height', NODE_HEIGHT + LANE_PADDING * 2 + 12)
+        .attr('rx', 12)
+        .attr('fill', color)
+        .attr('fill-opacity', 0.05)
+        .attr('stroke', color)
+        .attr('stroke-opacity', 0.25)
+        .attr('stroke-dasharray', '4 4');
+
+      laneGroup.append('text')
+        .attr('x', minX - LANE_PADDING + 10)
+        .attr('y', y - LANE_PADDING)
+        .attr('font-size', '10px')
+        .attr('font-weight', '600')
+        .attr('fill', color)
+        .style('cursor', 'pointer')
+        .text(pipelineId)
+        .on('click', (event: MouseEvent) => {
+          event.stopPropagation();
+          this.onPipelineLabelClick(event, pipelineId);
+        });
+    }
+  }
+
+  /**
+   * Pipeline view: a full-width band per pipeline with a clickable header
+   * (pipeline ID and signal) that isolates the pipeline.
+   */
+  private renderSwimlanes(nodes: PositionedNode[]): void {
+    const laneGroup = this.rootGroup.append('g').attr('class', 'swimlanes');
+    const lanes = new Map<string, PositionedNode[]>();
+    for (const node of nodes) {
+      lanes.set(node.laneId!, [...(lanes.get(node.laneId!) ?? []), node]);
+    }
+
+    const minX = Math.min(...nodes.map(n => n.px)) - LANE_PADDING * 2;
+    const maxX = Math.max(...nodes.map(n => n.px)) + NODE_WIDTH + LANE_PADDING * 2;
+
+    for (const [pipelineId, laneNodes] of lanes) {
+      const color = this.pipelineColorMap.get(pipelineId) ?? '#888';
+      const top = Math.min(...laneNodes.map(n => n.py)) - SWIMLANE_HEADER;
+      const bottom = Math.max(...laneNodes.map(n => n.py)) + NODE_HEIGHT + LANE_PADDING;
+
+      const lane = laneGroup.append('g')
+        .attr('class', 'swimlane')
+        .attr('data-pipeline', pipelineId);
+
+      lane.append('rect')
+        .attr('x', minX)
+        .attr('y', top)
+        .attr('width', maxX - minX)
+        .attr('height', bottom - top)
+        .attr('rx', 12)
+        .attr('fill', color)
+        .attr('fill-opacity', 0.05)
+        .attr('stroke', color)
+        .attr('stroke-opacity', 0.3);
+
+      const header = lane.append('g')
+        .attr('class', 'swimlane-header')
+        .style('cursor', 'pointer')
+        .on('click', (event: MouseEvent) => {
+          event.stopPropagation();
+          this.onPipelineLabelClick(event, pipelineId);
+        });
+
+      header.append('text')
+        .attr('x', minX + 14)
+        .attr('y', top + 19)
+        .attr('font-size', '12px')
+        .attr('font-weight', '700')
+        .attr('fill', color)
+        .text(pipelineId);
+
+      header.append('text')
+        .attr('x', minX + 14 + pipelineId.length * 7.5 + 10)
+        .attr('y', top + 19)
+        .attr('font-size', '10px')
+        .attr('font-weight', '600')
+        .attr('letter-spacing', '0.8px')
+        .attr('fill', getSignalColor(this.laneSignal(pipelineId)))
+        .text(this.laneSignal(pipelineId).toUpperCase());
+
+      header.append('title').text(`Click to isolate pipeline ${pipelineId}, Ctrl/Cmd+click to isolate several`);
+    }
+  }
+
+  private laneSignal(pipelineId: string): SignalType {
+    return this.currentEdges.find(e => e.pipelineId === pipelineId)?.signal ?? parsePipelineId(pipelineId).signal;
+  }
+
+  /** Legend-style selection on graph labels: click isolates, Ctrl/Cmd/Shift+click adds to the isolation */
+  private onPipelineLabelClick(event: MouseEvent, pipelineId: string): void {
+    if (event.ctrlKey || event.metaKey || event.shiftKey) {
+      this.graphView.togglePipeline(pipelineId);
+    } else {
+      this.graphView.isolatePipeline(pipelineId);
+    }
+  }
+
+  /**
+   * Dim every node, edge and lane that isn't part of an isolated pipeline.
+   */
+  private applyIsolation(): void {
+    if (!this.edgeGroup) return;
+    const isolated = this.visibleIsolatedPipelines();
+    const involved = isolated.size > 0 ? this.nodesInPipelines(isolated) : null;
+
+    this.rootGroup.selectAll<SVGGElement, PositionedNode>('.node')
+      .style('opacity', d => (!involved || involved.has(d.id) ? null : 0.15));
+    this.rootGroup.selectAll<SVGGElement, unknown>('.swimlane')
+      .style('opacity', function () {
+        return !involved || isolated.has(this.getAttribute('data-pipeline')!) ? null : 0.35;
+      });
+    this.redrawEdges(new Map(this.currentNodes.map(n => [n.id, n])));
+  }
+
+  /** Isolated pipelines that are drawn; isolating only filtered-out pipelines dims nothing */
+  private visibleIsolatedPipelines(): Set<string> {
+    const isolated = untracked(() => this.graphView.isolatedPipelines());
+    return new Set(isolated.filter(id => this.nodesInPipelines(new Set([id])).size > 0));
+  }
+
+  private nodesInPipelines(pipelineIds: Set<string>): Set<string> {
+    const ids = new Set<string>();
+    for (const edge of this.currentEdges) {
+      if (!pipelineIds.has(edge.pipelineId)) continue;
+      ids.add(edge.source);
+      ids.add(edge.target);
+    }
+    // Components of pipelines without edges yet (e.g. only receivers so far)
+    const members = new Set(
+      untracked(() => this.displayedConfig()).service.pipelines
+        .filter(p => pipelineIds.has(p.id))
+        .flatMap(p => [...p.receivers, ...p.processors, ...p.exporters]),
+    );
+    for (const node of this.currentNodes) {
+      const pipelineId = node.pipelineId ?? node.laneId;
+      if (pipelineId ? pipelineIds.has(pipelineId) : members.has(node.component.id)) ids.add(node.id);
+    }
+    return ids;
+  }
+
   /**
    * Draws (or redraws) all edges. Called on initial render and during drag.
    */
   private redrawEdges(nodeMap: Map<string, PositionedNode>): void {
     this.edgeGroup.selectAll('*').remove();
+    const isolated = this.visibleIsolatedPipelines();
 
     for (const edge of this.currentEdges) {
       const source = nodeMap.get(edge.source);
@@ -245,6 +632,18 @@ export class GraphViewerComponent implements AfterViewInit {
         const arcOffset = Math.min(distance * 0.4, 60);
 
         path = `M ${x1} ${y1} C ${x1 - arcOffset} ${y1 + distance * 0.3}, ${x2 - arcOffset} ${y2 - distance * 0.3}, ${x2} ${y2}`;
+      } else if (target.px < source.px) {
+        // Backward edge (e.g. connector → receiver-side pipeline) — loop around below both nodes
+        const x1 = source.px + NODE_WIDTH;
+        const y1 = source.py + NODE_HEIGHT / 2;
+        const x2 = target.px;
+        const y2 = target.py + NODE_HEIGHT / 2;
+
+        const loop = 60;
+        const yBelow = Math.max(source.py, target.py) + NODE_HEIGHT + ROW_GAP / 2;
+        const midX = (x1 + x2) / 2;
+        path = `M ${x1} ${y1} C ${x1 + loop} ${y1}, ${x1 + loop} ${yBelow}, ${midX} ${yBelow} ` +
+          `C ${x2 - loop} ${yBelow}, ${x2 - loop} ${y2}, ${x2} ${y2}`;
       } else {
         // Different columns — horizontal bezier from right side to left side
         const x1 = source.px + NODE_WIDTH;
@@ -256,14 +655,84 @@ export class GraphViewerComponent implements AfterViewInit {
         path = `M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`;
       }
 
-      this.edgeGroup.append('path')
+      const edgePath = this.edgeGroup.append('path')
         .attr('d', path)
         .attr('fill', 'none')
         .attr('stroke', this.pipelineColorMap.get(edge.pipelineId) ?? '#888')
         .attr('stroke-width', 2)
         .attr('stroke-opacity', 0.45)
         .attr('marker-end', `url(#arrow-${edge.pipelineId.replace(/[^a-zA-Z0-9]/g, '-')})`);
+
+      if (edge.diffStatus) {
+        edgePath
+          .attr('stroke', DIFF_STYLES[edge.diffStatus].color)
+          .attr('stroke-opacity', edge.diffStatus === 'removed' ? 0.4 : 0.8)
+          .attr('stroke-dasharray', edge.diffStatus === 'removed' ? '6 4' : null);
+      }
+
+      const mismatch = this.signalMismatches(source, edge.pipelineId)[0] ?? this.signalMismatches(target, edge.pipelineId)[0];
+      if (mismatch && edge.diffStatus !== 'removed') {
+        edgePath
+          .attr('stroke', INCOMPATIBLE_COLOR)
+          .attr('stroke-opacity', 0.8)
+          .attr('stroke-dasharray', '4 3');
+      }
+
+      if (edge.id === this.selectedEdgeId) {
+        edgePath.attr('stroke-width', 4).attr('stroke-opacity', 0.95);
+      } else if (isolated.size > 0 && !isolated.has(edge.pipelineId)) {
+        edgePath.attr('stroke-opacity', 0.08);
+      } else if (isolated.size > 0) {
+        edgePath.attr('stroke-width', 3).attr('stroke-opacity', 0.85);
+      }
+
+      // Wider invisible path on top so the thin edge is easy to click
+      if (edge.diffStatus !== 'removed') {
+        this.edgeGroup.append('path')
+          .attr('d', path)
+          .attr('fill', 'none')
+          .attr('stroke', 'transparent')
+          .attr('stroke-width', 12)
+          .style('cursor', 'pointer')
+          .on('click', (event: MouseEvent) => {
+            event.stopPropagation();
+            this.selectEdge(edge.id);
+          })
+          .append('title')
+          .text(
+            `${source.label} → ${target.label} (${edge.pipelineId}) — ` +
+            (mismatch ? `"${mismatch.componentId}" does not support ${mismatch.signal}; ` : '') +
+            'press Delete to remove',
+          );
+      }
     }
+
+    this.drawTelemetryLinks(nodeMap);
+  }
+
+  private selectEdge(edgeId: string | null): void {
+    if (this.selectedEdgeId === edgeId) return;
+    this.selectedEdgeId = edgeId;
+    if (edgeId) this.state.clearSelection();
+    this.redrawEdges(new Map(this.currentNodes.map(n => [n.id, n])));
+  }
+
+  /**
+   * Remove the pipeline entry the selected edge stands for (see `edgeEntry`).
+   */
+  private deleteSelectedEdge(): void {
+    const edge = this.currentEdges.find(e => e.id === this.selectedEdgeId);
+    const source = this.currentNodes.find(n => n.id === edge?.source);
+    const target = this.currentNodes.find(n => n.id === edge?.target);
+    if (!edge || !source || !target) return;
+
+    const entry = edgeEntry(edge, source, target);
+    this.selectedEdgeId = null;
+    this.state.removeComponentFromPipeline(entry.pipelineId, entry.componentId, entry.role);
+    this.snackBar
+      .open(`Removed ${entry.componentId} from pipeline ${entry.pipelineId}`, 'Undo', { duration: 5000 })
+      .onAction()
+      .subscribe(() => this.state.undo());
   }
 
   private renderNodes(nodes: PositionedNode[]): void {
@@ -335,6 +804,48 @@ export class GraphViewerComponent implements AfterViewInit {
       .attr('clip-path', 'url(#node-text-clip)')
       .text(d => d.label);
 
+    this.renderDiffMarkers(nodeSelection);
+    this.renderSignalMismatches(nodeSelection);
+    this.renderStabilityBadges(nodeSelection);
+
+    // Pipeline view: components drawn in several swimlanes
+    const shared = nodeSelection
+      .filter(d => (d.sharedWith?.length ?? 0) > 0)
+      .append('g')
+      .attr('class', 'shared-badge')
+      .attr('transform', `translate(${NODE_WIDTH - 56}, 8)`);
+    shared.append('rect')
+      .attr('width', 48)
+      .attr('height', 15)
+      .attr('rx', 7.5)
+      .attr('fill', 'var(--color-text-muted)')
+      .attr('fill-opacity', 0.18);
+    shared.append('text')
+      .attr('x', 24)
+      .attr('y', 11)
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '9px')
+      .attr('font-weight', '600')
+      .attr('fill', 'var(--color-text-secondary)')
+      .text(d => `shared ×${d.sharedWith!.length + 1}`);
+    shared.append('title').text(d => `Also in: ${d.sharedWith!.join(', ')}`);
+
+    // Output port: drag from it onto another node to link the two in a pipeline
+    nodeSelection
+      .filter(d => d.diffStatus !== 'removed' && linkRoles(d.componentType, 'exporter') !== null)
+      .append('circle')
+      .attr('class', 'output-port')
+      .attr('cx', NODE_WIDTH)
+      .attr('cy', NODE_HEIGHT / 2)
+      .attr('r', 5)
+      .attr('fill', 'var(--color-surface)')
+      .attr('stroke', d => getComponentColor(d.componentType))
+      .attr('stroke-width', 2)
+      .style('cursor', 'crosshair')
+      .call(this.createConnectBehavior())
+      .append('title')
+      .text('Drag to another component to connect');
+
     // Tooltip with component description
     nodeSelection.append('title')
       .text(d => {
@@ -350,26 +861,250 @@ export class GraphViewerComponent implements AfterViewInit {
           .attr('fill-opacity', 0.2)
           .attr('stroke-width', 2.5);
       })
-      .on('mouseleave', function () {
+      .on('mouseleave', function (_event, d) {
         d3.select(this).select('rect').transition().duration(150)
           .attr('fill-opacity', 0.1)
-          .attr('stroke-width', 1.5);
+          .attr('stroke-width', d.diffStatus ? 2.5 : 1.5);
       });
   }
 
+  /**
+   * Diff overlay: outline added/changed nodes in green/amber with a +/~ badge,
+   * and ghost removed nodes in red.
+   */
+  private renderDiffMarkers(nodeSelection: d3.Selection<SVGGElement, PositionedNode, SVGGElement, unknown>): void {
+    const diffNodes = nodeSelection.filter(d => !!d.diffStatus);
+
+    diffNodes.select('rect')
+      .attr('stroke', d => DIFF_STYLES[d.diffStatus!].color)
+      .attr('stroke-width', 2.5)
+      .attr('stroke-dasharray', d => (d.diffStatus === 'removed' ? '6 4' : null));
+
+    diffNodes.filter(d => d.diffStatus === 'removed')
+      .attr('opacity', 0.45)
+      .style('cursor', 'default');
+
+    diffNodes.append('circle')
+      .attr('cx', NODE_WIDTH)
+      .attr('cy', 0)
+      .attr('r', 9)
+      .attr('fill', d => DIFF_STYLES[d.diffStatus!].color);
+
+    diffNodes.append('text')
+      .attr('x', NODE_WIDTH)
+      .attr('y', 4)
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '13px')
+      .attr('font-weight', '700')
+      .attr('fill', '#1e1e1e')
+      .text(d => DIFF_STYLES[d.diffStatus!].badge);
+  }
+
+  /**
+   * Place the collector's self-telemetry node below all components, listing
+   * one line per destination of its logs, metrics and traces in the
+   * displayed config. Without `service.telemetry` the node is labeled as
+   * showing the collector's defaults.
+   */
+  private layoutTelemetryNode(nodes: PositionedNode[]): TelemetryNode {
+    const config = this.displayedConfig();
+    const telemetry = config.service.telemetry;
+    const destinations = telemetryDestinations(telemetry);
+    const bottom = Math.max(...nodes.map(n => n.py + NODE_HEIGHT));
+    return {
+      px: PADDING_X,
+      py: bottom + ROW_GAP,
+      height: NODE_HEIGHT + Math.max(destinations.length, 1) * TELEMETRY_LINE_HEIGHT,
+      usesDefaults: !telemetry,
+      destinations,
+      links: telemetryLinks(config),
+    };
+  }
+
+  /** The self-telemetry node; clicking it opens the telemetry editor */
+  private renderTelemetryNode(): void {
+    const node = this.telemetryNode;
+    if (!node) return;
+
+    const group = this.rootGroup.append('g')
+      .attr('class', 'telemetry-node')
+      .attr('transform', `translate(${node.px}, ${node.py})`)
+      .style('cursor', 'pointer')
+      .on('click', (event: MouseEvent) => {
+        event.stopPropagation();
+        this.dialog.open(TelemetryDialogComponent, { width: '680px', maxHeight: '85vh' });
+      });
+
+    group.append('rect')
+      .attr('width', TELEMETRY_NODE_WIDTH)
+      .attr('height', node.height)
+      .attr('rx', 10)
+      .attr('ry', 10)
+      .attr('fill', TELEMETRY_NODE_COLOR)
+      .attr('fill-opacity', 0.08)
+      .attr('stroke', TELEMETRY_NODE_COLOR)
+      .attr('stroke-width', 1.5)
+      .attr('stroke-dasharray', '6 3');
+
+    group.append('text')
+      .attr('x', 20)
+      .attr('y', 20)
+      .attr('font-size', '9px')
+      .attr('font-weight', '600')
+      .attr('letter-spacing', '0.8px')
+      .attr('fill', TELEMETRY_NODE_COLOR)
+      .text('COLLECTOR');
+
+    group.append('text')
+      .attr('x', 20)
+      .attr('y', 38)
+      .attr('font-size', '13px')
+      .attr('font-weight', '500')
+      .attr('fill', 'var(--color-text-secondary)')
+      .text(node.usesDefaults ? 'Self-telemetry (defaults)' : 'Self-telemetry');
+
+    const lines = node.destinations.length > 0
+      ? node.destinations.map(d => ({ color: getSignalColor(d.signal), text: `${d.signal} → ${this.truncate(d.target || d.kind, 30)}` }))
+      : [{ color: 'var(--color-text-muted)', text: 'no telemetry' }];
+    lines.forEach((line, i) => {
+      group.append('text')
+        .attr('x', 20)
+        .attr('y', NODE_HEIGHT + i * TELEMETRY_LINE_HEIGHT)
+        .attr('font-size', '10px')
+        .attr('fill', line.color)
+        .text(line.text);
+    });
+
+    group.append('title').text(
+      'The collector\'s own logs, metrics and traces (service.telemetry) — click to edit\n' +
+      (node.usesDefaults ? 'service.telemetry is not set, so the defaults apply\n' : '') +
+      node.destinations.map(d => `${d.signal}: ${d.kind} ${d.target}${d.isDefault ? ' (default)' : ''}`).join('\n'),
+    );
+  }
+
+  /**
+   * Dashed links from the self-telemetry node to the receivers of this config
+   * that get its telemetry (the collector scraping or receiving its own data).
+   */
+  private drawTelemetryLinks(nodeMap: Map<string, PositionedNode>): void {
+    const node = this.telemetryNode;
+    if (!node) return;
+
+    const receivers = [...nodeMap.values()].filter(n => n.componentType === 'receiver');
+    for (const link of node.links) {
+      const target = receivers.find(n => n.component.id === link.receiverId);
+      if (!target) continue;
+
+      const x1 = node.px + TELEMETRY_NODE_WIDTH / 2;
+      const y1 = node.py;
+      const x2 = target.px + NODE_WIDTH / 2;
+      const y2 = target.py + NODE_HEIGHT;
+      const midY = (y1 + y2) / 2;
+
+      this.edgeGroup.append('path')
+        .attr('class', 'telemetry-link')
+        .attr('d', `M ${x1} ${y1} C ${x1} ${midY}, ${x2} ${midY}, ${x2} ${y2}`)
+        .attr('fill', 'none')
+        .attr('stroke', getSignalColor(link.destination.signal))
+        .attr('stroke-width', 1.5)
+        .attr('stroke-opacity', 0.6)
+        .attr('stroke-dasharray', '5 4')
+        .append('title')
+        .text(`Collector ${link.destination.signal} → ${link.receiverId} (${link.destination.target})`);
+    }
+  }
+
+  private truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+  }
+
+  /**
+   * Dashed red outline and a ⚠ marker on components listed in a pipeline whose
+   * signal they don't support. Processors and swimlane copies are only marked
+   * in the pipeline they're drawn for.
+   */
+  private renderSignalMismatches(nodeSelection: d3.Selection<SVGGElement, PositionedNode, SVGGElement, unknown>): void {
+    const mismatched = nodeSelection.filter(d => d.diffStatus !== 'removed' && this.signalMismatches(d).length > 0);
+
+    mismatched.select('rect')
+      .attr('stroke', INCOMPATIBLE_COLOR)
+      .attr('stroke-width', 2)
+      .attr('stroke-dasharray', '4 3');
+
+    const marker = mismatched.append('text')
+      .attr('class', 'signal-mismatch')
+      .attr('x', NODE_WIDTH - 14)
+      .attr('y', 36)
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '13px')
+      .attr('fill', INCOMPATIBLE_COLOR)
+      .text('⚠');
+    marker.append('title').text(d => this.signalMismatches(d)
+      .map(m => `Does not support ${m.signal} (pipeline "${m.pipelineId}"); supported: ${m.supportedSignals.join(', ')}`)
+      .join('\n'));
+  }
+
+  /** Signal mismatches of a node's component, limited to `pipelineId` or the pipeline the node is drawn for */
+  private signalMismatches(node: GraphNode, pipelineId = node.laneId ?? node.pipelineId): SignalMismatch[] {
+    return this.state.signalMismatches().filter(m =>
+      m.componentId === node.component.id &&
+      m.role === `${node.componentType}s` &&
+      (!pipelineId || m.pipelineId === pipelineId),
+    );
+  }
+
+  /**
+   * Stability badge on the bottom edge of components that are not stable,
+   * showing their least stable signal; the tooltip lists every signal.
+   */
+  private renderStabilityBadges(nodeSelection: d3.Selection<SVGGElement, PositionedNode, SVGGElement, unknown>): void {
+    const stabilityOf = (d: PositionedNode) => this.componentLibrary.getStability(d.componentType, d.component.type);
+    const levelOf = (d: PositionedNode) => lowestStability(stabilityOf(d)) as keyof typeof STABILITY_COLORS;
+    const widthOf = (d: PositionedNode) => levelOf(d).length * 5.5 + 12;
+
+    const badges = nodeSelection
+      .filter(d => {
+        const level = lowestStability(stabilityOf(d));
+        return level !== null && level !== 'stable';
+      })
+      .append('g')
+      .attr('class', 'stability-badge')
+      .attr('transform', d => `translate(${NODE_WIDTH - 12 - widthOf(d)}, ${NODE_HEIGHT - 7})`);
+    badges.append('rect')
+      .attr('width', widthOf)
+      .attr('height', 14)
+      .attr('rx', 7)
+      .attr('fill', 'var(--color-surface)')
+      .attr('stroke', d => STABILITY_COLORS[levelOf(d)])
+      .attr('stroke-width', 1);
+    badges.append('text')
+      .attr('x', d => widthOf(d) / 2)
+      .attr('y', 10)
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '8px')
+      .attr('font-weight', '600')
+      .attr('letter-spacing', '0.5px')
+      .attr('fill', d => STABILITY_COLORS[levelOf(d)])
+      .text(d => levelOf(d).toUpperCase());
+    badges.append('title').text(d => `Stability — ${formatStability(stabilityOf(d))}`);
+  }
+
   /**
    * Drag behavior that updates node positions and redraws edges in real time.
-   * No force simulation — just direct position updates.
+   * No force simulation — just direct position updates. Processors dropped
+   * back into their own lane are reordered in the pipeline.
    */
   private createDragBehavior(): d3.DragBehavior<SVGGElement, PositionedNode, PositionedNode | d3.SubjectPosition> {
     let dragStartX = 0;
     let dragStartY = 0;
+    let laneY = 0;
     let hasDragged = false;
 
     return d3.drag<SVGGElement, PositionedNode>()
-      .on('start', function (event) {
+      .on('start', function (event, d) {
         dragStartX = event.x;
         dragStartY = event.y;
+        laneY = d.py;
         hasDragged = false;
         d3.select(this).raise().style('cursor', 'grabbing');
       })
@@ -394,25 +1129,315 @@ export class GraphViewerComponent implements AfterViewInit {
         this.redrawEdges(nodeMap);
       })
       .on('end', (event, d) => {
-        // If mouse barely moved, treat as a click
-        if (!hasDragged) {
+        // If mouse barely moved, treat as a click (removed diff nodes aren't in the config)
+        if (!hasDragged && d.diffStatus !== 'removed') {
+          this.selectEdge(null);
           this.state.selectNode(d.component);
         }
 
+        if (hasDragged) {
+          const inLane = d.pipelineId && d.diffStatus !== 'removed' && Math.abs(d.py - laneY) < NODE_HEIGHT;
+          if (!inLane || !this.reorderProcessor(d)) {
+            this.layout.setPosition(this.positionKey(d.id), { x: d.px, y: d.py });
+          }
+        }
+
         this.rootGroup.selectAll<SVGGElement, PositionedNode>('.node')
           .filter(n => n.id === d.id)
           .style('cursor', 'grab');
       });
   }
 
-  private fitToView(nodes: PositionedNode[]): void {
+  /**
+   * Move a processor dropped within its lane to the chain position matching
+   * where it was dropped. Returns false if the order didn't change.
+   */
+  private reorderProcessor(node: PositionedNode): boolean {
+    // The diff overlay indexes chains over both versions, not the config's list
+    if (node.componentType !== 'processor' || node.chainIndex === undefined || this.diff.active()) return false;
+    const lane = this.currentNodes.filter(n => n.pipelineId === node.pipelineId);
+    const currentOrder = [...lane].sort((a, b) => (a.chainIndex ?? 0) - (b.chainIndex ?? 0));
+    const droppedOrder = [...lane].sort((a, b) => a.px - b.px);
+
+    // Take the chain slot of the node now drawn where it was dropped
+    const position = droppedOrder.indexOf(node);
+    if (position === currentOrder.indexOf(node)) return false;
+
+    // The lane is laid out again in its new order
+    this.layout.removePositions(lane.map(n => this.positionKey(n.id)));
+    this.state.moveProcessor(node.pipelineId!, node.chainIndex, currentOrder[position].chainIndex!);
+    return true;
+  }
+
+  autoLayout(): void {
+    this.layout.autoLayout();
+  }
+
+  exportLayout(): void {
+    this.download(this.layout.exportLayoutFile(), 'otel-collector-config.layout.json', 'application/json');
+  }
+
+  /** Store the positions in the YAML itself, as a comment block the collector ignores */
+  embedLayout(): void {
+    this.state.updateYaml(this.layout.yamlWithLayout());
+    this.snackBar.open('Layout embedded as a comment block at the end of the YAML', 'Dismiss', { duration: 3000 });
+  }
+
+  onLayoutFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    file.text()
+      .then(text => {
+        const count = this.layout.importLayout(text);
+        this.snackBar.open(`Imported positions for ${count} nodes`, 'Dismiss', { duration: 3000 });
+      })
+      .catch(error => {
+        const message = error instanceof LayoutFormatError ? error.message : 'Failed to read layout file';
+        this.snackBar.open(message, 'Dismiss', { duration: 5000 });
+      });
+
+    // Reset input so the same file can be loaded again
+    input.value = '';
+  }
+
+  /**
+   * Export what the graph shows: SVG and PNG from the current rendering,
+   * Mermaid and DOT from the graph data (with the signal filter applied).
+   */
+  exportGraph(): void {
+    const graph = filterGraphBySignal(this.displayedGraph(), this.graphView.signalFilter());
+    const colors = this.resolvedComponentColors();
+
+    this.dialog
+      .open(GraphExportDialogComponent, {
+        width: '560px',
+        data: { mermaid: toMermaid(graph, colors), dot: toDot(graph, colors) } satisfies GraphExportDialogData,
+      })
+      .afterClosed()
+      .subscribe((result: GraphExportDialogResult | undefined) => {
+        if (!result) return;
+        switch (result.format) {
+          case 'svg':
+            this.download(this.standaloneSvg().markup, 'otel-collector-graph.svg', 'image/svg+xml');
+            break;
+          case 'png':
+            this.renderPng(result.scale)
+              .then(png => this.download(png, 'otel-collector-graph.png', 'image/png'))
+              .catch(() => this.snackBar.open('Failed to render PNG', 'Dismiss', { duration: 5000 }));
+            break;
+          case 'mermaid':
+            this.download(toMermaid(graph, colors), 'otel-collector-graph.mmd', 'text/plain');
+            break;
+          case 'dot':
+            this.download(toDot(graph, colors), 'otel-collector-graph.dot', 'text/vnd.graphviz');
+            break;
+        }
+      });
+  }
+
+  private resolvedComponentColors(): ComponentColors {
+    const style = getComputedStyle(this.svgRef().nativeElement);
+    const lookup = (name: string) => style.getPropertyValue(name);
+    const types = ['receiver', 'processor', 'exporter', 'connector', 'extension'] as const;
+    return Object.fromEntries(types.map(type => [type, resolveCssVariables(getComponentColor(type), lookup)]));
+  }
+
+  /**
+   * A copy of the rendered graph that stands on its own: cropped to the
+   * nodes, without zoom or editing handles, and with CSS variables replaced
+   * by the current theme's colors.
+   */
+  private standaloneSvg(): { markup: string; width: number; height: number } {
+    const source = this.svgRef().nativeElement;
+    const style = getComputedStyle(source);
+    const lookup = (name: string) => style.getPropertyValue(name);
+
+    const margin = 24;
+    const box = this.rootGroup.node()!.getBBox();
+    const width = Math.ceil(box.width + margin * 2);
+    const height = Math.ceil(box.height + margin * 2);
+
+    const svg = source.cloneNode(true) as SVGSVGElement;
+    svg.querySelector('g.root')?.removeAttribute('transform');
+    svg.querySelectorAll('.output-port, .connect-preview, [stroke="transparent"]').forEach(el => el.remove());
+    for (const el of [svg, ...Array.from(svg.querySelectorAll('*'))]) {
+      for (const attr of Array.from(el.attributes)) {
+        if (attr.value.includes('var(')) el.setAttribute(attr.name, resolveCssVariables(attr.value, lookup));
+      }
+    }
+
+    svg.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    svg.setAttribute('viewBox', `${box.x - margin} ${box.y - margin} ${width} ${height}`);
+    svg.setAttribute('width', String(width));
+    svg.setAttribute('height', String(height));
+    svg.setAttribute('font-family', style.fontFamily);
+
+    const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    background.setAttribute('x', String(box.x - margin));
+    background.setAttribute('y', String(box.y - margin));
+    background.setAttribute('width', String(width));
+    background.setAttribute('height', String(height));
+    background.setAttribute('fill', resolveCssVariables('var(--color-bg-primary)', lookup));
+    svg.insertBefore(background, svg.firstChild);
+
+    return { markup: new XMLSerializer().serializeToString(svg), width, height };
+  }
+
+  private async renderPng(scale: number): Promise<Blob> {
+    const { markup, width, height } = this.standaloneSvg();
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+      return await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas is empty'))), 'image/png'),
+      );
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  private download(content: string | Blob, fileName: string, type: string): void {
+    const url = URL.createObjectURL(content instanceof Blob ? content : new Blob([content], { type }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Drag behavior for output ports: draws a preview link to the pointer and,
+   * when dropped on a node, links the two components in a pipeline.
+   */
+  private createConnectBehavior(): d3.DragBehavior<SVGCircleElement, PositionedNode, PositionedNode | d3.SubjectPosition> {
+    let preview: d3.Selection<SVGPathElement, unknown, null, undefined> | null = null;
+    let hovered: PositionedNode | null = null;
+
+    return d3.drag<SVGCircleElement, PositionedNode>()
+      .on('start', () => {
+        hovered = null;
+        preview = this.rootGroup.append('path')
+          .attr('class', 'connect-preview')
+          .attr('fill', 'none')
+          .attr('stroke-width', 2)
+          .attr('stroke-dasharray', '6 4')
+          .attr('pointer-events', 'none');
+      })
+      .on('drag', (event, d) => {
+        const [x, y] = d3.pointer(event.sourceEvent, this.rootGroup.node());
+        hovered = this.currentNodes.find(n =>
+          n !== d && n.diffStatus !== 'removed' &&
+          x >= n.px && x <= n.px + NODE_WIDTH && y >= n.py && y <= n.py + NODE_HEIGHT,
+        ) ?? null;
+
+        const x1 = d.px + NODE_WIDTH;
+        const y1 = d.py + NODE_HEIGHT / 2;
+        const midX = (x1 + x) / 2;
+        const valid = !hovered || linkRoles(d.componentType, hovered.componentType) !== null;
+        preview
+          ?.attr('d', `M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y}, ${x} ${y}`)
+          .attr('stroke', valid ? getComponentColor(d.componentType) : '#ff5252');
+      })
+      .on('end', (_event, d) => {
+        preview?.remove();
+        preview = null;
+        if (hovered) this.connectNodes(d, hovered);
+      });
+  }
+
+  /**
+   * Link two components in a pipeline. Processor nodes belong to one pipeline,
+   * which is then used; otherwise the user picks a pipeline or creates one.
+   */
+  private connectNodes(source: PositionedNode, target: PositionedNode): void {
+    const roles = linkRoles(source.componentType, target.componentType);
+    if (!roles || source.component.id === target.component.id) {
+      this.snackBar.open(`A ${source.componentType} can't send data to a ${target.componentType}`, 'Dismiss', { duration: 3000 });
+      return;
+    }
+    if (source.pipelineId && target.pipelineId && source.pipelineId !== target.pipelineId) {
+      this.snackBar.open('These processors are in different pipelines', 'Dismiss', { duration: 3000 });
+      return;
+    }
+
+    // In the pipeline view, two copies in the same swimlane are linked in that pipeline
+    const sameLane = source.laneId && source.laneId === target.laneId ? source.laneId : undefined;
+    const pipelineId = source.pipelineId ?? target.pipelineId ?? sameLane;
+    if (pipelineId) {
+      this.applyConnection(source, target, roles, { pipelineId });
+      return;
+    }
+
+    this.dialog
+      .open(ConnectDialogComponent, {
+        width: '460px',
+        data: {
+          sourceId: source.component.id,
+          targetId: target.component.id,
+          pipelines: this.state.config().service.pipelines,
+        } satisfies ConnectDialogData,
+      })
+      .afterClosed()
+      .subscribe((result: ConnectDialogResult | undefined) => {
+        if (result) this.applyConnection(source, target, roles, result);
+      });
+  }
+
+  private applyConnection(
+    source: PositionedNode,
+    target: PositionedNode,
+    roles: PipelineLinkRoles,
+    choice: ConnectDialogResult,
+  ): void {
+    const yamlBefore = this.state.rawYaml();
+    let pipelineId = '';
+
+    this.state.transaction(() => {
+      pipelineId = choice.newPipeline
+        ? this.state.addPipeline(choice.newPipeline.signal, choice.newPipeline.name)
+        : choice.pipelineId!;
+      this.state.addComponentToPipeline(pipelineId, source.component.id, roles.source);
+      this.state.addComponentToPipeline(pipelineId, target.component.id, roles.target);
+
+      // Processor → processor: the target runs right after the source
+      if (roles.source === 'processors' && roles.target === 'processors') {
+        const chain = this.state.config().service.pipelines.find(p => p.id === pipelineId)?.processors ?? [];
+        const sourceIndex = chain.indexOf(source.component.id);
+        const targetIndex = chain.indexOf(target.component.id);
+        this.state.moveProcessor(pipelineId, targetIndex, targetIndex < sourceIndex ? sourceIndex : sourceIndex + 1);
+      }
+
+      return `Connected ${source.component.id} → ${target.component.id} in pipeline ${pipelineId}`;
+    });
+
+    if (this.state.rawYaml() === yamlBefore) {
+      this.snackBar.open(`Already connected in pipeline ${pipelineId}`, 'Dismiss', { duration: 3000 });
+      return;
+    }
+    this.snackBar
+      .open(`Connected ${source.component.id} → ${target.component.id} in ${pipelineId}`, 'Undo', { duration: 5000 })
+      .onAction()
+      .subscribe(() => this.state.undo());
+  }
+
+  private fitToView(nodes: PositionedNode[], bottom = 0): void {
     if (nodes.length === 0) return;
 
     const containerWidth = this.containerRef().nativeElement.clientWidth;
     const containerHeight = this.containerRef().nativeElement.clientHeight;
 
     const maxX = Math.max(...nodes.map(n => n.px + NODE_WIDTH));
-    const maxY = Math.max(...nodes.map(n => n.py + NODE_HEIGHT));
+    const maxY = Math.max(bottom, ...nodes.map(n => n.py + NODE_HEIGHT));
     const contentWidth = maxX + PADDING_X;
     const contentHeight = maxY + PADDING_Y;
 
@@ -431,7 +1456,10 @@ export class GraphViewerComponent implements AfterViewInit {
     );
   }
 
-  private renderEmptyState(): void {
+  private renderEmptyState(
+    title = 'Load an OTel Collector config to visualize',
+    hint = 'Use "Load Sample" or paste YAML in the panel →',
+  ): void {
     const width = this.containerRef().nativeElement.clientWidth;
     const height = this.containerRef().nativeElement.clientHeight;
 
@@ -443,22 +1471,20 @@ export class GraphViewerComponent implements AfterViewInit {
       .attr('fill', 'var(--color-text-muted)')
       .attr('font-size', '20px')
       .attr('font-weight', '500')
-      .text('Load an OTel Collector config to visualize');
+      .text(title);
 
     g.append('text')
       .attr('y', 30)
       .attr('text-anchor', 'middle')
       .attr('fill', 'var(--color-empty-state)')
       .attr('font-size', '14px')
-      .text('Use "Load Sample" or paste YAML in the panel →');
+      .text(hint);
   }
 
-  private buildPipelineColors(edges: GraphEdge[]): void {
+  private buildPipelineColors(): void {
     this.pipelineColorMap.clear();
-    const pipelineIds = [...new Set(edges.map(e => e.pipelineId))];
-
-    for (let i = 0; i < pipelineIds.length; i++) {
-      this.pipelineColorMap.set(pipelineIds[i], PIPELINE_COLORS[i % PIPELINE_COLORS.length]);
+    for (const entry of untracked(() => this.pipelineLegend())) {
+      this.pipelineColorMap.set(entry.pipelineId, entry.color);
     }
 
     // Create arrow markers per pipeline
@@ -1,4 +1,4 @@
-import { ComponentType } from '../../core/models';
+import { ComponentType, DiffStatus, StabilityLevel } from '../../core/models';
 
 export const NODE_WIDTH = 180;
 export const NODE_HEIGHT = 52;
@@ -6,10 +6,38 @@ export const COLUMN_GAP = 260;   // horizontal space between receiver → proces
 export const ROW_GAP = 80;       // vertical space between nodes in the same column
 export const PADDING_X = 80;
 export const PADDING_Y = 80;
+export const LANE_PADDING = 12;  // space between a processor lane band and its nodes
+export const SWIMLANE_HEADER = 28;   // pipeline view: room for the lane label above its nodes
+export const SWIMLANE_ROW_GAP = 20;  // pipeline view: vertical space between nodes in a lane
+export const SWIMLANE_GAP = 20;      // pipeline view: vertical space between lanes
 
 /** Column order for the graph layout (left → right) */
 export const COLUMN_ORDER: ComponentType[] = ['extension', 'receiver', 'processor', 'exporter', 'connector'];
 
+/** Colors and badges used when the graph shows a diff against a baseline */
+export const DIFF_STYLES: Record<DiffStatus, { color: string; badge: string }> = {
+  added: { color: '#4CAF50', badge: '+' },
+  removed: { color: '#ff5252', badge: '−' },
+  changed: { color: '#FFC107', badge: '~' },
+};
+
+/** Outline of nodes and edges where a component doesn't support the pipeline's signal */
+export const INCOMPATIBLE_COLOR = '#ff5252';
+
+/** The collector's self-telemetry node, drawn below the components */
+export const TELEMETRY_NODE_WIDTH = 260;
+export const TELEMETRY_NODE_COLOR = '#94a3b8';
+export const TELEMETRY_LINE_HEIGHT = 14;
+
+/** Badge colors of components that are not stable yet (or anymore) */
+export const STABILITY_COLORS: Record<Exclude<StabilityLevel, 'stable'>, string> = {
+  beta: '#94a3b8',
+  alpha: '#fb923c',
+  development: '#fb923c',
+  deprecated: '#f87171',
+  unmaintained: '#f87171',
+};
+
 export const PIPELINE_COLORS = [
   '#f472b6', // pink
   '#38bdf8', // cyan
@@ -0,0 +1,196 @@
+import { Component, computed, effect, inject, input, signal } from '@angular/core';
+import * as yaml from 'js-yaml';
+import { COMPONENT_TYPE_TO_SECTION, ConfigFieldSchema, ConfigFormField, OtelComponent } from '../../../../core/models';
+import { ConfigDiffService } from '../../../../core/services/config-diff.service';
+import { ConfigStateService } from '../../../../core/services/config-state.service';
+import { EnvironmentService } from '../../../../core/services/environment.service';
+import { findComponentSchema } from '../../../../core/utils/component-schemas';
+import { formatChangePath } from '../../../../core/utils/config-diff';
+import {
+  ParsedFieldInput,
+  buildConfigForm,
+  childSchema,
+  defaultFieldValue,
+  objectKeyOptions,
+  parseFieldInput,
+  parseListItem,
+  removeConfigValue,
+  setConfigValue,
+} from '../../../../core/utils/config-form';
+
+/**
+ * Editable form for the settings of one component. Every committed change
+ * goes through ConfigStateService, so it patches the YAML (keeping comments)
+ * and can be undone. The form shows the component as it is in the current
+ * config (not the node that was clicked, which may be a resolved or diff
+ * copy) and is read-only while the environment preview or a diff is shown.
+ */
+@Component({
+  selector: 'app-config-form',
+  standalone: true,
+  templateUrl: './config-form.component.html',
+  styleUrl: './config-form.component.css',
+})
+export class ConfigFormComponent {
+  readonly component = input.required<OtelComponent>();
+
+  private readonly state = inject(ConfigStateService);
+  private readonly environment = inject(EnvironmentService);
+  private readonly diff = inject(ConfigDiffService);
+
+  /** The selected component as it is in the current config, or null when the config doesn't have it */
+  readonly liveComponent = computed(() => {
+    const { componentType, id } = this.component();
+    return this.state.config()[COMPONENT_TYPE_TO_SECTION[componentType]].find(c => c.id === id) ?? null;
+  });
+
+  /** Why the form can't be edited right now, or null when it can */
+  readonly readOnlyReason = computed(() => {
+    if (this.environment.previewEnabled()) return 'Read-only while the environment preview is shown';
+    if (this.diff.active()) return 'Read-only while a diff is shown';
+    if (!this.liveComponent()) return 'Not in the current config';
+    return null;
+  });
+
+  /** Schema of the component type, when one is known */
+  readonly schema = computed(() => {
+    const component = this.component();
+    return findComponentSchema(component.componentType, component.type)?.config;
+  });
+
+  readonly config = computed<Record<string, unknown>>(() =>
+    (this.readOnlyReason() ? this.component() : this.liveComponent())?.config ?? {},
+  );
+
+  readonly fields = computed(() => buildConfigForm(this.config(), this.schema()));
+
+  readonly rootKeys = computed(() => objectKeyOptions(this.config(), this.schema()));
+
+  /** Rejected input per field path */
+  readonly errors = signal<Record<string, string>>({});
+
+  /** Path of the object whose "add key" row is open ('' for the top level) */
+  readonly addingTo = signal<string | null>(null);
+
+  private readonly componentKey = computed(() => `${this.component().componentType}/${this.component().id}`);
+
+  constructor() {
+    // Start clean when another component is selected
+    effect(() => {
+      this.componentKey();
+      this.errors.set({});
+      this.addingTo.set(null);
+    });
+  }
+
+  pathKey(path: string[]): string {
+    return path.join('.');
+  }
+
+  errorFor(path: string[]): string | undefined {
+    return this.errors()[this.pathKey(path)];
+  }
+
+  textValue(field: ConfigFormField): string {
+    return field.value === null || field.value === undefined ? '' : String(field.value);
+  }
+
+  yamlValue(field: ConfigFormField): string {
+    return yaml.dump(field.value, { indent: 2, lineWidth: 120, noRefs: true }).trimEnd();
+  }
+
+  listItems(field: ConfigFormField): unknown[] {
+    return Array.isArray(field.value) ? field.value : [];
+  }
+
+  commitText(field: ConfigFormField, event: Event): void {
+    const text = (event.target as HTMLInputElement | HTMLTextAreaElement).value;
+    this.commit(field.path, parseFieldInput(field.kind, text), `Set ${this.describe(field.path)}`);
+  }
+
+  commitBoolean(field: ConfigFormField, event: Event): void {
+    const checked = (event.target as HTMLInputElement).checked;
+    this.commit(field.path, { value: checked }, `Set ${this.describe(field.path)}`);
+  }
+
+  commitListItem(field: ConfigFormField, index: number, event: Event): void {
+    const parsed = parseListItem((event.target as HTMLInputElement).value, field.schema?.items);
+    if ('error' in parsed) {
+      this.setError(field.path, parsed.error);
+      return;
+    }
+    const items = this.listItems(field).map((item, i) => (i === index ? parsed.value : item));
+    this.commit(field.path, { value: items }, `Set ${this.describe(field.path)}`);
+  }
+
+  addListItem(field: ConfigFormField): void {
+    const items = [...this.listItems(field), defaultFieldValue(field.schema?.items)];
+    this.commit(field.path, { value: items }, `Added item to ${this.describe(field.path)}`);
+  }
+
+  removeListItem(field: ConfigFormField, index: number): void {
+    const items = this.listItems(field).filter((_, i) => i !== index);
+    this.commit(field.path, { value: items }, `Removed item from ${this.describe(field.path)}`);
+  }
+
+  removeKey(field: ConfigFormField): void {
+    this.apply(removeConfigValue(this.config(), field.path), `Removed ${this.describe(field.path)}`);
+  }
+
+  openAddKey(path: string[]): void {
+    this.addingTo.set(this.pathKey(path));
+  }
+
+  /**
+   * Add `key` to the object at `parentPath` with a default value for its
+   * schema type. Keys the schema doesn't know are only accepted where the
+   * schema allows them.
+   */
+  addKey(parentPath: string[], parentSchema: ConfigFieldSchema | undefined, keyInput: HTMLInputElement): void {
+    const key = keyInput.value.trim();
+    if (!key) return;
+
+    const parent = parentPath.length > 0 ? this.fields().find(f => this.pathKey(f.path) === this.pathKey(parentPath)) : null;
+    const options = parent ?? this.rootKeys();
+    const existing = parent ? parent.value : this.config();
+
+    if (existing && typeof existing === 'object' && key in existing) {
+      this.setError(parentPath, `"${key}" is already set`);
+      return;
+    }
+    if (!options.allowsCustomKeys && !options.missingKeys.includes(key)) {
+      this.setError(parentPath, `"${key}" is not a known setting here`);
+      return;
+    }
+
+    const path = [...parentPath, key];
+    this.apply(
+      setConfigValue(this.config(), path, defaultFieldValue(childSchema(parentSchema, key))),
+      `Added ${this.describe(path)}`,
+    );
+    this.addingTo.set(null);
+  }
+
+  private commit(path: string[], parsed: ParsedFieldInput, label: string): void {
+    if ('error' in parsed) {
+      this.setError(path, parsed.error);
+      return;
+    }
+    this.apply(setConfigValue(this.config(), path, parsed.value), label);
+  }
+
+  private apply(config: Record<string, unknown>, label: string): void {
+    this.errors.set({});
+    const component = this.liveComponent();
+    if (!component || this.readOnlyReason() || JSON.stringify(config) === JSON.stringify(this.config())) return;
+    this.state.updateComponentConfig(component, config, label);
+  }
+
+  private setError(path: string[], message: string): void {
+    this.errors.update(errors => ({ ...errors, [this.pathKey(path)]: message }));
+  }
+
+  private describe(path: string[]): string {
+    return `${this.component().id} ${formatChangePath(path)}`;
+  }
+}
@@ -3,10 +3,12 @@ import { MatDialog } from '@angular/material/dialog';
 import { ConfigStateService } from '../../core/services/config-state.service';
 import { getComponentColor } from '../../core/models';
 import { ConfirmDialogComponent, ConfirmDialogData } from '../../shared/components/confirm-dialog/confirm-dialog.component';
+import { ConfigFormComponent } from './components/config-form/config-form.component';
 
 @Component({
   selector: 'app-node-detail',
   standalone: true,
+  imports: [ConfigFormComponent],
   templateUrl: './node-detail.component.html',
   styleUrl: './node-detail.component.css',
 })
@@ -20,18 +22,6 @@ export class NodeDetailComponent {
     return node ? getComponentColor(node.component.componentType) : '#ffffff';
   }
 
-  formatConfig(): string {
-    const node = this.state.selectedNode();
-    if (!node) return '';
-
-    const config = node.component.config;
-    if (!config || Object.keys(config).length === 0) {
-      return 'No configuration';
-    }
-
-    return JSON.stringify(config, null, 2);
-  }
-
   onGoToYaml(): void {
     const node = this.state.selectedNode();
     if (node?.yamlLine) {
@@ -8,7 +8,21 @@ import { ThemeService } from '../../core/services/theme.service';
 import { ConfigUrlService, ConfigTooLargeError } from '../../core/services/config-url.service';
 import { AddComponentDialogComponent, AddComponentDialogResult } from '../../shared/components/add-component-dialog/add-component-dialog.component';
 import { PipelineManagerDialogComponent } from '../../shared/components/pipeline-manager-dialog/pipeline-manager-dialog.component';
+import { EnvironmentDialogComponent } from '../../shared/components/environment-dialog/environment-dialog.component';
+import { EnvironmentService } from '../../core/services/environment.service';
+import { DistributionDialogComponent } from '../../shared/components/distribution-dialog/distribution-dialog.component';
+import { PortsDialogComponent } from '../../shared/components/ports-dialog/ports-dialog.component';
+import { TelemetryDialogComponent } from '../../shared/components/telemetry-dialog/telemetry-dialog.component';
+import { DistributionService } from '../../core/services/distribution.service';
+import { CompareDialogComponent } from '../../shared/components/compare-dialog/compare-dialog.component';
+import { ConfigDiffService } from '../../core/services/config-diff.service';
+import { GraphViewService } from '../../core/services/graph-view.service';
+import { HistoryDialogComponent } from '../../shared/components/history-dialog/history-dialog.component';
 import { ConfirmDialogComponent, ConfirmDialogData } from '../../shared/components/confirm-dialog/confirm-dialog.component';
+import { ShareDialogComponent } from '../../shared/components/share-dialog/share-dialog.component';
+import { RedactionDialogComponent, RedactionDialogData } from '../../shared/components/redaction-dialog/redaction-dialog.component';
+import { RedactionService } from '../../core/services/redaction.service';
+import { WorkspaceService } from '../../core/services/workspace.service';
 
 @Component({
   selector: 'app-toolbar',
@@ -22,6 +36,12 @@ export class ToolbarComponent {
 
   readonly state = inject(ConfigStateService);
   readonly themeService = inject(ThemeService);
+  readonly environment = inject(EnvironmentService);
+  readonly diff = inject(ConfigDiffService);
+  readonly distributions = inject(DistributionService);
+  private readonly graphView = inject(GraphViewService);
+  private readonly redaction = inject(RedactionService);
+  private readonly workspace = inject(WorkspaceService);
   private readonly http = inject(HttpClient);
   private readonly configUrlService = inject(ConfigUrlService);
   private readonly snackBar = inject(MatSnackBar);
@@ -36,33 +56,47 @@ export class ToolbarComponent {
       .afterClosed()
       .subscribe((result: AddComponentDialogResult | null) => {
         if (result) {
-          const addedId = this.state.addComponent(result.definition, result.instanceName);
-          const role = this.getComponentRole(result.definition.componentType);
+          let addedId = '';
+
+          // Adding the component and wiring it into pipelines is undone as one step
+          this.state.transaction(() => {
+            addedId = this.state.addComponent(result.definition, result.instanceName);
+            const role = this.getComponentRole(result.definition.componentType);
+
+            // Create new pipeline if requested
+            if (result.newPipeline) {
+              const newPipelineId = this.state.addPipeline(result.newPipeline.signal, result.newPipeline.name);
+              if (role) {
+                this.state.addComponentToPipeline(newPipelineId, addedId, role);
+              }
+            }
 
-          // Create new pipeline if requested
-          if (result.newPipeline) {
-            const newPipelineId = this.state.addPipeline(result.newPipeline.signal, result.newPipeline.name);
+            // Add to selected existing pipelines
             if (role) {
-              this.state.addComponentToPipeline(newPipelineId, addedId, role);
+              for (const pipelineId of result.pipelineIds) {
+                this.state.addComponentToPipeline(pipelineId, addedId, role);
+              }
             }
-          }
 
-          // Add to selected existing pipelines
-          if (role) {
-            for (const pipelineId of result.pipelineIds) {
-              this.state.addComponentToPipeline(pipelineId, addedId, role);
-            }
-          }
+            return `Added ${result.definition.componentType} ${addedId}`;
+          });
 
           this.snackBar.open(
             `Added ${result.definition.componentType} "${addedId}"`,
-            'Dismiss',
+            'Undo',
             { duration: 3000 },
-          );
+          ).onAction().subscribe(() => this.state.undo());
         }
       });
   }
 
+  openHistory(): void {
+    this.dialog.open(HistoryDialogComponent, {
+      width: '480px',
+      maxHeight: '80vh',
+    });
+  }
+
   openPipelineManager(): void {
     this.dialog.open(PipelineManagerDialogComponent, {
       width: '650px',
@@ -70,6 +104,41 @@ export class ToolbarComponent {
     });
   }
 
+  openEnvironments(): void {
+    this.dialog.open(EnvironmentDialogComponent, {
+      width: '720px',
+      maxHeight: '85vh',
+    });
+  }
+
+  openDistribution(): void {
+    this.dialog.open(DistributionDialogComponent, {
+      width: '640px',
+      maxHeight: '85vh',
+    });
+  }
+
+  openPorts(): void {
+    this.dialog.open(PortsDialogComponent, {
+      width: '680px',
+      maxHeight: '85vh',
+    });
+  }
+
+  openTelemetry(): void {
+    this.dialog.open(TelemetryDialogComponent, {
+      width: '680px',
+      maxHeight: '85vh',
+    });
+  }
+
+  openCompare(): void {
+    this.dialog.open(CompareDialogComponent, {
+      width: '640px',
+      maxHeight: '85vh',
+    });
+  }
+
   private getComponentRole(componentType: ComponentType): PipelineRole | null {
     return COMPONENT_TYPE_TO_ROLE[componentType] ?? null;
   }
@@ -78,7 +147,7 @@ export class ToolbarComponent {
     this.http
       .get('sample-configs/full-observability-stack.yaml', { responseType: 'text' })
       .subscribe({
-        next: (yaml) => this.state.loadYaml(yaml),
+        next: (yaml) => this.workspace.open('Sample: full observability stack', yaml),
         error: (err) => console.error('Failed to load sample config:', err),
       });
   }
@@ -90,22 +159,32 @@ export class ToolbarComponent {
 
   onFileSelected(event: Event): void {
     const input = event.target as HTMLInputElement;
-    const file = input.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = () => {
-      const yaml = reader.result as string;
-      this.state.loadYaml(yaml);
-    };
-    reader.readAsText(file);
+    const files = Array.from(input.files ?? []);
+    if (files.length === 0) return;
+
+    // Several files are merged in selection order; the order can be changed in the YAML panel
+    Promise.all(files.map(file => file.text().then(content => ({ name: file.name, content }))))
+      .then(loaded => {
+        if (loaded.length === 1) {
+          this.workspace.open(loaded[0].name, loaded[0].content);
+        } else {
+          this.workspace.open(loaded.map(file => file.name).join(' + '), '', loaded);
+          this.snackBar.open(`Merged ${loaded.length} config files`, 'Dismiss', { duration: 3000 });
+        }
+      })
+      .catch(err => console.error('Failed to read config files:', err));
 
     // Reset input so the same file can be loaded again
     input.value = '';
   }
 
   exportFile(): void {
-    const yaml = this.state.exportYaml();
+    this.redactSecrets(this.state.exportYaml(), 'Export').then(yaml => {
+      if (yaml !== undefined) this.downloadYaml(this.state.wrapYaml(yaml));
+    });
+  }
+
+  private downloadYaml(yaml: string): void {
     const blob = new Blob([yaml], { type: 'text/yaml' });
     const url = URL.createObjectURL(blob);
 
@@ -132,16 +211,12 @@ export class ToolbarComponent {
   }
 
   async shareConfig(): Promise<void> {
+    const yaml = await this.redactSecrets(this.state.exportYaml(), 'Share');
+    if (yaml === undefined) return;
+
     try {
-      const yaml = this.state.exportYaml();
-      const url = this.configUrlService.generateShareableUrl(yaml);
-
-      if (navigator.clipboard && navigator.clipboard.writeText) {
-        await navigator.clipboard.writeText(url);
-        this.snackBar.open('Link copied to clipboard!', 'Dismiss', { duration: 3000 });
-      } else {
-        prompt('Copy this shareable link:', url);
-      }
+      const link = await this.configUrlService.generateShareLink(this.state.wrapYaml(yaml), this.graphView.filterParams());
+      this.dialog.open(ShareDialogComponent, { width: '560px', data: link });
     } catch (error) {
       const message = error instanceof ConfigTooLargeError
         ? 'Config too large to share via URL. Use Export instead.'
@@ -149,4 +224,21 @@ export class ToolbarComponent {
       this.snackBar.open(message, 'Dismiss', { duration: 5000 });
     }
   }
+
+  /**
+   * Let the user review the secrets found in `yaml` before it leaves the
+   * browser. Resolves to the redacted YAML (unchanged if nothing was found),
+   * or undefined if the user cancelled.
+   */
+  private redactSecrets(yaml: string, action: string): Promise<string | undefined> {
+    if (this.redaction.findSecrets(yaml).length === 0) {
+      return Promise.resolve(yaml);
+    }
+    return new Promise(resolve => {
+      this.dialog
+        .open(RedactionDialogComponent, { width: '680px', data: { yaml, action } satisfies RedactionDialogData })
+        .afterClosed()
+        .subscribe((redacted: string | undefined) => resolve(redacted));
+    });
+  }
 }
@@ -0,0 +1,66 @@
+import { Component, ElementRef, effect, inject, signal, viewChild } from '@angular/core';
+import { RecentFile } from '../../core/models';
+import { WorkspaceService } from '../../core/services/workspace.service';
+
+/**
+ * Tab bar of the workspace: switch, create, duplicate, rename (double-click),
+ * tag as production and close configs, and reopen recent files.
+ */
+@Component({
+  selector: 'app-workspace-tabs',
+  standalone: true,
+  templateUrl: './workspace-tabs.component.html',
+  styleUrl: './workspace-tabs.component.css',
+})
+export class WorkspaceTabsComponent {
+  readonly workspace = inject(WorkspaceService);
+
+  /** Tab whose name is being edited */
+  readonly renamingId = signal<string | null>(null);
+  readonly recentOpen = signal(false);
+
+  private readonly renameInput = viewChild<ElementRef<HTMLInputElement>>('renameInput');
+
+  constructor() {
+    effect(() => {
+      const input = this.renameInput()?.nativeElement;
+      if (input) {
+        input.focus();
+        input.select();
+      }
+    });
+  }
+
+  startRename(id: string): void {
+    this.renamingId.set(id);
+  }
+
+  commitRename(id: string, event: Event): void {
+    if (this.renamingId() !== id) return;
+    const name = (event.target as HTMLInputElement).value.trim();
+    if (name) this.workspace.rename(id, name);
+    this.renamingId.set(null);
+  }
+
+  cancelRename(): void {
+    this.renamingId.set(null);
+  }
+
+  setProduction(id: string, event: Event): void {
+    this.workspace.setProduction(id, (event.target as HTMLInputElement).checked);
+  }
+
+  close(id: string, event: MouseEvent): void {
+    event.stopPropagation();
+    this.workspace.close(id);
+  }
+
+  openRecent(file: RecentFile): void {
+    this.recentOpen.set(false);
+    this.workspace.openRecent(file);
+  }
+
+  formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString();
+  }
+}
@@ -1,6 +1,9 @@
 import { Component, ElementRef, AfterViewInit, DestroyRef, inject, effect, viewChild, signal } from '@angular/core';
+import { CONFIG_WRAPPER_LABELS } from '../../core/models';
 import { ConfigStateService } from '../../core/services/config-state.service';
 import { ThemeService } from '../../core/services/theme.service';
+import { MatDialog } from '@angular/material/dialog';
+import { LintRulesDialogComponent } from '../../shared/components/lint-rules-dialog/lint-rules-dialog.component';
 import { EditorState, Compartment } from '@codemirror/state';
 import { EditorView, keymap, lineNumbers, highlightActiveLine, highlightActiveLineGutter } from '@codemirror/view';
 import { defaultKeymap, history, historyKeymap, indentLess, indentMore } from '@codemirror/commands';
@@ -19,10 +22,13 @@ export class YamlPanelComponent implements AfterViewInit {
 
   readonly state = inject(ConfigStateService);
   readonly theme = inject(ThemeService);
+  private readonly dialog = inject(MatDialog);
   private readonly destroyRef = inject(DestroyRef);
 
   readonly expandedErrors = signal(new Set<string>());
 
+  readonly wrapperLabels = CONFIG_WRAPPER_LABELS;
+
   private editorView: EditorView | null = null;
   private debounceTimer: ReturnType<typeof setTimeout> | null = null;
   private suppressUpdate = false; // prevents feedback loops
@@ -31,7 +37,7 @@ export class YamlPanelComponent implements AfterViewInit {
   constructor() {
     // When config changes externally (e.g. Load Sample), update the editor
     effect(() => {
-      const yamlContent = this.state.rawYaml();
+      const yamlContent = this.state.editorYaml();
       if (this.editorView && !this.suppressUpdate) {
         const currentContent = this.editorView.state.doc.toString();
         if (yamlContent !== currentContent) {
@@ -77,10 +83,14 @@ export class YamlPanelComponent implements AfterViewInit {
   }
 
   copyToClipboard(): void {
-    const yamlContent = this.state.exportYaml();
+    const yamlContent = this.state.wrapYaml(this.state.exportYaml());
     navigator.clipboard.writeText(yamlContent).catch(console.error);
   }
 
+  openLintRules(): void {
+    this.dialog.open(LintRulesDialogComponent, { width: '560px' });
+  }
+
   goToLine(line?: number): void {
     if (!this.editorView || !line) return;
 
@@ -94,7 +104,7 @@ export class YamlPanelComponent implements AfterViewInit {
   }
 
   reformatYaml(): void {
-    if (this.state.errors().length > 0) return;
+    if (this.state.errors().length > 0 || this.state.activeFileIndex() !== null) return;
     const reformatted = this.state.reformatYaml();
     // Update editor content directly
     if (reformatted && this.editorView) {
@@ -110,7 +120,7 @@ export class YamlPanelComponent implements AfterViewInit {
 
   private initEditor(): void {
     const startState = EditorState.create({
-      doc: this.state.rawYaml(),
+      doc: this.state.editorYaml(),
       extensions: [
         lineNumbers(),
         highlightActiveLine(),
@@ -202,7 +212,7 @@ export class YamlPanelComponent implements AfterViewInit {
 
     this.debounceTimer = setTimeout(() => {
       this.suppressUpdate = true;
-      this.state.updateYaml(value);
+      this.state.updateEditorYaml(value);
       this.suppressUpdate = false;
     }, 400);
   }
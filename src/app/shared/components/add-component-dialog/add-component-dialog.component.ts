@@ -5,8 +5,9 @@ import { MatButtonModule } from '@angular/material/button';
 import { ComponentLibraryService } from '../../../core/services/component-library.service';
 import { ConfigStateService } from '../../../core/services/config-state.service';
 import { ComponentDefinition } from '../../../core/models/component-library.model';
-import { RegistryComponentEntry } from '../../../core/models/component-registry.model';
+import { RegistryComponentEntry, StabilityLevel } from '../../../core/models/component-registry.model';
 import { ComponentType, SignalType, getComponentColor, getSignalColor } from '../../../core/models';
+import { formatStability, lowestStability } from '../../../core/utils/stability';
 
 type TabFilter = 'all' | ComponentType;
 
@@ -40,16 +41,44 @@ export class AddComponentDialogComponent {
 
   readonly isLoading = computed(() => this.library.isLoading());
   readonly catalogError = computed(() => this.library.error());
+  readonly catalogVersions = computed(() => this.library.catalogVersions());
+  readonly catalogVersion = computed(() => this.library.catalogVersion());
+  readonly liveOverlay = computed(() => this.library.liveOverlay());
   readonly componentCount = computed(() => this.filteredComponents().length);
 
   readonly signalTypes: SignalType[] = ['traces', 'metrics', 'logs'];
 
+  /**
+   * Signals the selected component supports, read from the catalog so that
+   * metadata fetched after selecting it is taken into account. All signals
+   * when the catalog doesn't know.
+   */
+  readonly selectedSignals = computed<SignalType[]>(() => {
+    const def = this.selectedDefinition();
+    if (!def) return [];
+    const current = this.library.getByType(def.componentType).find(c => c.type === def.type) ?? def;
+    return current.supportedSignals.length > 0 ? current.supportedSignals : this.signalTypes;
+  });
+
+  /** Pipelines whose signal the selected component supports */
   readonly availablePipelines = computed(() => {
     const def = this.selectedDefinition();
     if (!def || def.componentType === 'extension') return [];
-    return this.state.config().service.pipelines;
+    return this.state.config().service.pipelines.filter(p => this.selectedSignals().includes(p.signal));
   });
 
+  /** Pipelines left out of `availablePipelines` because of their signal */
+  readonly incompatiblePipelineCount = computed(() => {
+    const def = this.selectedDefinition();
+    if (!def || def.componentType === 'extension') return 0;
+    return this.state.config().service.pipelines.length - this.availablePipelines().length;
+  });
+
+  /** Signal of the new pipeline, falling back to a supported one */
+  readonly effectiveNewPipelineSignal = computed<SignalType>(() =>
+    this.selectedSignals().includes(this.newPipelineSignal()) ? this.newPipelineSignal() : this.selectedSignals()[0] ?? 'traces',
+  );
+
   readonly tabs: { value: TabFilter; label: string }[] = [
     { value: 'all', label: 'All' },
     { value: 'receiver', label: 'Receivers' },
@@ -84,6 +113,19 @@ export class AddComponentDialogComponent {
     return getComponentColor(type);
   }
 
+  stabilityOf(def: ComponentDefinition): Record<string, StabilityLevel> | undefined {
+    return (def as RegistryComponentEntry).stability;
+  }
+
+  /** Least stable level across the component's signals, shown as a badge */
+  lowestStability(def: ComponentDefinition): StabilityLevel | null {
+    return lowestStability(this.stabilityOf(def));
+  }
+
+  stabilityTitle(def: ComponentDefinition): string {
+    return formatStability(this.stabilityOf(def));
+  }
+
   selectTab(tab: TabFilter): void {
     this.activeTab.set(tab);
     this.selectedDefinition.set(null);
@@ -133,6 +175,15 @@ export class AddComponentDialogComponent {
     this.newPipelineName.set((event.target as HTMLInputElement).value);
   }
 
+  onCatalogVersionChange(event: Event): void {
+    this.selectedDefinition.set(null);
+    this.library.setCatalogVersion((event.target as HTMLSelectElement).value);
+  }
+
+  onLiveOverlayChange(event: Event): void {
+    this.library.setLiveOverlay((event.target as HTMLInputElement).checked);
+  }
+
   onSearchInput(event: Event): void {
     this.searchQuery.set((event.target as HTMLInputElement).value);
   }
@@ -148,9 +199,9 @@ export class AddComponentDialogComponent {
     const result: AddComponentDialogResult = {
       definition: def,
       instanceName: this.instanceName().trim().replace(/\//g, '') || undefined,
-      pipelineIds: [...this.selectedPipelines()],
+      pipelineIds: this.availablePipelines().map(p => p.id).filter(id => this.selectedPipelines().has(id)),
       newPipeline: this.showNewPipeline()
-        ? { signal: this.newPipelineSignal(), name: this.newPipelineName().trim() || undefined }
+        ? { signal: this.effectiveNewPipelineSignal(), name: this.newPipelineName().trim() || undefined }
         : undefined,
     };
 
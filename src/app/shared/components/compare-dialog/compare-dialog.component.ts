@@ -0,0 +1,63 @@
+import { Component, inject, signal } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { ConfigDiffService } from '../../../core/services/config-diff.service';
+import { WorkspaceService } from '../../../core/services/workspace.service';
+
+@Component({
+  selector: 'app-compare-dialog',
+  standalone: true,
+  imports: [MatDialogModule, MatButtonModule],
+  templateUrl: './compare-dialog.component.html',
+  styleUrls: ['./compare-dialog.component.css'],
+})
+export class CompareDialogComponent {
+  private readonly diff = inject(ConfigDiffService);
+  private readonly workspace = inject(WorkspaceService);
+  private readonly dialogRef = inject(MatDialogRef<CompareDialogComponent>);
+
+  readonly beforeYaml = signal('');
+  readonly beforeLabel = signal('pasted YAML');
+  readonly afterYaml = signal('');
+  readonly afterLabel = signal('');
+  readonly error = signal<string | null>(null);
+
+  onBeforeInput(event: Event): void {
+    this.beforeYaml.set((event.target as HTMLTextAreaElement).value);
+    this.beforeLabel.set('pasted YAML');
+  }
+
+  async onBeforeFile(event: Event): Promise<void> {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    if (!file) return;
+    this.beforeYaml.set(await file.text());
+    this.beforeLabel.set(file.name);
+  }
+
+  async onAfterFile(event: Event): Promise<void> {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    if (!file) return;
+    this.afterYaml.set(await file.text());
+    this.afterLabel.set(file.name);
+  }
+
+  compare(): void {
+    try {
+      this.diff.setBaseline(this.beforeYaml(), this.beforeLabel());
+    } catch (error) {
+      this.error.set(`Could not parse the "before" config: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+      return;
+    }
+
+    // The "after" side is always the current config; a loaded file opens in its own tab
+    if (this.afterYaml()) {
+      this.workspace.open(this.afterLabel(), this.afterYaml());
+    }
+    this.dialogRef.close();
+  }
+
+  snapshotCurrent(): void {
+    this.diff.snapshotCurrent();
+    this.dialogRef.close();
+  }
+}
@@ -0,0 +1,83 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { OtelPipeline, SignalType, getSignalColor } from '../../../core/models';
+
+export interface ConnectDialogData {
+  sourceId: string;
+  targetId: string;
+  pipelines: OtelPipeline[];
+}
+
+/** Either an existing pipeline or a pipeline to create for the link */
+export interface ConnectDialogResult {
+  pipelineId?: string;
+  newPipeline?: { signal: SignalType; name?: string };
+}
+
+const NEW_PIPELINE = '';
+
+@Component({
+  selector: 'app-connect-dialog',
+  standalone: true,
+  imports: [MatDialogModule, MatButtonModule],
+  templateUrl: './connect-dialog.component.html',
+  styleUrls: ['./connect-dialog.component.css'],
+})
+export class ConnectDialogComponent {
+  readonly data = inject<ConnectDialogData>(MAT_DIALOG_DATA);
+  private readonly dialogRef = inject(MatDialogRef<ConnectDialogComponent>);
+
+  readonly signalTypes: SignalType[] = ['traces', 'metrics', 'logs'];
+  readonly newPipelineValue = NEW_PIPELINE;
+
+  /** Chosen pipeline ID, or NEW_PIPELINE. Defaults to a pipeline the source is already in. */
+  readonly choice = signal(this.defaultChoice());
+  readonly newPipelineSignal = signal<SignalType>('traces');
+  readonly newPipelineName = signal('');
+
+  /** ID the new pipeline would get */
+  readonly newPipelineId = computed(() => {
+    const name = this.newPipelineName().trim();
+    return name ? `${this.newPipelineSignal()}/${name}` : this.newPipelineSignal();
+  });
+
+  /** A pipeline with the new pipeline's ID already exists */
+  readonly newPipelineTaken = computed(() => this.data.pipelines.some(p => p.id === this.newPipelineId()));
+
+  readonly canConnect = computed(() => this.choice() !== NEW_PIPELINE || !this.newPipelineTaken());
+
+  getSignalColor(pipelineSignal: SignalType): string {
+    return getSignalColor(pipelineSignal);
+  }
+
+  /** Whether the pipeline already contains one end of the link */
+  isMember(pipeline: OtelPipeline, componentId: string): boolean {
+    return pipeline.receivers.includes(componentId) ||
+      pipeline.processors.includes(componentId) ||
+      pipeline.exporters.includes(componentId);
+  }
+
+  onNewPipelineSignalChange(event: Event): void {
+    this.newPipelineSignal.set((event.target as HTMLSelectElement).value as SignalType);
+  }
+
+  onNewPipelineNameInput(event: Event): void {
+    this.newPipelineName.set((event.target as HTMLInputElement).value);
+  }
+
+  onConnect(): void {
+    if (!this.canConnect()) return;
+    const choice = this.choice();
+    const result: ConnectDialogResult = choice === NEW_PIPELINE
+      ? { newPipeline: { signal: this.newPipelineSignal(), name: this.newPipelineName().trim() || undefined } }
+      : { pipelineId: choice };
+    this.dialogRef.close(result);
+  }
+
+  private defaultChoice(): string {
+    const pipelines = this.data.pipelines;
+    const withSource = pipelines.find(p => this.isMember(p, this.data.sourceId));
+    return withSource?.id ?? pipelines[0]?.id ?? NEW_PIPELINE;
+  }
+}
@@ -0,0 +1,98 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatDialogModule } from '@angular/material/dialog';
+import { DistributionId } from '../../../core/models';
+import { ConfigStateService } from '../../../core/services/config-state.service';
+import { ComponentRegistryService } from '../../../core/services/component-registry.service';
+import { DistributionService } from '../../../core/services/distribution.service';
+import {
+  BuilderManifestError,
+  COLLECTOR_VERSIONS,
+  DEFAULT_COLLECTOR_VERSION,
+  generateBuilderManifest,
+} from '../../../core/utils/distributions';
+
+@Component({
+  selector: 'app-distribution-dialog',
+  standalone: true,
+  imports: [MatDialogModule, MatButtonModule],
+  templateUrl: './distribution-dialog.component.html',
+  styleUrls: ['./distribution-dialog.component.css'],
+})
+export class DistributionDialogComponent {
+  readonly distributions = inject(DistributionService);
+  readonly state = inject(ConfigStateService);
+  private readonly registry = inject(ComponentRegistryService);
+
+  /** Manifest text being edited, applied with "Use manifest" */
+  readonly manifestDraft = signal(this.distributions.customManifest());
+  readonly manifestError = signal<string | null>(null);
+
+  readonly collectorVersions = COLLECTOR_VERSIONS;
+  readonly buildName = signal('otelcol-custom');
+  readonly buildVersion = signal(this.registry.version() ?? DEFAULT_COLLECTOR_VERSION);
+  readonly versionValid = computed(() => /^v?\d+\.\d+\.\d+$/.test(this.buildVersion().trim()));
+
+  /** OCB manifest with just the components of the current config */
+  readonly generated = computed(() =>
+    generateBuilderManifest(this.state.config(), this.registry.catalog(), {
+      name: this.buildName(),
+      version: this.buildVersion(),
+    }),
+  );
+
+  select(id: DistributionId | null): void {
+    this.distributions.select(id);
+  }
+
+  onManifestInput(event: Event): void {
+    this.manifestDraft.set((event.target as HTMLTextAreaElement).value);
+    this.manifestError.set(null);
+  }
+
+  onManifestFile(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    file.text()
+      .then(text => {
+        this.manifestDraft.set(text);
+        this.applyManifest();
+      })
+      .catch(err => console.error('Failed to read manifest:', err));
+    input.value = '';
+  }
+
+  applyManifest(): void {
+    try {
+      this.distributions.setCustomManifest(this.manifestDraft());
+      this.manifestError.set(null);
+    } catch (error) {
+      this.manifestError.set(error instanceof BuilderManifestError ? error.message : 'Failed to read the manifest');
+    }
+  }
+
+  onBuildNameInput(event: Event): void {
+    this.buildName.set((event.target as HTMLInputElement).value);
+  }
+
+  onBuildVersionInput(event: Event): void {
+    this.buildVersion.set((event.target as HTMLInputElement).value);
+  }
+
+  copyGenerated(): void {
+    navigator.clipboard.writeText(this.generated().yaml).catch(console.error);
+  }
+
+  downloadGenerated(): void {
+    const blob = new Blob([this.generated().yaml], { type: 'text/yaml' });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'builder-config.yaml';
+    a.click();
+
+    URL.revokeObjectURL(url);
+  }
+}
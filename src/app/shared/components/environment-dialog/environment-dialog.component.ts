@@ -0,0 +1,50 @@
+import { Component, inject, signal } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatDialogModule } from '@angular/material/dialog';
+import { VariableReference } from '../../../core/models';
+import { EnvironmentService } from '../../../core/services/environment.service';
+import { variableKey } from '../../../core/utils/env-substitution';
+
+@Component({
+  selector: 'app-environment-dialog',
+  standalone: true,
+  imports: [MatDialogModule, MatButtonModule],
+  templateUrl: './environment-dialog.component.html',
+  styleUrls: ['./environment-dialog.component.css'],
+})
+export class EnvironmentDialogComponent {
+  readonly environment = inject(EnvironmentService);
+
+  readonly newEnvironmentName = signal('');
+  readonly showResolvedYaml = signal(false);
+
+  keyOf(reference: VariableReference): string {
+    return variableKey(reference);
+  }
+
+  valueOf(reference: VariableReference): string {
+    return this.environment.activeEnvironment().variables[variableKey(reference)] ?? '';
+  }
+
+  isUndefined(reference: VariableReference): boolean {
+    return this.environment.undefinedVariables().includes(variableKey(reference));
+  }
+
+  onValueInput(reference: VariableReference, event: Event): void {
+    this.environment.setVariable(variableKey(reference), (event.target as HTMLInputElement).value);
+  }
+
+  onNameInput(event: Event): void {
+    this.newEnvironmentName.set((event.target as HTMLInputElement).value);
+  }
+
+  addEnvironment(): void {
+    if (this.environment.addEnvironment(this.newEnvironmentName())) {
+      this.newEnvironmentName.set('');
+    }
+  }
+
+  togglePreview(event: Event): void {
+    this.environment.setPreviewEnabled((event.target as HTMLInputElement).checked);
+  }
+}
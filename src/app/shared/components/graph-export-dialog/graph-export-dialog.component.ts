@@ -0,0 +1,69 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { GraphExportFormat } from '../../../core/utils/graph-export';
+
+export interface GraphExportDialogData {
+  /** Text exports, shown as a preview that can be copied */
+  mermaid: string;
+  dot: string;
+}
+
+export interface GraphExportDialogResult {
+  format: GraphExportFormat;
+  /** PNG only: device pixels per graph pixel */
+  scale: number;
+}
+
+@Component({
+  selector: 'app-graph-export-dialog',
+  standalone: true,
+  imports: [MatDialogModule, MatButtonModule],
+  templateUrl: './graph-export-dialog.component.html',
+  styleUrls: ['./graph-export-dialog.component.css'],
+})
+export class GraphExportDialogComponent {
+  readonly data = inject<GraphExportDialogData>(MAT_DIALOG_DATA);
+  private readonly dialogRef = inject(MatDialogRef<GraphExportDialogComponent>);
+
+  readonly formats: { value: GraphExportFormat; label: string; hint: string }[] = [
+    { value: 'svg', label: 'SVG', hint: 'Standalone vector image with the current theme colors' },
+    { value: 'png', label: 'PNG', hint: 'Bitmap image at the chosen scale' },
+    { value: 'mermaid', label: 'Mermaid', hint: 'Flowchart text for Markdown docs' },
+    { value: 'dot', label: 'Graphviz DOT', hint: 'Digraph text for dot and other Graphviz tools' },
+  ];
+  readonly scales = [1, 2, 3, 4];
+
+  readonly format = signal<GraphExportFormat>('svg');
+  readonly scale = signal(2);
+  readonly copied = signal(false);
+
+  /** Text of the chosen text format, or null for image formats */
+  readonly text = computed(() => {
+    switch (this.format()) {
+      case 'mermaid': return this.data.mermaid;
+      case 'dot': return this.data.dot;
+      default: return null;
+    }
+  });
+
+  selectFormat(format: GraphExportFormat): void {
+    this.format.set(format);
+    this.copied.set(false);
+  }
+
+  onScaleChange(event: Event): void {
+    this.scale.set(Number((event.target as HTMLSelectElement).value));
+  }
+
+  async copyText(): Promise<void> {
+    const text = this.text();
+    if (text === null || !navigator.clipboard?.writeText) return;
+    await navigator.clipboard.writeText(text);
+    this.copied.set(true);
+  }
+
+  onExport(): void {
+    this.dialogRef.close({ format: this.format(), scale: this.scale() } satisfies GraphExportDialogResult);
+  }
+}
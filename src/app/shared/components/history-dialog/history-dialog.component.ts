@@ -0,0 +1,16 @@
+import { Component, inject } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatDialogModule } from '@angular/material/dialog';
+import { ConfigStateService } from '../../../core/services/config-state.service';
+
+@Component({
+  selector: 'app-history-dialog',
+  standalone: true,
+  imports: [MatDialogModule, MatButtonModule, DatePipe],
+  templateUrl: './history-dialog.component.html',
+  styleUrls: ['./history-dialog.component.css'],
+})
+export class HistoryDialogComponent {
+  readonly state = inject(ConfigStateService);
+}
@@ -0,0 +1,19 @@
+import { Component, inject } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatDialogModule } from '@angular/material/dialog';
+import { ConfigLintService } from '../../../core/services/config-lint.service';
+
+@Component({
+  selector: 'app-lint-rules-dialog',
+  standalone: true,
+  imports: [MatDialogModule, MatButtonModule],
+  templateUrl: './lint-rules-dialog.component.html',
+  styleUrls: ['./lint-rules-dialog.component.css'],
+})
+export class LintRulesDialogComponent {
+  readonly linter = inject(ConfigLintService);
+
+  toggle(ruleId: string, event: Event): void {
+    this.linter.setRuleEnabled(ruleId, (event.target as HTMLInputElement).checked);
+  }
+}
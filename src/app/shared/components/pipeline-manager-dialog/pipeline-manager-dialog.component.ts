@@ -41,7 +41,9 @@ export class PipelineManagerDialogComponent {
     const config = this.state.config();
     const existing = new Set(pipeline[role]);
 
-    return config[role].map(c => c.id).filter(id => !existing.has(id));
+    // Connectors can sit on either end of a pipeline
+    const candidates = role === 'processors' ? config[role] : [...config[role], ...config.connectors];
+    return candidates.map(c => c.id).filter(id => !existing.has(id));
   }
 
   toggleAddDropdown(pipelineId: string, role: PipelineRole): void {
@@ -0,0 +1,44 @@
+import { Component, computed, inject } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatDialogModule } from '@angular/material/dialog';
+import { ListenEndpoint } from '../../../core/models';
+import { ConfigStateService } from '../../../core/services/config-state.service';
+import {
+  endpointOwner,
+  findListenEndpoints,
+  findPortConflicts,
+  findScrapeTargets,
+  isLoopback,
+  toServicePorts,
+} from '../../../core/utils/endpoints';
+
+/**
+ * Ports the config makes the collector listen on, with port conflicts and a
+ * `ports:` list to paste into a Kubernetes Service.
+ */
+@Component({
+  selector: 'app-ports-dialog',
+  standalone: true,
+  imports: [MatDialogModule, MatButtonModule],
+  templateUrl: './ports-dialog.component.html',
+  styleUrls: ['./ports-dialog.component.css'],
+})
+export class PortsDialogComponent {
+  private readonly state = inject(ConfigStateService);
+
+  readonly endpoints = computed(() => findListenEndpoints(this.state.config()));
+  readonly conflicts = computed(() => findPortConflicts(this.endpoints()));
+  readonly scrapeTargets = computed(() => findScrapeTargets(this.state.config()));
+  readonly servicePorts = computed(() => toServicePorts(this.endpoints()));
+
+  readonly owner = endpointOwner;
+  readonly isLoopback = isLoopback;
+
+  isConflicting(endpoint: ListenEndpoint): boolean {
+    return this.conflicts().some(c => c.endpoint === endpoint || c.conflictsWith === endpoint);
+  }
+
+  copyServicePorts(): void {
+    navigator.clipboard.writeText(this.servicePorts()).catch(console.error);
+  }
+}
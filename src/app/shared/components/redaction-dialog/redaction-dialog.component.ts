@@ -0,0 +1,83 @@
+import { Component, computed, inject, signal } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { RedactionChoice, RedactionMatch, RedactionReplacement } from '../../../core/models';
+import { RedactionService } from '../../../core/services/redaction.service';
+import { REDACTED_TEXT, isValidPattern } from '../../../core/utils/redaction';
+
+export interface RedactionDialogData {
+  yaml: string;
+  /** What happens with the result, used on the confirm button (e.g. 'Share', 'Export') */
+  action: string;
+}
+
+/**
+ * Preview of the secrets found in a config before it is shared or exported.
+ * Closes with the redacted YAML, or undefined when cancelled.
+ */
+@Component({
+  selector: 'app-redaction-dialog',
+  standalone: true,
+  imports: [MatDialogModule, MatButtonModule],
+  templateUrl: './redaction-dialog.component.html',
+  styleUrls: ['./redaction-dialog.component.css'],
+})
+export class RedactionDialogComponent {
+  readonly data = inject<RedactionDialogData>(MAT_DIALOG_DATA);
+  readonly redaction = inject(RedactionService);
+  private readonly dialogRef = inject(MatDialogRef<RedactionDialogComponent, string>);
+
+  readonly redactedText = REDACTED_TEXT;
+
+  readonly matches = computed(() => this.redaction.findSecrets(this.data.yaml));
+  readonly redactedYaml = computed(() => this.redaction.redact(this.data.yaml, this.matches()));
+  readonly keptCount = computed(() => this.matches().filter(m => this.redaction.choiceFor(m) === 'keep').length);
+
+  readonly showYaml = signal(false);
+  readonly showRules = signal(false);
+
+  readonly newKeyPattern = signal('');
+  readonly newValuePattern = signal('');
+  readonly newReplacement = signal<RedactionReplacement>('env');
+  readonly newRuleError = computed(() => {
+    if (!isValidPattern(this.newKeyPattern())) return 'Key pattern is not a valid regular expression';
+    if (!isValidPattern(this.newValuePattern())) return 'Value pattern is not a valid regular expression';
+    return null;
+  });
+
+  /** Enough of a value to recognize it without revealing it */
+  mask(value: string): string {
+    const firstLine = value.split('\n')[0];
+    return firstLine.length <= 4 ? '••••' : `${firstLine.slice(0, 4)}••••`;
+  }
+
+  onChoiceChange(match: RedactionMatch, event: Event): void {
+    this.redaction.setChoice(match, (event.target as HTMLSelectElement).value as RedactionChoice);
+  }
+
+  onRuleToggle(ruleId: string, event: Event): void {
+    this.redaction.setRuleEnabled(ruleId, (event.target as HTMLInputElement).checked);
+  }
+
+  onNewReplacementChange(event: Event): void {
+    this.newReplacement.set((event.target as HTMLSelectElement).value as RedactionReplacement);
+  }
+
+  addRule(): void {
+    const keyPattern = this.newKeyPattern().trim();
+    const valuePattern = this.newValuePattern().trim();
+    if ((!keyPattern && !valuePattern) || this.newRuleError()) return;
+
+    this.redaction.addRule({
+      keyPattern: keyPattern || undefined,
+      valuePattern: valuePattern || undefined,
+      replacement: this.newReplacement(),
+    });
+    this.newKeyPattern.set('');
+    this.newValuePattern.set('');
+  }
+
+  onConfirm(): void {
+    this.dialogRef.close(this.redactedYaml());
+  }
+}
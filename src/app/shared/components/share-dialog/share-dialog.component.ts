@@ -0,0 +1,48 @@
+import { Component, ElementRef, inject, signal, viewChild } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MAT_DIALOG_DATA, MatDialogModule } from '@angular/material/dialog';
+import { ShareLink } from '../../../core/services/config-url.service';
+
+/**
+ * Shows a share link with how much the config was compressed, and copies it.
+ */
+@Component({
+  selector: 'app-share-dialog',
+  standalone: true,
+  imports: [MatDialogModule, MatButtonModule],
+  templateUrl: './share-dialog.component.html',
+  styleUrls: ['./share-dialog.component.css'],
+})
+export class ShareDialogComponent {
+  readonly link = inject<ShareLink>(MAT_DIALOG_DATA);
+
+  private readonly urlInput = viewChild.required<ElementRef<HTMLInputElement>>('urlInput');
+
+  readonly copied = signal(false);
+  /** Clipboard access was denied or is unavailable; the user copies by hand */
+  readonly copyFailed = signal(false);
+
+  /** Compressed size as a share of the original, in percent */
+  readonly ratio = Math.round((this.link.payloadSize / Math.max(1, this.link.originalSize)) * 100);
+
+  formatSize(size: number): string {
+    return size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KB`;
+  }
+
+  async copyLink(): Promise<void> {
+    try {
+      await navigator.clipboard.writeText(this.link.url);
+      this.copied.set(true);
+    } catch {
+      // Leave the link selected so it can be copied manually
+      const input = this.urlInput().nativeElement;
+      input.focus();
+      input.select();
+      this.copyFailed.set(true);
+    }
+  }
+
+  selectAll(event: Event): void {
+    (event.target as HTMLInputElement).select();
+  }
+}
@@ -0,0 +1,159 @@
+import { Component, computed, inject } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatDialogModule } from '@angular/material/dialog';
+import { TelemetryDestination, getSignalColor } from '../../../core/models';
+import { ConfigStateService } from '../../../core/services/config-state.service';
+import {
+  OTLP_PROTOCOLS,
+  TELEMETRY_DEFAULTS,
+  TELEMETRY_LEVELS,
+  TELEMETRY_LOG_ENCODINGS,
+  TELEMETRY_LOG_LEVELS,
+  TELEMETRY_PROPAGATORS,
+  checkTelemetry,
+  setTelemetryValue,
+  telemetryDestinations,
+} from '../../../core/utils/telemetry';
+
+type TelemetryPath = (string | number)[];
+
+/** A metric reader as shown in the editor */
+interface ReaderRow {
+  kind: 'pull' | 'periodic' | 'other';
+  host: string;
+  port: string;
+  protocol: string;
+  endpoint: string;
+  interval: string;
+  console: boolean;
+}
+
+/**
+ * Editor for `service.telemetry`: the collector's own log level and encoding,
+ * internal metrics level and readers, and trace level and propagators. Each
+ * change is applied to the config right away (one history entry per change).
+ */
+@Component({
+  selector: 'app-telemetry-dialog',
+  standalone: true,
+  imports: [MatDialogModule, MatButtonModule],
+  templateUrl: './telemetry-dialog.component.html',
+  styleUrls: ['./telemetry-dialog.component.css'],
+})
+export class TelemetryDialogComponent {
+  private readonly state = inject(ConfigStateService);
+
+  readonly logLevels = TELEMETRY_LOG_LEVELS;
+  readonly logEncodings = TELEMETRY_LOG_ENCODINGS;
+  readonly levels = TELEMETRY_LEVELS;
+  readonly propagatorNames = TELEMETRY_PROPAGATORS;
+  readonly protocols = OTLP_PROTOCOLS;
+  readonly defaults = TELEMETRY_DEFAULTS;
+
+  readonly telemetry = computed(() => this.state.config().service.telemetry);
+  readonly destinations = computed(() => telemetryDestinations(this.telemetry()));
+  readonly problems = computed(() => checkTelemetry(this.telemetry()));
+
+  readonly logLevel = computed(() => this.text(['logs', 'level']));
+  readonly logEncoding = computed(() => this.text(['logs', 'encoding']));
+  readonly metricsLevel = computed(() => this.text(['metrics', 'level']));
+  readonly tracesLevel = computed(() => this.text(['traces', 'level']));
+  readonly metricsAddress = computed(() => this.text(['metrics', 'address']));
+
+  readonly propagators = computed(() => {
+    const value = this.valueAt(['traces', 'propagators']);
+    return Array.isArray(value) ? value.map(String) : [];
+  });
+
+  readonly readers = computed<ReaderRow[]>(() => {
+    const value = this.valueAt(['metrics', 'readers']);
+    return (Array.isArray(value) ? value : []).map((_, i) => {
+      const pull = this.valueAt(['metrics', 'readers', i, 'pull']) !== undefined;
+      const periodic = this.valueAt(['metrics', 'readers', i, 'periodic']) !== undefined;
+      const prometheus: TelemetryPath = ['metrics', 'readers', i, 'pull', 'exporter', 'prometheus'];
+      const otlp: TelemetryPath = ['metrics', 'readers', i, 'periodic', 'exporter', 'otlp'];
+      return {
+        kind: pull && !periodic ? 'pull' : periodic && !pull ? 'periodic' : 'other',
+        host: this.text([...prometheus, 'host']),
+        port: this.text([...prometheus, 'port']),
+        protocol: this.text([...otlp, 'protocol']),
+        endpoint: this.text([...otlp, 'endpoint']),
+        interval: this.text(['metrics', 'readers', i, 'periodic', 'interval']),
+        console: this.valueAt(['metrics', 'readers', i, 'periodic', 'exporter', 'console']) !== undefined,
+      };
+    });
+  });
+
+  /** Set a value from a select or text field; an empty value removes the setting */
+  onValueChange(path: TelemetryPath, event: Event): void {
+    const value = (event.target as HTMLInputElement | HTMLSelectElement).value.trim();
+    this.set(path, value === '' ? undefined : value);
+  }
+
+  /** Like onValueChange, for settings that are numbers (kept as text when not, so validation reports it) */
+  onNumberChange(path: TelemetryPath, event: Event): void {
+    const value = (event.target as HTMLInputElement).value.trim();
+    this.set(path, value === '' ? undefined : Number.isFinite(Number(value)) ? Number(value) : value);
+  }
+
+  togglePropagator(name: string, event: Event): void {
+    const checked = (event.target as HTMLInputElement).checked;
+    const propagators = this.propagators().filter(p => p !== name);
+    if (checked) propagators.push(name);
+    this.set(['traces', 'propagators'], propagators.length > 0 ? propagators : undefined);
+  }
+
+  addPullReader(): void {
+    this.set(['metrics', 'readers', this.readers().length], {
+      pull: { exporter: { prometheus: { host: 'localhost', port: 8888 } } },
+    }, 'Added telemetry metrics reader');
+  }
+
+  addPeriodicReader(): void {
+    this.set(['metrics', 'readers', this.readers().length], {
+      periodic: { exporter: { otlp: { protocol: 'http/protobuf', endpoint: 'http://localhost:4318' } } },
+    }, 'Added telemetry metrics reader');
+  }
+
+  removeReader(index: number): void {
+    this.set(['metrics', 'readers', index], undefined, 'Removed telemetry metrics reader');
+  }
+
+  /** Replace the deprecated `metrics.address` with the equivalent pull reader */
+  migrateAddress(): void {
+    const address = this.metricsAddress();
+    const separator = address.lastIndexOf(':');
+    const reader = {
+      pull: {
+        exporter: {
+          prometheus: { host: address.slice(0, separator) || '0.0.0.0', port: Number(address.slice(separator + 1)) },
+        },
+      },
+    };
+    const withoutAddress = setTelemetryValue(this.telemetry(), ['metrics', 'address'], undefined);
+    this.state.updateTelemetry(
+      setTelemetryValue(withoutAddress, ['metrics', 'readers', this.readers().length], reader),
+      'Replaced telemetry metrics address with a pull reader',
+    );
+  }
+
+  signalColor(destination: TelemetryDestination): string {
+    return getSignalColor(destination.signal);
+  }
+
+  private set(path: TelemetryPath, value: unknown, label = 'Edited telemetry'): void {
+    this.state.updateTelemetry(setTelemetryValue(this.telemetry(), path, value), label);
+  }
+
+  private valueAt(path: TelemetryPath): unknown {
+    return path.reduce<unknown>((node, key) => {
+      if (node === null || typeof node !== 'object') return undefined;
+      return (node as Record<string | number, unknown>)[key];
+    }, this.telemetry());
+  }
+
+  private text(path: TelemetryPath): string {
+    const value = this.valueAt(path);
+    return value === undefined || value === null || typeof value === 'object' ? '' : String(value);
+  }
+}